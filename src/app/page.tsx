@@ -1,26 +1,79 @@
 'use client';
 
 import React, { useState, useRef, useCallback, useMemo, useEffect } from 'react';
-import { RotateCw, Copy, Download, Grid, Trash2, Menu, Zap, Sparkles } from 'lucide-react';
-
-interface Point {
-  x: number;
-  y: number;
-}
-
-interface Tile {
-  id: string;
-  shape: ShapeType;
-  x: number;
-  y: number;
-  rotation: number;
-  color: string;
-  isSymmetryMirror?: boolean; // Track if this is a mirror tile
-  originalId?: string; // Reference to original tile for mirrors
-}
-
-type ShapeType = 'triangle' | 'square' | 'hexagon' | 'diamond';
-type SymmetryMode = 'none' | 'horizontal' | 'vertical' | 'radial';
+import { RotateCw, RotateCcw, FlipHorizontal2, PaintBucket, BringToFront, SendToBack, Group, Ungroup, Copy, Download, Grid, Trash2, Menu, Zap, Sparkles, Undo2, Redo2, FolderOpen, FileUp, FileJson, ImageDown, LayoutGrid, ZoomIn, ZoomOut, Maximize2, Focus, SwatchBook, Wand2, Paintbrush } from 'lucide-react';
+import AutoColorDialog from '@/components/AutoColorDialog';
+import type { AutoColorSettings } from '@/components/AutoColorDialog';
+import DesignLibraryDialog from '@/components/DesignLibraryDialog';
+import GridOptions from '@/components/GridOptions';
+import ImportReportDialog from '@/components/ImportReportDialog';
+import LayersPanel from '@/components/LayersPanel';
+import NumberField from '@/components/NumberField';
+import PaletteDialog from '@/components/PaletteDialog';
+import RasterExportDialog from '@/components/RasterExportDialog';
+import ShapeEditorDialog from '@/components/ShapeEditorDialog';
+import ShapePalette from '@/components/ShapePalette';
+import SvgExportDialog from '@/components/SvgExportDialog';
+import SymmetryOptions from '@/components/SymmetryOptions';
+import TilePaintDefs from '@/components/TilePaintDefs';
+import TileStyleInspector from '@/components/TileStyleInspector';
+import TilingDialog from '@/components/TilingDialog';
+import type { TilingSettings } from '@/components/TilingDialog';
+import ValidationPanel from '@/components/ValidationPanel';
+import { autoColor } from '@/lib/coloring';
+import { CANVAS_SIZE, createDocument, parseDocument, serializeDocument } from '@/lib/document';
+import type { DocumentIssue } from '@/lib/document';
+import { downloadBlob } from '@/lib/download';
+import { DEFAULT_GRID, GRID_TYPE_LABELS, getGridPath, getGridSnapOffset, snapToGrid } from '@/lib/grid';
+import { renderRaster } from '@/lib/rasterExport';
+import type { RasterExportOptions } from '@/lib/rasterExport';
+import { useHistory } from '@/lib/history';
+import { useDesignLibrary, usePaletteLibrary } from '@/lib/library';
+import { DEFAULT_PALETTE } from '@/lib/palettes';
+import { DEFAULT_ROTATION_STEP, ROTATION_STEPS, normalizeAngle, snapAngle, stepRotation } from '@/lib/rotation';
+import {
+  DEFAULT_LAYER,
+  DEFAULT_SCENE,
+  expandToGroups,
+  getDrawOrder,
+  getTileLayer,
+  groupTiles,
+  isTileEditable,
+  moveLayer,
+  moveTilesToLayer,
+  nextName,
+  pruneGroups,
+  removeLayer,
+  restackTiles,
+  ungroupTiles,
+  updateLayer
+} from '@/lib/layers';
+import { getCentroid, flipTilesAbout, getTilesInRect, rectFromPoints, rotateTilesAbout, translateTiles } from '@/lib/selection';
+import type { Rect } from '@/lib/selection';
+import { SUGGESTED_SHAPES, getShape, getShapeBaseLength, getShapeEdges, getTileRadius, getTileTransform, placeOnEdge, registerCustomShapes } from '@/lib/shapes';
+import { EDGE_LENGTH_TOLERANCE, applySnap, findSnap } from '@/lib/snapping';
+import { buildSpatialIndex, getTileGeometry, queryRect } from '@/lib/spatialIndex';
+import type { SnapMatch } from '@/lib/snapping';
+import { hasStoredAutosave, loadAutosave, saveAutosave } from '@/lib/storage';
+import { DEFAULT_TILE_STYLE, getTileFill, getTilePaints, getTileStyle } from '@/lib/tileStyle';
+import { TILINGS, generateTiling } from '@/lib/tilings';
+import { validateTiling } from '@/lib/validation';
+import {
+  DEFAULT_SYMMETRY,
+  clampSymmetryOrder,
+  createSymmetryMirrors as createMirrorTiles,
+  describeSymmetry,
+  getSymmetryGuides,
+  moveSymmetryCenter,
+  syncMirrors
+} from '@/lib/symmetry';
+import { DEFAULT_SVG_EXPORT_OPTIONS, buildSvg } from '@/lib/svgExport';
+import type { SvgExportOptions, SvgExportSettings } from '@/lib/svgExport';
+import { DEFAULT_VIEWPORT, ZOOM_STEP, clampZoom, clientToDocument, fitRect, getViewRect, panBy, zoomAt } from '@/lib/viewport';
+import type { Viewport } from '@/lib/viewport';
+import { getLattice, getLatticeLines, getWallpaperCopies, getWallpaperUnit } from '@/lib/wallpaper';
+import { SYMMETRY_MODES } from '@/lib/types';
+import type { Point, Tile, ShapeId, ShapeType, CustomShape, CustomShapeId, GridSettings, SymmetrySettings, WallpaperSettings, DesignSnapshot, Layer, Palette, Scene, TileGroup, TileStyle } from '@/lib/types';
 
 interface DragState {
   isDragging: boolean;
@@ -29,6 +82,37 @@ interface DragState {
   offsetY: number;
 }
 
+// Rubber band selection; additive when Shift or Ctrl/Cmd was held
+interface MarqueeState {
+  start: Point;
+  current: Point;
+  additive: boolean;
+}
+
+// Dragging the view: where the pointer went down and the view center then
+interface PanState {
+  start: Point;
+  center: Point;
+}
+
+// Two-finger zoom: the finger spread and zoom when it began, and the
+// document point that stays between the fingers
+interface PinchState {
+  distance: number;
+  zoom: number;
+  anchor: Point;
+}
+
+// Where the dragged tiles will land on release, drawn as ghosts
+interface SnapPreview extends SnapMatch {
+  tiles: Tile[];
+}
+
+// Everything a design carries besides its scene, and the library entry it came from
+interface DesignSettings extends Omit<DesignSnapshot, keyof Scene> {
+  designId: string | null;
+}
+
 interface SuggestionPoint {
   x: number;
   y: number;
@@ -36,226 +120,90 @@ interface SuggestionPoint {
   rotation: number;
 }
 
-interface Edge {
-  start: Point;
-  end: Point;
-  length: number;
-  midpoint: Point;
-  normal: Point; // perpendicular vector pointing outward
-}
-
-const SHAPES: Record<ShapeType, { name: string; path: string; color: string }> = {
-  triangle: {
-    name: 'Triangle',
-    path: 'M 0 -30 L 25 15 L -25 15 Z',
-    color: '#3b82f6'
-  },
-  square: {
-    name: 'Square',
-    path: 'M -25 -25 L 25 -25 L 25 25 L -25 25 Z',
-    color: '#ef4444'
-  },
-  hexagon: {
-    name: 'Hexagon',
-    path: 'M 50 0 L 25 43.3 L -25 43.3 L -50 0 L -25 -43.3 L 25 -43.3 Z',
-    color: '#10b981'
-  },
-  diamond: {
-    name: 'Diamond',
-    path: 'M 0 -30 L 30 0 L 0 30 L -30 0 Z',
-    color: '#f59e0b'
-  }
+const DEFAULT_SNAPSHOT: DesignSnapshot = {
+  ...DEFAULT_SCENE,
+  symmetry: DEFAULT_SYMMETRY,
+  palette: DEFAULT_PALETTE,
+  selectedColor: DEFAULT_PALETTE.colors[0],
+  showGrid: true,
+  grid: DEFAULT_GRID
 };
 
-const COLORS: readonly string[] = [
-  '#3b82f6', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6',
-  '#ec4899', '#06b6d4', '#84cc16', '#f97316', '#6366f1'
-];
-
 const generateId = (): string => Math.random().toString(36).substring(2, 11);
 
-// Universal edge calculation for any shape at any rotation
-const getShapeEdges = (tile: Tile): Edge[] => {
-  const cos = Math.cos(tile.rotation * Math.PI / 180);
-  const sin = Math.sin(tile.rotation * Math.PI / 180);
-  
-  // Transform a local point to world coordinates
-  const transform = (localX: number, localY: number): Point => ({
-    x: tile.x + (localX * cos - localY * sin),
-    y: tile.y + (localX * sin + localY * cos)
-  });
-  
-  let vertices: Point[] = [];
-  
-  // Define vertices for each shape in local coordinates
-  switch (tile.shape) {
-    case 'triangle':
-      vertices = [
-        transform(0, -30),   // top
-        transform(25, 15),   // bottom right
-        transform(-25, 15)   // bottom left
-      ];
-      break;
-      
-    case 'square':
-      vertices = [
-        transform(-25, -25), // top left
-        transform(25, -25),  // top right
-        transform(25, 25),   // bottom right
-        transform(-25, 25)   // bottom left
-      ];
-      break;
-      
-    case 'hexagon':
-      vertices = [
-        transform(50, 0),     // right
-        transform(25, 43.3),  // bottom right
-        transform(-25, 43.3), // bottom left
-        transform(-50, 0),    // left
-        transform(-25, -43.3), // top left
-        transform(25, -43.3)  // top right
-      ];
-      break;
-      
-    case 'diamond':
-      vertices = [
-        transform(0, -30),   // top
-        transform(30, 0),    // right
-        transform(0, 30),    // bottom
-        transform(-30, 0)    // left
-      ];
-      break;
-  }
-  
-  // Create edges from consecutive vertices
-  const edges: Edge[] = [];
-  for (let i = 0; i < vertices.length; i++) {
-    const start = vertices[i];
-    const end = vertices[(i + 1) % vertices.length];
-    
-    const dx = end.x - start.x;
-    const dy = end.y - start.y;
-    const length = Math.sqrt(dx * dx + dy * dy);
-    
-    const midpoint = {
-      x: (start.x + end.x) / 2,
-      y: (start.y + end.y) / 2
-    };
-    
-    // Calculate outward normal (perpendicular to edge)
-    const normal = {
-      x: dy / length, // perpendicular (swapped sign)
-      y: -dx / length // perpendicular (swapped sign)
-    };
-    
-    // Ensure normal points outward from shape center
-    const edgeToCenterX = tile.x - midpoint.x;
-    const edgeToCenterY = tile.y - midpoint.y;
-    const dotProduct = normal.x * edgeToCenterX + normal.y * edgeToCenterY;
-    
-    // If normal points toward center, flip it
-    if (dotProduct > 0) {
-      normal.x = -normal.x;
-      normal.y = -normal.y;
-    }
-    
-    edges.push({ start, end, length, midpoint, normal });
-  }
-  
-  return edges;
-};
+const withTiles = (scene: Scene, tiles: Tile[]): Scene =>
+  tiles === scene.tiles ? scene : { ...scene, tiles };
 
-// Check if two edges are compatible for snapping
-const areEdgesCompatible = (edge1: Edge, edge2: Edge): boolean => {
-  const lengthDiff = Math.abs(edge1.length - edge2.length);
-  if (lengthDiff > 2) return false; // Must have very similar edge lengths
-  
-  // Check if edges are close enough
-  const distance = Math.sqrt(
-    Math.pow(edge1.midpoint.x - edge2.midpoint.x, 2) +
-    Math.pow(edge1.midpoint.y - edge2.midpoint.y, 2)
-  );
-  
-  if (distance > 40) return false; // Edges must be reasonably close
-  
-  // Check if edges are roughly parallel and pointing in opposite directions
-  const dotProduct = edge1.normal.x * edge2.normal.x + edge1.normal.y * edge2.normal.y;
-  if (dotProduct > -0.9) return false; // Normals must be nearly opposite (more strict)
-  
-  // Additional check: edges should be roughly parallel (not just normals opposite)
-  const edge1Dir = { 
-    x: edge1.end.x - edge1.start.x, 
-    y: edge1.end.y - edge1.start.y 
-  };
-  const edge2Dir = { 
-    x: edge2.end.x - edge2.start.x, 
-    y: edge2.end.y - edge2.start.y 
-  };
-  
-  // Normalize directions
-  const edge1Len = Math.sqrt(edge1Dir.x * edge1Dir.x + edge1Dir.y * edge1Dir.y);
-  const edge2Len = Math.sqrt(edge2Dir.x * edge2Dir.x + edge2Dir.y * edge2Dir.y);
-  
-  edge1Dir.x /= edge1Len;
-  edge1Dir.y /= edge1Len;
-  edge2Dir.x /= edge2Len;
-  edge2Dir.y /= edge2Len;
-  
-  // Check if edges are parallel (dot product close to 1 or -1)
-  const edgeDotProduct = Math.abs(edge1Dir.x * edge2Dir.x + edge1Dir.y * edge2Dir.y);
-  if (edgeDotProduct < 0.9) return false; // Edges must be nearly parallel
-  
-  return true;
-};
+// Mirrors follow their originals and groups without tiles are dropped;
+// the same scene comes back when nothing changed
+const syncScene = (scene: Scene): Scene => pruneGroups(withTiles(scene, syncMirrors(scene.tiles)));
 
-// Universal snapping function
-const canTilesSnap = (tile1: Tile, tile2: Tile): { canSnap: boolean; snapPosition: Point | null } => {
-  const edges1 = getShapeEdges(tile1);
-  const edges2 = getShapeEdges(tile2);
-  
-  let bestSnap: { edge1: Edge; edge2: Edge; distance: number } | null = null;
-  
-  // Find the best compatible edge pair
-  for (const edge1 of edges1) {
-    for (const edge2 of edges2) {
-      if (areEdgesCompatible(edge1, edge2)) {
-        const distance = Math.sqrt(
-          Math.pow(edge1.midpoint.x - edge2.midpoint.x, 2) +
-          Math.pow(edge1.midpoint.y - edge2.midpoint.y, 2)
-        );
-        
-        if (!bestSnap || distance < bestSnap.distance) {
-          bestSnap = { edge1, edge2, distance };
-        }
-      }
-    }
-  }
-  
-  if (!bestSnap) {
-    return { canSnap: false, snapPosition: null };
-  }
-  
-  // Calculate snap position: move tile1 so its edge aligns with tile2's edge
-  const offsetX = bestSnap.edge2.midpoint.x - bestSnap.edge1.midpoint.x;
-  const offsetY = bestSnap.edge2.midpoint.y - bestSnap.edge1.midpoint.y;
-  
-  // Move slightly apart along the normal to avoid overlap
-  const separation = 1; // Small separation to avoid z-fighting
-  const separationX = bestSnap.edge2.normal.x * separation;
-  const separationY = bestSnap.edge2.normal.y * separation;
-  
+const describeSelection = (selection: Tile[]): string =>
+  selection.length === 1 ? getShape(selection[0].shape).name : `${selection.length} tiles`;
+
+// Smallest rectangle around the tiles' outlines
+const getTilesRect = (tiles: Tile[]): Rect => {
+  const bounds = tiles.map(t => getTileGeometry(t).bounds);
+  const x = Math.min(...bounds.map(b => b.x));
+  const y = Math.min(...bounds.map(b => b.y));
   return {
-    canSnap: true,
-    snapPosition: {
-      x: tile1.x + offsetX + separationX,
-      y: tile1.y + offsetY + separationY
-    }
+    x,
+    y,
+    width: Math.max(...bounds.map(b => b.x + b.width)) - x,
+    height: Math.max(...bounds.map(b => b.y + b.height)) - y
   };
 };
 
+// Distance from a point to the furthest corner of a rectangle, so guides
+// drawn that long reach past every edge of the view
+const reachAcross = (point: Point, rect: Rect): number => Math.hypot(
+  Math.max(Math.abs(point.x - rect.x), Math.abs(rect.x + rect.width - point.x)),
+  Math.max(Math.abs(point.y - rect.y), Math.abs(rect.y + rect.height - point.y))
+);
+
+const polarPoint = (center: Point, angle: number, radius: number): Point => ({
+  x: center.x + radius * Math.cos(angle * Math.PI / 180),
+  y: center.y + radius * Math.sin(angle * Math.PI / 180)
+});
+
+// Pie slice from the symmetry center, clockwise from start to end (degrees)
+const getWedgePath = (center: Point, [start, end]: [number, number], radius: number): string => {
+  const from = polarPoint(center, start, radius);
+  const to = polarPoint(center, end, radius);
+  const largeArc = end - start > 180 ? 1 : 0;
+  return `M ${center.x} ${center.y} L ${from.x} ${from.y} A ${radius} ${radius} 0 ${largeArc} 1 ${to.x} ${to.y} Z`;
+};
+
 export default function TessellationApp() {
-  const [tiles, setTiles] = useState<Tile[]>([]);
-  const [selectedTile, setSelectedTile] = useState<Tile | null>(null);
+  const {
+    present: scene,
+    commit,
+    replace,
+    begin: beginTileChange,
+    end: endTileChange,
+    reset: resetScene,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    undoLabel,
+    redoLabel
+  } = useHistory<Scene>(DEFAULT_SCENE);
+  const { tiles, layers, groups, customShapes } = scene;
+  
+  // Every edit re-derives the symmetry mirrors from their originals
+  const commitScene = useCallback((label: string, update: (prev: Scene) => Scene): void => {
+    commit(label, prev => syncScene(update(prev)));
+  }, [commit]);
+  
+  const commitTiles = useCallback((label: string, update: (prev: Tile[]) => Tile[]): void => {
+    commit(label, prev => syncScene(withTiles(prev, update(prev.tiles))));
+  }, [commit]);
+  
+  const replaceTiles = useCallback((update: (prev: Tile[]) => Tile[]): void => {
+    replace(prev => syncScene(withTiles(prev, update(prev.tiles))));
+  }, [replace]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
   const [dragState, setDragState] = useState<DragState>({
     isDragging: false,
     tileId: null,
@@ -263,15 +211,73 @@ export default function TessellationApp() {
     offsetY: 0
   });
   const [showGrid, setShowGrid] = useState<boolean>(true);
-  const [selectedColor, setSelectedColor] = useState<string>(COLORS[0]);
+  const [grid, setGrid] = useState<GridSettings>(DEFAULT_GRID);
+  const [palette, setPalette] = useState<Palette>(DEFAULT_PALETTE);
+  const [selectedColor, setSelectedColor] = useState<string>(DEFAULT_PALETTE.colors[0]);
   const [mobileMenuOpen, setMobileMenuOpen] = useState<boolean>(false);
-  const [symmetryMode, setSymmetryMode] = useState<SymmetryMode>('none');
+  const [symmetry, setSymmetry] = useState<SymmetrySettings>(DEFAULT_SYMMETRY);
+  const [isDraggingCenter, setIsDraggingCenter] = useState<boolean>(false);
+  const [rotatingTileId, setRotatingTileId] = useState<string | null>(null);
+  const [marquee, setMarquee] = useState<MarqueeState | null>(null);
+  const [viewport, setViewport] = useState<Viewport>(DEFAULT_VIEWPORT);
+  const [canvasSize, setCanvasSize] = useState<{ width: number; height: number }>({ width: CANVAS_SIZE, height: CANVAS_SIZE });
+  const [spaceHeld, setSpaceHeld] = useState<boolean>(false);
+  const [pan, setPan] = useState<PanState | null>(null);
+  const [pinch, setPinch] = useState<PinchState | null>(null);
+  const [snapPreview, setSnapPreview] = useState<SnapPreview | null>(null);
+  const [activeLayerId, setActiveLayerId] = useState<string>(DEFAULT_LAYER.id);
+  const [rotationStep, setRotationStep] = useState<number>(DEFAULT_ROTATION_STEP);
   const [showSuggestions, setShowSuggestions] = useState<boolean>(false);
+  const [showValidation, setShowValidation] = useState<boolean>(false);
+  const [activeProblem, setActiveProblem] = useState<number>(0);
   const [announcements, setAnnouncements] = useState<string>('');
+  const [libraryOpen, setLibraryOpen] = useState<boolean>(false);
+  const [currentDesignId, setCurrentDesignId] = useState<string | null>(null);
+  const [isRestored, setIsRestored] = useState<boolean>(false);
+  // An autosave this build can't read, e.g. one from a newer version, is
+  // left in place until the user changes something
+  const keepStoredAutosaveRef = useRef<boolean>(false);
+  const [svgExportOpen, setSvgExportOpen] = useState<boolean>(false);
+  const [rasterExportOpen, setRasterExportOpen] = useState<boolean>(false);
+  const [tilingDialogOpen, setTilingDialogOpen] = useState<boolean>(false);
+  const [shapeEditorOpen, setShapeEditorOpen] = useState<boolean>(false);
+  const [paletteDialogOpen, setPaletteDialogOpen] = useState<boolean>(false);
+  const [autoColorOpen, setAutoColorOpen] = useState<boolean>(false);
+  const [styleInspectorOpen, setStyleInspectorOpen] = useState<boolean>(false);
+  const [editingShapeId, setEditingShapeId] = useState<CustomShapeId | null>(null);
+  const [importReport, setImportReport] = useState<{ fileName: string; errors: DocumentIssue[]; warnings: DocumentIssue[] } | null>(null);
+  
+  // The selection holds original tile ids; the tiles themselves are read live
+  const selectedTiles = useMemo(() => tiles.filter(t => selectedIds.includes(t.id)), [tiles, selectedIds]);
+  // Per-tile controls such as the angle field only apply to a lone selection
+  const selectedTile = selectedTiles.length === 1 ? selectedTiles[0] : null;
+  
+  // Visible tiles bottom to top; hidden layers are neither drawn, hit nor snapped to
+  const drawnTiles = useMemo(() => getDrawOrder(tiles, layers), [tiles, layers]);
+  // New tiles land on the active layer, or the topmost one still editable
+  const targetLayer = layers.find(l => l.id === activeLayerId && l.visible && !l.locked)
+    ?? [...layers].reverse().find(l => l.visible && !l.locked)
+    ?? layers[layers.length - 1];
+  
+  // Tiles on hidden or locked layers, and deleted tiles, drop out of the selection
+  useEffect(() => {
+    setSelectedIds(prev => {
+      const next = prev.filter(id => {
+        const tile = tiles.find(t => t.id === id);
+        return tile !== undefined && isTileEditable(tile, layers);
+      });
+      return next.length === prev.length ? prev : next;
+    });
+  }, [tiles, layers]);
+  
+  const { designs, storageError, saveDesign, renameDesign, duplicateDesign, deleteDesign } = useDesignLibrary();
+  const { palettes: savedPalettes, storageError: paletteStorageError, savePalette, deletePalette } = usePaletteLibrary();
+  const currentDesignName = designs.find(d => d.id === currentDesignId)?.name;
   
   const canvasRef = useRef<HTMLDivElement>(null);
   const svgRef = useRef<SVGSVGElement>(null);
   const animationFrameRef = useRef<number | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Announce actions for screen readers
   const announce = useCallback((message: string) => {
@@ -280,180 +286,710 @@ export default function TessellationApp() {
     setTimeout(() => setAnnouncements(''), 1000);
   }, []);
 
+  // The document area on screen, from the view and the canvas's pixel size
+  const viewRect = useMemo(() => getViewRect(viewport, canvasSize), [viewport, canvasSize]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    
+    const observer = new ResizeObserver(() => {
+      setCanvasSize({ width: canvas.clientWidth, height: canvas.clientHeight });
+    });
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  // Pointer positions in document coordinates, at any zoom and pan
+  const toDocument = useCallback((clientX: number, clientY: number): Point | null => {
+    return svgRef.current ? clientToDocument(svgRef.current, clientX, clientY) : null;
+  }, []);
+
+  const zoomBy = useCallback((factor: number): void => {
+    setViewport(prev => zoomAt(prev, prev.zoom * factor, prev.center));
+  }, []);
+
+  const resetZoom = useCallback((): void => {
+    setViewport(prev => ({ ...prev, zoom: 1 }));
+    announce('Zoomed to 100%');
+  }, [announce]);
+
+  // An empty design fits the area a new design starts with
+  const zoomToFit = useCallback((): void => {
+    const area = drawnTiles.length > 0 ? getTilesRect(drawnTiles) : { x: 0, y: 0, width: CANVAS_SIZE, height: CANVAS_SIZE };
+    setViewport(fitRect(area, canvasSize));
+    announce(drawnTiles.length > 0 ? 'Zoomed to fit all tiles' : 'Zoomed to fit the canvas');
+  }, [drawnTiles, canvasSize, announce]);
+
+  const zoomToSelection = useCallback((): void => {
+    if (selectedTiles.length === 0) return;
+    
+    setViewport(fitRect(getTilesRect(selectedTiles), canvasSize, 4));
+    announce(`Zoomed to ${describeSelection(selectedTiles)}`);
+  }, [selectedTiles, canvasSize, announce]);
+
+  // The wheel zooms about the pointer; trackpad pinches arrive as wheel
+  // events with Ctrl held. Added natively, as React's wheel listener is passive.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    
+    const handleWheel = (e: WheelEvent) => {
+      const svg = svgRef.current;
+      if (!svg) return;
+    
+      e.preventDefault();
+      const anchor = clientToDocument(svg, e.clientX, e.clientY);
+      const delta = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? e.deltaY * 16 : e.deltaY;
+      const factor = Math.exp(-delta * (e.ctrlKey ? 0.01 : 0.002));
+      setViewport(prev => zoomAt(prev, prev.zoom * factor, anchor));
+    };
+    
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  // Holding Space turns dragging into panning, unless a field or button has focus
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space') return;
+      if (e.target !== document.body && e.target !== canvasRef.current) return;
+    
+      e.preventDefault();
+      setSpaceHeld(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space') setSpaceHeld(false);
+    };
+    const release = () => setSpaceHeld(false);
+    
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', release);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', release);
+    };
+  }, []);
+
   // Create symmetry mirrors for a tile
   const createSymmetryMirrors = useCallback((originalTile: Tile): Tile[] => {
-    if (symmetryMode === 'none') return [];
-    
-    const mirrors: Tile[] = [];
-    const centerX = 300; // Canvas center (increased from 200)
-    const centerY = 300;
-    
-    switch (symmetryMode) {
-      case 'horizontal':
-        mirrors.push({
-          ...originalTile,
-          id: generateId(),
-          x: centerX * 2 - originalTile.x,
-          isSymmetryMirror: true,
-          originalId: originalTile.id
-        });
-        break;
-        
-      case 'vertical':
-        mirrors.push({
-          ...originalTile,
-          id: generateId(),
-          y: centerY * 2 - originalTile.y,
-          isSymmetryMirror: true,
-          originalId: originalTile.id
-        });
-        break;
-        
-      case 'radial':
-        // 4-way radial symmetry
-        mirrors.push(
-          {
-            ...originalTile,
-            id: generateId(),
-            x: centerX * 2 - originalTile.x,
-            isSymmetryMirror: true,
-            originalId: originalTile.id
-          },
-          {
-            ...originalTile,
-            id: generateId(),
-            y: centerY * 2 - originalTile.y,
-            isSymmetryMirror: true,
-            originalId: originalTile.id
-          },
-          {
-            ...originalTile,
-            id: generateId(),
-            x: centerX * 2 - originalTile.x,
-            y: centerY * 2 - originalTile.y,
-            isSymmetryMirror: true,
-            originalId: originalTile.id
-          }
-        );
-        break;
-    }
+    return createMirrorTiles(originalTile, symmetry, generateId);
+  }, [symmetry]);
+
+  const selectSymmetryOrder = useCallback((order: number): void => {
+    const clamped = clampSymmetryOrder(order);
+    setSymmetry(prev => ({ ...prev, order: clamped }));
+    announce(`Symmetry order set to ${clamped}`);
+  }, [announce]);
+
+  // Existing mirrors move with the center so the pattern stays symmetric
+  const moveCenterTo = useCallback((center: Point): void => {
+    setSymmetry(prev => ({ ...prev, center }));
+    replaceTiles(prev => moveSymmetryCenter(prev, center));
+  }, [replaceTiles]);
+
+  const setSymmetryCenter = useCallback((center: Point): void => {
+    setSymmetry(prev => ({ ...prev, center }));
+    commitTiles('Move symmetry center', prev => moveSymmetryCenter(prev, center));
+  }, [commitTiles]);
+
+  const changeWallpaper = useCallback((changes: Partial<WallpaperSettings>): void => {
+    setSymmetry(prev => ({ ...prev, wallpaper: { ...prev.wallpaper, ...changes } }));
+    if (changes.group) announce(`Selected ${changes.group} wallpaper group`);
+  }, [announce]);
+
+  const symmetryGuides = useMemo(() => getSymmetryGuides(symmetry), [symmetry]);
+
+  // Grid lines across the view, thinned out when zoomed far out
+  const gridPath = useMemo(
+    () => showGrid ? getGridPath(grid, viewRect, viewport.zoom) : '',
+    [showGrid, grid, viewRect, viewport.zoom]
+  );
+
+  const changeGrid = useCallback((changes: Partial<GridSettings>): void => {
+    setGrid(prev => ({ ...prev, ...changes }));
+    if (changes.type) announce(`${GRID_TYPE_LABELS[changes.type]} grid`);
+    if (changes.snap !== undefined) announce(changes.snap ? 'Snapping tiles to the grid' : 'Stopped snapping to the grid');
+  }, [announce]);
+  const guideRadius = reachAcross(symmetry.center, viewRect);
+
+  // Repeats cover the view rounded out to whole canvas-sized blocks, so
+  // panning only re-derives them on crossing into a new block
+  const regionLeft = Math.floor(viewRect.x / CANVAS_SIZE) * CANVAS_SIZE;
+  const regionTop = Math.floor(viewRect.y / CANVAS_SIZE) * CANVAS_SIZE;
+  const regionRight = Math.ceil((viewRect.x + viewRect.width) / CANVAS_SIZE) * CANVAS_SIZE;
+  const regionBottom = Math.ceil((viewRect.y + viewRect.height) / CANVAS_SIZE) * CANVAS_SIZE;
+  const wallpaperRegion = useMemo(
+    () => ({ x: regionLeft, y: regionTop, width: regionRight - regionLeft, height: regionBottom - regionTop }),
+    [regionLeft, regionTop, regionRight, regionBottom]
+  );
+
+  // Wallpaper repeats are recomputed from the tiles, so editing the cell updates them live
+  const wallpaperCopies = useMemo(
+    () => getWallpaperCopies(drawnTiles, symmetry, wallpaperRegion),
+    [drawnTiles, symmetry, wallpaperRegion]
+  );
+
+  // Everything on screen: the visible tiles and their wallpaper repeats
+  const visibleTiles = useMemo(() => [...drawnTiles, ...wallpaperCopies], [drawnTiles, wallpaperCopies]);
+  const tilePaints = useMemo(() => getTilePaints(visibleTiles), [visibleTiles]);
+
+  // Checked live while shown, so fixing a problem clears it straight away
+  const tilingReport = useMemo(() => showValidation ? validateTiling(visibleTiles) : null, [showValidation, visibleTiles]);
+  const problemIndex = Math.min(activeProblem, Math.max((tilingReport?.problems.length ?? 0) - 1, 0));
+
+  const wallpaperGuides = useMemo(() => {
+    if (symmetry.mode !== 'wallpaper') return null;
     
-    return mirrors;
-  }, [symmetryMode]);
+    const { a, b } = getLattice(symmetry.wallpaper);
+    const { x, y } = symmetry.center;
+    return {
+      lines: getLatticeLines(symmetry, wallpaperRegion),
+      cell: `M ${x} ${y} l ${a.x} ${a.y} l ${b.x} ${b.y} l ${-a.x} ${-a.y} Z`
+    };
+  }, [symmetry, wallpaperRegion]);
 
-  const addShape = useCallback((shapeType: ShapeType): void => {
+  // New tiles land in the middle of the view, on the nearest grid node when snapping
+  const addShape = useCallback((shapeType: ShapeId): void => {
+    const position = grid.snap
+      ? snapToGrid(viewport.center, grid)
+      : { x: Math.round(viewport.center.x), y: Math.round(viewport.center.y) };
     const newTile: Tile = {
       id: generateId(),
       shape: shapeType,
-      x: 300,
-      y: 300,
+      ...position,
       rotation: 0,
-      color: selectedColor
+      color: selectedColor,
+      layerId: targetLayer.id
     };
     
     const mirrors = createSymmetryMirrors(newTile);
-    setTiles(prev => [...prev, newTile, ...mirrors]);
-    announce(`Added ${SHAPES[shapeType].name} to canvas`);
-  }, [selectedColor, createSymmetryMirrors, announce]);
+    commitTiles(`Add ${getShape(shapeType).name}`, prev => [...prev, newTile, ...mirrors]);
+    announce(`Added ${getShape(shapeType).name} to ${targetLayer.name}`);
+  }, [viewport.center, grid, selectedColor, targetLayer, createSymmetryMirrors, commitTiles, announce]);
 
-  const rotateTile = useCallback((tileId: string): void => {
-    setTiles(prev => prev.map(tile => 
+  // Fill the view, or the area the selection covers, with a standard tiling
+  // of ordinary tiles, centered on the area
+  const addTiling = useCallback(({ configuration, region, coloring }: TilingSettings): void => {
+    const tiling = TILINGS.find(t => t.configuration === configuration);
+    if (!tiling) return;
+    
+    const area = region === 'selection' && selectedTiles.length > 0 ? getTilesRect(selectedTiles) : viewRect;
+    
+    const center = { x: area.x + area.width / 2, y: area.y + area.height / 2 };
+    const newTiles: Tile[] = generateTiling(tiling, area, center).map(placement => ({
+      id: generateId(),
+      ...placement,
+      color: coloring === 'shape' ? getShape(placement.shape).color : selectedColor,
+      layerId: targetLayer.id
+    }));
+    if (newTiles.length === 0) {
+      announce('The area is too small for this tiling');
+      return;
+    }
+    
+    commitTiles(`Generate ${tiling.configuration} tiling`, prev => [...prev, ...newTiles]);
+    setSelectedIds(newTiles.map(t => t.id));
+    announce(`Added ${newTiles.length} tiles in the ${tiling.name.toLowerCase()} (${tiling.configuration}) tiling to ${targetLayer.name}`);
+  }, [selectedTiles, viewRect, selectedColor, targetLayer, commitTiles, announce]);
+  
+  const closeTilingDialog = useCallback(() => setTilingDialogOpen(false), []);
+
+  const applyPalette = useCallback((next: Palette, color: string): void => {
+    setPalette(next);
+    setSelectedColor(color);
+    announce(`Using palette ${next.name} with ${next.colors.length} colors, selected ${color}`);
+  }, [announce]);
+
+  const closePaletteDialog = useCallback(() => setPaletteDialogOpen(false), []);
+
+  const setTileRotation = useCallback((tileId: string, angle: number): void => {
+    const target = tiles.find(t => t.id === tileId);
+    if (!target) return;
+    
+    const rotation = normalizeAngle(angle);
+    commitTiles(`Rotate ${getShape(target.shape).name}`, prev => prev.map(tile => 
       tile.id === tileId 
-        ? { ...tile, rotation: (tile.rotation + 45) % 360 }
+        ? { ...tile, rotation }
         : tile
     ));
+  }, [tiles, commitTiles]);
+
+  // A lone tile rotates to the next multiple of the rotation step; a group
+  // turns by one step about its shared centroid. Backwards with -1.
+  const rotateSelection = useCallback((direction: 1 | -1 = 1): void => {
+    if (selectedTiles.length === 0) return;
+    
+    if (selectedTile) {
+      setTileRotation(selectedTile.id, stepRotation(selectedTile.rotation, rotationStep, direction));
+      return;
+    }
+    
+    const pivot = getCentroid(selectedTiles);
+    commitTiles(`Rotate ${describeSelection(selectedTiles)}`, prev => rotateTilesAbout(prev, selectedIds, rotationStep * direction, pivot));
+  }, [selectedTiles, selectedTile, selectedIds, rotationStep, setTileRotation, commitTiles]);
+
+  // A lone tile flips in place; a group mirrors across its centroid
+  const flipSelection = useCallback((): void => {
+    if (selectedTiles.length === 0) return;
+    
+    commitTiles(`Flip ${describeSelection(selectedTiles)}`, prev => selectedTile
+      ? prev.map(tile => tile.id === selectedTile.id ? { ...tile, flipX: !tile.flipX } : tile)
+      : flipTilesAbout(prev, selectedIds, getCentroid(selectedTiles)));
+  }, [selectedTiles, selectedTile, selectedIds, commitTiles]);
+
+  const recolorSelection = useCallback((color: string): void => {
+    if (selectedTiles.length === 0) return;
+    
+    commitTiles(`Recolor ${describeSelection(selectedTiles)}`, prev => prev.map(tile => 
+      selectedIds.includes(tile.id) 
+        ? { ...tile, color }
+        : tile
+    ));
+  }, [selectedTiles, selectedIds, commitTiles]);
+
+  // A tile left with the default style drops it, so plain tiles stay plain
+  const styleSelection = useCallback((changes: Partial<TileStyle>): void => {
+    if (selectedTiles.length === 0) return;
+    
+    commitTiles(`Style ${describeSelection(selectedTiles)}`, prev => prev.map(tile => {
+      if (!selectedIds.includes(tile.id)) return tile;
+      const style = { ...getTileStyle(tile), ...changes };
+      const isDefault = (Object.keys(style) as (keyof TileStyle)[]).every(key => style[key] === DEFAULT_TILE_STYLE[key]);
+      return { ...tile, style: isDefault ? undefined : style };
+    }));
+  }, [selectedTiles, selectedIds, commitTiles]);
+
+  const resetSelectionStyle = useCallback((): void => {
+    if (!selectedTiles.some(tile => tile.style)) return;
+    
+    commitTiles(`Reset style of ${describeSelection(selectedTiles)}`, prev => prev.map(tile =>
+      selectedIds.includes(tile.id) && tile.style
+        ? { ...tile, style: undefined }
+        : tile
+    ));
+  }, [selectedTiles, selectedIds, commitTiles]);
+
+  // Tiles outside the chosen ones keep their colors and count as neighbours,
+  // wallpaper repeats included, so the result holds across the whole pattern
+  const autoColorTiles = useCallback((settings: AutoColorSettings): void => {
+    const targets = settings.scope === 'selection'
+      ? selectedTiles
+      : tiles.filter(t => !t.isSymmetryMirror && isTileEditable(t, layers));
+    if (targets.length === 0) return;
+    
+    const { colors, colorsUsed, conflicts } = autoColor(visibleTiles, targets.map(t => t.id), palette.colors, settings);
+    commitTiles(`Auto-color ${describeSelection(targets)}`, prev => prev.map(tile => {
+      const color = colors.get(tile.id);
+      return color && color !== tile.color ? { ...tile, color } : tile;
+    }));
+    announce(conflicts > 0
+      ? `Colored ${describeSelection(targets)} with ${colorsUsed} colors; ${conflicts} neighbouring pairs still match, add colors to the palette to separate them`
+      : `Colored ${describeSelection(targets)} with ${colorsUsed} colors, no neighbours match`);
+  }, [selectedTiles, tiles, layers, visibleTiles, palette, commitTiles, announce]);
+
+  const closeAutoColor = useCallback(() => setAutoColorOpen(false), []);
+
+  // Duplicates keep their relative layout and become the new selection;
+  // a duplicated group becomes a new group of its own
+  const duplicateSelection = useCallback((): void => {
+    if (selectedTiles.length === 0) return;
+    
+    const groupCopies = new Map<string, TileGroup>();
+    selectedTiles.forEach(tile => {
+      const group = groups.find(g => g.id === tile.groupId);
+      if (group && !groupCopies.has(group.id)) {
+        groupCopies.set(group.id, { id: generateId(), name: nextName(`${group.name} copy`, groups.map(g => g.name)) });
+      }
+    });
+    
+    const duplicates: Tile[] = selectedTiles.map(original => {
+      const groupCopy = original.groupId ? groupCopies.get(original.groupId) : undefined;
+      return {
+        ...original,
+        id: generateId(),
+        x: original.x + 60,
+        y: original.y + 60,
+        ...(groupCopy ? { groupId: groupCopy.id } : {})
+      };
+    });
+    
+    // Copies get mirrors of their own, like newly placed tiles
+    const mirrors = duplicates.flatMap(tile => createSymmetryMirrors(tile));
+    commitScene(`Duplicate ${describeSelection(selectedTiles)}`, prev => ({
+      ...prev,
+      tiles: [...prev.tiles, ...duplicates, ...mirrors],
+      groups: [...prev.groups, ...groupCopies.values()]
+    }));
+    setSelectedIds(duplicates.map(tile => tile.id));
+  }, [selectedTiles, groups, createSymmetryMirrors, commitScene]);
+
+  const deleteSelection = useCallback((): void => {
+    if (selectedTiles.length === 0) return;
+    
+    commitTiles(`Delete ${describeSelection(selectedTiles)}`, prev => prev.filter(t => !selectedIds.includes(t.id)));
+    setSelectedIds([]);
+  }, [selectedTiles, selectedIds, commitTiles]);
+
+  const openShapeEditor = useCallback((id: CustomShapeId | null): void => {
+    setEditingShapeId(id);
+    setShapeEditorOpen(true);
   }, []);
+  
+  const closeShapeEditor = useCallback(() => setShapeEditorOpen(false), []);
+  
+  // Save a drawn shape to the palette, or replace the outline of the one being
+  // edited. Its tiles are copied so their cached geometry is measured again.
+  const saveCustomShape = useCallback((draft: Pick<CustomShape, 'name' | 'color' | 'vertices'>): void => {
+    if (editingShapeId) {
+      registerCustomShapes([{ id: editingShapeId, ...draft }]);
+      commitScene(`Edit ${draft.name}`, prev => ({
+        ...prev,
+        customShapes: prev.customShapes.map(shape => shape.id === editingShapeId ? { ...shape, ...draft } : shape),
+        tiles: prev.tiles.map(tile => tile.shape === editingShapeId ? { ...tile } : tile)
+      }));
+      announce(`Saved ${draft.name}`);
+      return;
+    }
+    
+    const shape: CustomShape = { id: `custom-${generateId()}`, ...draft };
+    registerCustomShapes([shape]);
+    commitScene(`Add ${draft.name} shape`, prev => ({ ...prev, customShapes: [...prev.customShapes, shape] }));
+    announce(`Added ${draft.name} to the shape palette`);
+  }, [editingShapeId, commitScene, announce]);
+  
+  // Deleting a shape takes its tiles with it, in one undo step
+  const deleteCustomShape = useCallback((id: CustomShapeId): void => {
+    const shape = customShapes.find(s => s.id === id);
+    if (!shape) return;
+    
+    const removed = new Set(tiles.filter(tile => tile.shape === id).map(tile => tile.id));
+    commitScene(`Delete ${shape.name}`, prev => ({
+      ...prev,
+      customShapes: prev.customShapes.filter(s => s.id !== id),
+      tiles: prev.tiles.filter(tile => tile.shape !== id)
+    }));
+    setSelectedIds(prev => prev.filter(tileId => !removed.has(tileId)));
+    announce(removed.size > 0 ? `Deleted ${shape.name} and its ${removed.size} tiles` : `Deleted ${shape.name}`);
+  }, [customShapes, tiles, commitScene, announce]);
 
-  const duplicateTile = useCallback((tileId: string): void => {
-    const original = tiles.find(t => t.id === tileId);
-    if (!original) return;
+  const groupSelection = useCallback((): void => {
+    if (selectedTiles.length < 2) return;
     
-    const duplicate: Tile = {
-      ...original,
-      id: generateId(),
-      x: original.x + 60,
-      y: original.y + 60
-    };
+    const group: TileGroup = { id: generateId(), name: nextName('Group', groups.map(g => g.name)) };
+    commitScene(`Group ${selectedTiles.length} tiles`, prev => groupTiles(ungroupTiles(prev, selectedIds), selectedIds, group));
+    announce(`Grouped ${selectedTiles.length} tiles as ${group.name}`);
+  }, [selectedTiles, selectedIds, groups, commitScene, announce]);
+
+  const ungroupSelection = useCallback((): void => {
+    if (!selectedTiles.some(tile => tile.groupId)) return;
+    
+    commitScene('Ungroup', prev => ungroupTiles(prev, selectedIds));
+    announce(`Ungrouped ${describeSelection(selectedTiles)}`);
+  }, [selectedTiles, selectedIds, commitScene, announce]);
+
+  // Bring forward (1) or send back (-1) one step within the layer
+  const restackSelection = useCallback((direction: 1 | -1): void => {
+    if (selectedTiles.length === 0) return;
+    
+    const label = describeSelection(selectedTiles);
+    commitScene(direction === 1 ? `Bring ${label} forward` : `Send ${label} back`, prev => restackTiles(prev, selectedIds, direction));
+    announce(direction === 1 ? `Brought ${label} forward` : `Sent ${label} back`);
+  }, [selectedTiles, selectedIds, commitScene, announce]);
+
+  const addLayer = useCallback((): void => {
+    const layer: Layer = { id: generateId(), name: nextName('Layer', layers.map(l => l.name)), visible: true, locked: false };
+    commitScene(`Add ${layer.name}`, prev => ({ ...prev, layers: [...prev.layers, layer] }));
+    setActiveLayerId(layer.id);
+    announce(`Added ${layer.name}`);
+  }, [layers, commitScene, announce]);
+
+  const changeLayer = useCallback((layerId: string, changes: Partial<Omit<Layer, 'id'>>): void => {
+    const layer = layers.find(l => l.id === layerId);
+    if (!layer) return;
+    
+    let label = `Rename ${layer.name}`;
+    let message = `Renamed ${layer.name} to ${changes.name}`;
+    if (changes.visible !== undefined) {
+      label = `${changes.visible ? 'Show' : 'Hide'} ${layer.name}`;
+      message = `${layer.name} ${changes.visible ? 'shown' : 'hidden'}`;
+    } else if (changes.locked !== undefined) {
+      label = `${changes.locked ? 'Lock' : 'Unlock'} ${layer.name}`;
+      message = `${layer.name} ${changes.locked ? 'locked' : 'unlocked'}`;
+    }
+    
+    commitScene(label, prev => updateLayer(prev, layerId, changes));
+    announce(message);
+  }, [layers, commitScene, announce]);
+
+  const reorderLayer = useCallback((layerId: string, direction: 1 | -1): void => {
+    const layer = layers.find(l => l.id === layerId);
+    if (!layer) return;
+    
+    commitScene(`Move ${layer.name} ${direction === 1 ? 'up' : 'down'}`, prev => moveLayer(prev, layerId, direction));
+  }, [layers, commitScene]);
+
+  const deleteLayer = useCallback((layerId: string): void => {
+    const layer = layers.find(l => l.id === layerId);
+    if (!layer || layers.length <= 1) return;
+    
+    commitScene(`Delete ${layer.name}`, prev => removeLayer(prev, layerId));
+    announce(`Deleted ${layer.name} and its tiles`);
+  }, [layers, commitScene, announce]);
+
+  const moveSelectionToLayer = useCallback((layerId: string): void => {
+    const layer = layers.find(l => l.id === layerId);
+    if (!layer || selectedTiles.length === 0) return;
+    
+    commitScene(`Move ${describeSelection(selectedTiles)} to ${layer.name}`, prev => moveTilesToLayer(prev, selectedIds, layerId));
+    announce(`Moved ${describeSelection(selectedTiles)} to ${layer.name}`);
+  }, [layers, selectedTiles, selectedIds, commitScene, announce]);
+
+  const renameGroup = useCallback((groupId: string, name: string): void => {
+    const group = groups.find(g => g.id === groupId);
+    if (!group) return;
+    
+    commitScene(`Rename ${group.name}`, prev => ({
+      ...prev,
+      groups: prev.groups.map(g => g.id === groupId ? { ...g, name } : g)
+    }));
+  }, [groups, commitScene]);
+
+  // Symmetry, palette, grid and the library entry live outside the history,
+  // so each Open records them for the scenes on both sides of it. Undoing
+  // the Open brings the previous canvas back whole; redoing it, the opened one.
+  const settingsBeforeOpenRef = useRef(new WeakMap<Scene, DesignSettings>());
+  const settingsAfterOpenRef = useRef(new WeakMap<Scene, DesignSettings>());
+
+  const applySettings = useCallback((settings: DesignSettings): void => {
+    setSymmetry(settings.symmetry);
+    setPalette(settings.palette);
+    setSelectedColor(settings.selectedColor);
+    setShowGrid(settings.showGrid);
+    setGrid(settings.grid);
+    setCurrentDesignId(settings.designId);
+  }, []);
+
+  const openDesign = useCallback((label: string, snapshot: DesignSnapshot, designId: string | null): void => {
+    const { tiles: openedTiles, layers: openedLayers, groups: openedGroups, customShapes: openedShapes, ...settings } = snapshot;
+    const opened = syncScene({ tiles: openedTiles, layers: openedLayers, groups: openedGroups, customShapes: openedShapes });
+    const after = { ...settings, designId };
+    registerCustomShapes(openedShapes);
+    settingsBeforeOpenRef.current.set(scene, { symmetry, palette, selectedColor, showGrid, grid, designId: currentDesignId });
+    settingsAfterOpenRef.current.set(opened, after);
+
+    commit(label, () => opened);
+    applySettings(after);
+    setActiveLayerId(openedLayers[openedLayers.length - 1].id);
+    setSelectedIds([]);
+  }, [scene, symmetry, palette, selectedColor, showGrid, grid, currentDesignId, commit, applySettings]);
+
+  // Undo/redo, dropping selected tiles that no longer exist
+  const handleUndo = useCallback((): void => {
+    const entry = undo();
+    if (!entry) {
+      announce('Nothing to undo');
+      return;
+    }
     
-    setTiles(prev => [...prev, duplicate]);
-  }, [tiles]);
+    registerCustomShapes(entry.state.customShapes);
+    const settings = settingsBeforeOpenRef.current.get(entry.state);
+    if (settings) applySettings(settings);
+    setSelectedIds(prev => prev.filter(id => entry.state.tiles.some(t => t.id === id)));
+    announce(`Undid ${entry.label}`);
+  }, [undo, applySettings, announce]);
 
-  const deleteTile = useCallback((tileId: string): void => {
-    setTiles(prev => prev.filter(t => t.id !== tileId));
-    if (selectedTile?.id === tileId) {
-      setSelectedTile(null);
+  const handleRedo = useCallback((): void => {
+    const entry = redo();
+    if (!entry) {
+      announce('Nothing to redo');
+      return;
     }
-  }, [selectedTile]);
+    
+    registerCustomShapes(entry.state.customShapes);
+    const settings = settingsAfterOpenRef.current.get(entry.state);
+    if (settings) applySettings(settings);
+    setSelectedIds(prev => prev.filter(id => entry.state.tiles.some(t => t.id === id)));
+    announce(`Redid ${entry.label}`);
+  }, [redo, applySettings, announce]);
+
+  // Global history shortcuts: Ctrl/Cmd+Z, Ctrl/Cmd+Shift+Z and Ctrl/Cmd+Y
+  useEffect(() => {
+    const handleHistoryKeys = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      
+      // Leave text fields to their native undo
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+      
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    
+    window.addEventListener('keydown', handleHistoryKeys);
+    return () => window.removeEventListener('keydown', handleHistoryKeys);
+  }, [handleUndo, handleRedo]);
 
   // Keyboard navigation
   const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
-    if (!selectedTile) return;
+    // Typing in the toolbar fields must not move or delete the tiles
+    const target = e.target as HTMLElement;
+    if (target.tagName === 'INPUT' || target.tagName === 'SELECT') return;
+    
+    if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'a') {
+      e.preventDefault();
+      const originals = tiles.filter(t => !t.isSymmetryMirror && isTileEditable(t, layers));
+      setSelectedIds(originals.map(t => t.id));
+      announce(`Selected ${originals.length} tiles`);
+      return;
+    }
+    
+    if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'g') {
+      e.preventDefault();
+      if (e.shiftKey) {
+        ungroupSelection();
+      } else {
+        groupSelection();
+      }
+      return;
+    }
+    
+    // View keys: + and - zoom, 0 returns to 100%, Shift+1 fits every tile
+    // and Shift+2 the selection
+    if (!e.ctrlKey && !e.metaKey && !e.altKey) {
+      if (e.key === '+' || e.key === '=') {
+        e.preventDefault();
+        zoomBy(ZOOM_STEP);
+        return;
+      }
+      if (e.key === '-') {
+        e.preventDefault();
+        zoomBy(1 / ZOOM_STEP);
+        return;
+      }
+      if (e.key === '0') {
+        e.preventDefault();
+        resetZoom();
+        return;
+      }
+      if (e.shiftKey && (e.code === 'Digit1' || e.code === 'Digit2')) {
+        e.preventDefault();
+        if (e.code === 'Digit1') {
+          zoomToFit();
+        } else {
+          zoomToSelection();
+        }
+        return;
+      }
+    }
+    
+    if (selectedTiles.length === 0) return;
     
-    const moveDistance = e.shiftKey ? 10 : 1;
-    let newX = selectedTile.x;
-    let newY = selectedTile.y;
+    const label = describeSelection(selectedTiles);
+    // On a snapping grid the arrows step by the grid spacing
+    const moveDistance = grid.snap ? grid.spacing * (e.shiftKey ? 5 : 1) : e.shiftKey ? 10 : 1;
+    let dx = 0;
+    let dy = 0;
+    let direction: string;
     
     switch (e.key) {
       case 'ArrowLeft':
-        e.preventDefault();
-        newX = Math.max(50, selectedTile.x - moveDistance);
-        announce(`Moved ${selectedTile.shape} left to position ${newX}, ${selectedTile.y}`);
+        dx = -moveDistance;
+        direction = 'left';
         break;
       case 'ArrowRight':
-        e.preventDefault();
-        newX = Math.min(550, selectedTile.x + moveDistance);
-        announce(`Moved ${selectedTile.shape} right to position ${newX}, ${selectedTile.y}`);
+        dx = moveDistance;
+        direction = 'right';
         break;
       case 'ArrowUp':
-        e.preventDefault();
-        newY = Math.max(50, selectedTile.y - moveDistance);
-        announce(`Moved ${selectedTile.shape} up to position ${selectedTile.x}, ${newY}`);
+        dy = -moveDistance;
+        direction = 'up';
         break;
       case 'ArrowDown':
-        e.preventDefault();
-        newY = Math.min(550, selectedTile.y + moveDistance);
-        announce(`Moved ${selectedTile.shape} down to position ${selectedTile.x}, ${newY}`);
+        dy = moveDistance;
+        direction = 'down';
         break;
       case 'r':
       case 'R':
         e.preventDefault();
-        rotateTile(selectedTile.id);
-        announce(`Rotated ${selectedTile.shape}`);
+        rotateSelection(e.shiftKey ? -1 : 1);
+        announce(`Rotated ${label} ${e.shiftKey ? 'counterclockwise' : 'clockwise'}`);
+        return;
+      case 'f':
+      case 'F':
+        e.preventDefault();
+        flipSelection();
+        announce(`Flipped ${label}`);
         return;
       case 'd':
       case 'D':
         e.preventDefault();
-        duplicateTile(selectedTile.id);
-        announce(`Duplicated ${selectedTile.shape}`);
+        duplicateSelection();
+        announce(`Duplicated ${label}`);
         return;
       case 'Delete':
       case 'Backspace':
         e.preventDefault();
-        deleteTile(selectedTile.id);
-        announce(`Deleted ${selectedTile.shape}`);
+        deleteSelection();
+        announce(`Deleted ${label}`);
+        return;
+      case ']':
+      case '[':
+        e.preventDefault();
+        restackSelection(e.key === ']' ? 1 : -1);
+        return;
+      case 'Escape':
+        e.preventDefault();
+        setSelectedIds([]);
+        announce('Selection cleared');
         return;
       default:
         return;
     }
     
-    // Update tile position
-    setTiles(prev => prev.map(tile => 
-      tile.id === selectedTile.id 
-        ? { ...tile, x: newX, y: newY }
-        : tile
-    ));
+    e.preventDefault();
+    
+    // Land the first selected tile's center or a corner on a grid node at
+    // least a quarter step ahead, going further where the grid is coarser
+    if (grid.snap) {
+      const anchor = selectedTile ?? selectedTiles[0];
+      for (let steps = 1; steps <= 10; steps++) {
+        const offset = getGridSnapOffset({ ...anchor, x: anchor.x + dx * steps, y: anchor.y + dy * steps }, grid);
+        const moveX = dx * steps + offset.x;
+        const moveY = dy * steps + offset.y;
+        if (moveX * dx + moveY * dy > (dx * dx + dy * dy) / 4) {
+          dx = moveX;
+          dy = moveY;
+          break;
+        }
+      }
+    }
     
-    setSelectedTile(prev => prev ? { ...prev, x: newX, y: newY } : null);
-  }, [selectedTile, announce, rotateTile, duplicateTile, deleteTile]);
+    commitTiles(`Move ${label}`, prev => translateTiles(prev, selectedIds, dx, dy));
+    announce(selectedTile
+      ? `Moved ${label} ${direction} to position ${selectedTile.x + dx}, ${selectedTile.y + dy}`
+      : `Moved ${label} ${direction}`);
+  }, [tiles, layers, selectedTiles, selectedTile, selectedIds, announce, rotateSelection, flipSelection, duplicateSelection, deleteSelection, groupSelection, ungroupSelection, restackSelection, commitTiles, zoomBy, resetZoom, zoomToFit, zoomToSelection, grid]);
+
+  // Grid of the visible tiles for suggestions and marquee hits
+  const tileIndex = useMemo(() => buildSpatialIndex(drawnTiles), [drawnTiles]);
 
   // Calculate smart fill suggestions
   const suggestions = useMemo((): SuggestionPoint[] => {
-    if (!showSuggestions || tiles.length === 0) return [];
+    if (!showSuggestions || drawnTiles.length === 0) return [];
     
     const suggestionPoints: SuggestionPoint[] = [];
     
     // Use actual edge geometry for proper alignment
-    tiles.forEach(tile => {
+    drawnTiles.forEach(tile => {
       if (tile.isSymmetryMirror) return; // Skip mirror tiles
       
       const edges = getShapeEdges(tile);
@@ -462,58 +998,22 @@ export default function TessellationApp() {
       const selectedEdges = edges.filter((_, index) => index % 2 === 0);
       
       selectedEdges.forEach((edge, edgeIndex) => {
-        // Determine edge orientation and suggest appropriate shapes
-        const dx = edge.end.x - edge.start.x;
-        const dy = edge.end.y - edge.start.y;
-        const angle = Math.atan2(dy, dx) * 180 / Math.PI;
-        const normalizedAngle = ((angle % 180) + 180) % 180; // Normalize to 0-180
+        // Shapes whose base fits the edge, taking turns along the outline
+        const compatibleShapes = SUGGESTED_SHAPES.filter(shape =>
+          Math.abs(getShapeBaseLength(shape) - edge.length) <= EDGE_LENGTH_TOLERANCE);
+        if (compatibleShapes.length === 0) return;
         
-        let compatibleShapes: ShapeType[] = [];
-        
-        // Suggest shapes based on edge orientation
-        if (Math.abs(normalizedAngle) < 15 || Math.abs(normalizedAngle - 180) < 15) {
-          // Horizontal edge - squares and hexagons work well
-          compatibleShapes = ['square', 'hexagon'];
-        } else if (Math.abs(normalizedAngle - 90) < 15) {
-          // Vertical edge - squares and hexagons work well  
-          compatibleShapes = ['square', 'hexagon'];
-        } else if (Math.abs(normalizedAngle - 60) < 15 || Math.abs(normalizedAngle - 120) < 15) {
-          // 60° or 120° diagonal - triangles and hexagons work well
-          compatibleShapes = ['triangle', 'hexagon'];
-        } else {
-          // Other angles - triangles are most flexible
-          compatibleShapes = ['triangle'];
-        }
-        
-        // Pick a shape from compatible options
+        // Set the suggested shape's base flush against the edge
         const shape = compatibleShapes[edgeIndex % compatibleShapes.length];
+        const { x: suggestionX, y: suggestionY, rotation } = placeOnEdge(shape, edge);
         
-        // Calculate proper offset distance based on shape geometry
-        let centerToEdgeDistance: number;
-        switch (shape) {
-          case 'triangle':
-            centerToEdgeDistance = 20; // Distance from center to base edge midpoint
-            break;
-          case 'square': 
-            centerToEdgeDistance = 25; // Distance from center to edge midpoint
-            break;
-          case 'hexagon':
-            centerToEdgeDistance = 43.3; // Distance from center to edge midpoint
-            break;
-          case 'diamond':
-            centerToEdgeDistance = 30; // Distance from center to edge midpoint
-            break;
-        }
-        
-        // Position the suggested shape so its edge aligns with the hexagon's edge
-        const suggestionX = edge.midpoint.x + edge.normal.x * centerToEdgeDistance;
-        const suggestionY = edge.midpoint.y + edge.normal.y * centerToEdgeDistance;
-        
-        // Check bounds and position availability
-        const inBounds = suggestionX > 80 && suggestionX < 520 && suggestionY > 80 && suggestionY < 520;
+        // Only offer spots in view, and free ones
+        const inBounds = suggestionX > viewRect.x && suggestionX < viewRect.x + viewRect.width
+          && suggestionY > viewRect.y && suggestionY < viewRect.y + viewRect.height;
         
         if (inBounds) {
-          const isFree = !tiles.some(existingTile => {
+          const nearby = queryRect(tileIndex, { x: suggestionX - 50, y: suggestionY - 50, width: 100, height: 100 });
+          const isFree = !nearby.some(({ tile: existingTile }) => {
             const distance = Math.sqrt(
               Math.pow(existingTile.x - suggestionX, 2) +
               Math.pow(existingTile.y - suggestionY, 2)
@@ -526,7 +1026,7 @@ export default function TessellationApp() {
               x: suggestionX,
               y: suggestionY,
               shape,
-              rotation: 0
+              rotation
             });
           }
         }
@@ -534,27 +1034,76 @@ export default function TessellationApp() {
     });
     
     return suggestionPoints;
-  }, [tiles, showSuggestions]);
+  }, [drawnTiles, tileIndex, showSuggestions, viewRect]);
 
-  // SIMPLE DRAG - NO SNAPPING (Mouse)
-  const handleMouseDown = useCallback((e: React.MouseEvent<SVGGElement>, tile: Tile): void => {
-    e.preventDefault();
-    e.stopPropagation();
+  // MOUSE SELECTION AND DRAG - dragged tiles snap to matching edges on release
+  // Shift or Ctrl/Cmd-click adds a tile to the selection or takes it out; grouped tiles toggle with their group
+  const toggleSelected = useCallback((tile: Tile): void => {
+    const isSelected = selectedIds.includes(tile.id);
+    const members = expandToGroups(tiles, [tile.id]);
+    setSelectedIds(prev => isSelected ? prev.filter(id => !members.includes(id)) : Array.from(new Set([...prev, ...members])));
+    const group = groups.find(g => g.id === tile.groupId);
+    const name = group ? group.name : `${getShape(tile.shape).name} tile`;
+    announce(`${isSelected ? 'Removed' : 'Added'} ${name} ${isSelected ? 'from' : 'to'} the selection`);
+  }, [tiles, groups, selectedIds, announce]);
+
+  // Select a tile, or the whole group it belongs to
+  const selectTile = useCallback((tile: Tile): void => {
+    setSelectedIds(expandToGroups(tiles, [tile.id]));
+    const group = groups.find(g => g.id === tile.groupId);
+    announce(group ? `Selected ${group.name}` : `Selected ${getShape(tile.shape).name} tile`);
+  }, [tiles, groups, announce]);
+
+  // Mirrors are derived tiles: selecting one jumps to its original
+  const selectMirrorOriginal = useCallback((mirror: Tile, additive = false): void => {
+    const original = tiles.find(t => t.id === mirror.originalId);
+    if (!original || !isTileEditable(original, layers)) return;
     
-    const rect = canvasRef.current?.getBoundingClientRect();
-    if (!rect) return;
+    if (additive) {
+      toggleSelected(original);
+      return;
+    }
+    
+    setSelectedIds(expandToGroups(tiles, [original.id]));
+    announce(`Symmetry mirror is linked. Selected its original ${getShape(original.shape).name} tile`);
+  }, [tiles, layers, toggleSelected, announce]);
 
-    const mouseX = e.clientX - rect.left;
-    const mouseY = e.clientY - rect.top;
+  // Pressing a selected tile drags the whole selection; any other tile is
+  // dragged alone, or with its group
+  const startDrag = useCallback((tile: Tile, pointerX: number, pointerY: number): void => {
+    if (!selectedIds.includes(tile.id)) {
+      setSelectedIds(expandToGroups(tiles, [tile.id]));
+    }
     
-    setSelectedTile(tile);
+    beginTileChange();
     setDragState({
       isDragging: true,
       tileId: tile.id,
-      offsetX: mouseX - tile.x,
-      offsetY: mouseY - tile.y
+      offsetX: pointerX - tile.x,
+      offsetY: pointerY - tile.y
     });
-  }, []);
+  }, [tiles, selectedIds, beginTileChange]);
+
+  const handleMouseDown = useCallback((e: React.MouseEvent<SVGGElement>, tile: Tile): void => {
+    e.preventDefault();
+    e.stopPropagation();
+    
+    const additive = e.shiftKey || e.ctrlKey || e.metaKey;
+    if (tile.isSymmetryMirror) {
+      selectMirrorOriginal(tile, additive);
+      return;
+    }
+    
+    if (additive) {
+      toggleSelected(tile);
+      return;
+    }
+    
+    const pointer = toDocument(e.clientX, e.clientY);
+    if (!pointer) return;
+
+    startDrag(tile, pointer.x, pointer.y);
+  }, [selectMirrorOriginal, toggleSelected, startDrag, toDocument]);
 
   // TOUCH DRAG HANDLERS - Multi-touch support
   const handleTouchStart = useCallback((e: React.TouchEvent<SVGGElement>, targetTile: Tile): void => {
@@ -566,24 +1115,103 @@ export default function TessellationApp() {
       e.preventDefault();
     }
     
-    const rect = canvasRef.current?.getBoundingClientRect();
-    if (!rect) return;
-
+    if (targetTile.isSymmetryMirror) {
+      selectMirrorOriginal(targetTile);
+      return;
+    }
+    
     const touch = e.touches[0]; // Use first touch
-    const touchX = touch.clientX - rect.left;
-    const touchY = touch.clientY - rect.top;
+    const pointer = toDocument(touch.clientX, touch.clientY);
+    if (!pointer) return;
     
-    // Set the touched tile as selected and start dragging
-    setSelectedTile(targetTile);
-    setDragState({
-      isDragging: true,
-      tileId: targetTile.id,
-      offsetX: touchX - targetTile.x,
-      offsetY: touchY - targetTile.y
-    });
+    // Select the touched tile (unless it is already in the selection) and start dragging
+    startDrag(targetTile, pointer.x, pointer.y);
+    if (!selectedIds.includes(targetTile.id)) {
+      announce(`Selected ${getShape(targetTile.shape).name} tile`);
+    }
+  }, [selectedIds, announce, selectMirrorOriginal, startDrag, toDocument]);
+
+  // Pressing empty canvas starts a marquee; Shift or Ctrl/Cmd adds to the selection
+  const handleCanvasPointerDown = useCallback((e: React.MouseEvent<HTMLDivElement> | React.TouchEvent<HTMLDivElement>): void => {
+    if ('touches' in e) {
+      e.preventDefault(); // Prevent page scrolling on any touch
+    } else if (e.button !== 0) {
+      return;
+    }
     
-    announce(`Selected ${SHAPES[targetTile.shape].name} tile`);
-  }, [announce]);
+    // Presses on the floating toolbar are not canvas presses
+    if (!(e.target instanceof Element) || !svgRef.current?.contains(e.target)) return;
+    
+    // A second finger turns the marquee into a pinch zoom
+    if ('touches' in e && e.touches.length === 2) {
+      const [first, second] = [e.touches[0], e.touches[1]];
+      const anchor = toDocument((first.clientX + second.clientX) / 2, (first.clientY + second.clientY) / 2);
+      if (!anchor) return;
+      
+      setMarquee(null);
+      setPinch({
+        distance: Math.max(Math.hypot(second.clientX - first.clientX, second.clientY - first.clientY), 1),
+        zoom: viewport.zoom,
+        anchor
+      });
+      return;
+    }
+    
+    const pointer = 'touches' in e ? e.touches[0] : e;
+    const start = pointer && toDocument(pointer.clientX, pointer.clientY);
+    if (!start) return;
+    
+    setMarquee({ start, current: start, additive: e.shiftKey || e.ctrlKey || e.metaKey });
+  }, [viewport.zoom, toDocument]);
+
+  // Middle-button drags, and any drag while Space is held, pan the view
+  // instead of reaching the tiles
+  const handlePanStart = useCallback((e: React.MouseEvent<HTMLDivElement>): void => {
+    if (!(e.button === 1 || (e.button === 0 && spaceHeld))) return;
+    if (!(e.target instanceof Element) || !svgRef.current?.contains(e.target)) return;
+    
+    e.preventDefault();
+    e.stopPropagation();
+    setPan({ start: { x: e.clientX, y: e.clientY }, center: viewport.center });
+  }, [spaceHeld, viewport.center]);
+
+  // The symmetry center handle drags like a tile; the whole move is one undo step
+  const handleCenterDragStart = useCallback((e: React.MouseEvent<SVGGElement> | React.TouchEvent<SVGGElement>): void => {
+    e.preventDefault();
+    e.stopPropagation();
+    
+    beginTileChange();
+    setIsDraggingCenter(true);
+  }, [beginTileChange]);
+
+  // Dragging the rotation handle turns the tile about its center
+  const handleRotateStart = useCallback((e: React.MouseEvent<SVGGElement> | React.TouchEvent<SVGGElement>, tile: Tile): void => {
+    e.preventDefault();
+    e.stopPropagation();
+    
+    beginTileChange();
+    setRotatingTileId(tile.id);
+  }, [beginTileChange]);
+
+  // Everything dragged tiles can snap to: not themselves, their mirrors or their repeats
+  const snapTargets = useMemo(() => visibleTiles.filter(t => 
+    !selectedIds.includes(t.id) && !(t.originalId && selectedIds.includes(t.originalId))
+  ), [visibleTiles, selectedIds]);
+  const snapIndex = useMemo(() => buildSpatialIndex(snapTargets), [snapTargets]);
+
+  // Work out where the dragged tiles would land if released with the dragged
+  // tile at (anchorX, anchorY). Holding Alt drags freely.
+  const updateSnapPreview = useCallback((anchorX: number, anchorY: number, disabled: boolean): void => {
+    const anchor = tiles.find(t => t.id === dragState.tileId);
+    if (disabled || !anchor) {
+      setSnapPreview(null);
+      return;
+    }
+    
+    const moving = translateTiles(tiles.filter(t => selectedIds.includes(t.id)), selectedIds, anchorX - anchor.x, anchorY - anchor.y);
+    const match = findSnap(moving, snapIndex);
+    setSnapPreview(match && { ...match, tiles: applySnap(moving, selectedIds, match) });
+  }, [tiles, dragState.tileId, selectedIds, snapIndex]);
 
   // Performance-optimized move handler with RAF
   const performMove = useCallback((touches: React.TouchEvent<HTMLDivElement> | React.MouseEvent<HTMLDivElement>) => {
@@ -592,81 +1220,82 @@ export default function TessellationApp() {
     }
     
     animationFrameRef.current = requestAnimationFrame(() => {
-      const rect = canvasRef.current?.getBoundingClientRect();
-      if (!rect) return;
-
-      // Handle mouse move
-      if ('clientX' in touches) {
-        if (!dragState.isDragging || !dragState.tileId) return;
+      if (pan) {
+        if (!('clientX' in touches)) return;
         
-        const mouseX = touches.clientX - rect.left;
-        const mouseY = touches.clientY - rect.top;
-        
-        const newX = mouseX - dragState.offsetX;
-        const newY = mouseY - dragState.offsetY;
-        
-        const boundedX = Math.max(50, Math.min(550, newX));
-        const boundedY = Math.max(50, Math.min(550, newY));
-        
-        setTiles(prev => prev.map(tile => {
-          if (tile.id === dragState.tileId) {
-            const updatedTile = { ...tile, x: boundedX, y: boundedY };
-            // Symmetry mirrors are handled automatically
-            return updatedTile;
-          }
-          // Update mirrors if this tile is the original
-          if (tile.originalId === dragState.tileId && tile.isSymmetryMirror) {
-            const originalTile = { ...tile, x: boundedX, y: boundedY, isSymmetryMirror: false, originalId: undefined };
-            const mirrors = createSymmetryMirrors(originalTile);
-            const mirrorIndex = mirrors.findIndex(m => m.x === tile.x && m.y === tile.y);
-            return mirrorIndex >= 0 ? { ...mirrors[mirrorIndex], id: tile.id, isSymmetryMirror: true, originalId: tile.originalId } : tile;
-          }
-          return tile;
-        }));
-        
-        setSelectedTile(prev => 
-          prev && prev.id === dragState.tileId 
-            ? { ...prev, x: boundedX, y: boundedY }
-            : prev
-        );
+        setViewport(prev => panBy({ ...prev, center: pan.center }, touches.clientX - pan.start.x, touches.clientY - pan.start.y));
+        return;
       }
-      // Handle touch move
-      else if ('touches' in touches && touches.touches.length > 0) {
-        if (!dragState.isDragging || !dragState.tileId) return;
-        
-        const touch = touches.touches[0]; // Use first touch
-        const touchX = touch.clientX - rect.left;
-        const touchY = touch.clientY - rect.top;
-        
-        const newX = touchX - dragState.offsetX;
-        const newY = touchY - dragState.offsetY;
+
+      // Zoom with the finger spread, keeping the anchor between the fingers
+      if (pinch) {
+        const rect = svgRef.current?.getBoundingClientRect();
+        if (!('touches' in touches) || touches.touches.length < 2 || !rect) return;
         
-        const boundedX = Math.max(50, Math.min(550, newX));
-        const boundedY = Math.max(50, Math.min(550, newY));
+        const [first, second] = [touches.touches[0], touches.touches[1]];
+        const zoom = clampZoom(pinch.zoom * Math.hypot(second.clientX - first.clientX, second.clientY - first.clientY) / pinch.distance);
+        const middle = { x: (first.clientX + second.clientX) / 2, y: (first.clientY + second.clientY) / 2 };
+        setViewport({
+          center: {
+            x: pinch.anchor.x - (middle.x - rect.left - rect.width / 2) / zoom,
+            y: pinch.anchor.y - (middle.y - rect.top - rect.height / 2) / zoom
+          },
+          zoom
+        });
+        return;
+      }
+
+      const client = 'clientX' in touches ? touches : touches.touches[0];
+      const pointer = client && toDocument(client.clientX, client.clientY);
+      if (!pointer) return;
+
+      if (isDraggingCenter) {
+        moveCenterTo(pointer);
+        return;
+      }
+
+      if (rotatingTileId) {
+        const tile = tiles.find(t => t.id === rotatingTileId);
+        if (!tile) return;
         
-        setTiles(prev => prev.map(tile => {
-          if (tile.id === dragState.tileId) {
-            const updatedTile = { ...tile, x: boundedX, y: boundedY };
-            return updatedTile;
-          }
-          // Update mirrors if this tile is the original
-          if (tile.originalId === dragState.tileId && tile.isSymmetryMirror) {
-            const originalTile = { ...tile, x: boundedX, y: boundedY, isSymmetryMirror: false, originalId: undefined };
-            const mirrors = createSymmetryMirrors(originalTile);
-            const mirrorIndex = mirrors.findIndex(m => m.x === tile.x && m.y === tile.y);
-            return mirrorIndex >= 0 ? { ...mirrors[mirrorIndex], id: tile.id, isSymmetryMirror: true, originalId: tile.originalId } : tile;
-          }
-          return tile;
-        }));
+        // Angle of the pointer around the tile center, 0° pointing up like the handle
+        const dx = pointer.x - tile.x;
+        const dy = pointer.y - tile.y;
+        const angle = Math.atan2(dx, -dy) * 180 / Math.PI;
+        // Free rotation; hold Shift to snap to the rotation step
+        const rotation = touches.shiftKey ? snapAngle(angle, rotationStep) : normalizeAngle(Math.round(angle * 10) / 10);
         
-        setSelectedTile(prev => 
-          prev && prev.id === dragState.tileId 
-            ? { ...prev, x: boundedX, y: boundedY }
-            : prev
-        );
+        replaceTiles(prev => prev.map(t => t.id === rotatingTileId ? { ...t, rotation } : t));
+        return;
+      }
+
+      if (marquee) {
+        setMarquee(prev => prev && { ...prev, current: pointer });
+        return;
+      }
+
+      // Mouse or first touch: the selection follows the dragged tile; symmetry
+      // mirrors follow through replaceTiles
+      if (!dragState.isDragging || !dragState.tileId) return;
+      
+      let newX = pointer.x - dragState.offsetX;
+      let newY = pointer.y - dragState.offsetY;
+      
+      // The dragged tile's center or nearest corner sits on the grid; Alt drags freely
+      const dragged = tiles.find(t => t.id === dragState.tileId);
+      if (grid.snap && dragged && !touches.altKey) {
+        const offset = getGridSnapOffset({ ...dragged, x: newX, y: newY }, grid);
+        newX += offset.x;
+        newY += offset.y;
       }
+      
+      replaceTiles(prev => {
+        const anchor = prev.find(tile => tile.id === dragState.tileId);
+        return anchor ? translateTiles(prev, selectedIds, newX - anchor.x, newY - anchor.y) : prev;
+      });
+      updateSnapPreview(newX, newY, touches.altKey);
     });
-  }, [dragState, createSymmetryMirrors]);
+  }, [pan, pinch, dragState, isDraggingCenter, rotatingTileId, marquee, rotationStep, grid, tiles, selectedIds, replaceTiles, moveCenterTo, updateSnapPreview, toDocument]);
 
   const handleMouseMove = useCallback((e: React.MouseEvent<HTMLDivElement>): void => {
     performMove(e);
@@ -682,54 +1311,66 @@ export default function TessellationApp() {
   }, [performMove]);
 
   const handleTouchEnd = useCallback((): void => {
-    if (dragState.isDragging && dragState.tileId) {
-      // Find the dragged tile
-      const draggedTile = tiles.find(t => t.id === dragState.tileId);
+    if (pan) {
+      setPan(null);
+      return;
+    }
+    
+    if (pinch) {
+      setPinch(null);
+      announce(`Zoomed to ${Math.round(viewport.zoom * 100)}%`);
+      return;
+    }
+    
+    if (isDraggingCenter) {
+      endTileChange('Move symmetry center');
+      setIsDraggingCenter(false);
+      announce(`Symmetry center moved to ${Math.round(symmetry.center.x)}, ${Math.round(symmetry.center.y)}`);
+      return;
+    }
+    
+    if (rotatingTileId) {
+      const rotatedTile = tiles.find(t => t.id === rotatingTileId);
+      endTileChange(`Rotate ${rotatedTile ? getShape(rotatedTile.shape).name : 'tile'}`);
+      setRotatingTileId(null);
+      if (rotatedTile) announce(`Rotated ${getShape(rotatedTile.shape).name} to ${rotatedTile.rotation} degrees`);
+      return;
+    }
+    
+    if (marquee) {
+      const area = rectFromPoints(marquee.start, marquee.current);
+      setMarquee(null);
       
-      if (draggedTile) {
-        // Check for snapping with other tiles
-        const otherTiles = tiles.filter(t => t.id !== dragState.tileId);
-        let bestSnap: { tile: Tile; snapPosition: Point } | null = null;
-        let closestDistance = Infinity;
-        
-        for (const otherTile of otherTiles) {
-          const snapResult = canTilesSnap(draggedTile, otherTile);
-          
-          if (snapResult.canSnap && snapResult.snapPosition) {
-            // Calculate distance to snap position
-            const distance = Math.sqrt(
-              Math.pow(draggedTile.x - snapResult.snapPosition.x, 2) +
-              Math.pow(draggedTile.y - snapResult.snapPosition.y, 2)
-            );
-            
-            if (distance < closestDistance) {
-              closestDistance = distance;
-              bestSnap = {
-                tile: otherTile,
-                snapPosition: snapResult.snapPosition
-              };
-            }
-          }
-        }
-        
-        // Apply snap if found
-        if (bestSnap) {
-          const constrainedX = Math.max(50, Math.min(550, bestSnap.snapPosition.x));
-          const constrainedY = Math.max(50, Math.min(550, bestSnap.snapPosition.y));
-          
-          setTiles(prev => prev.map(tile => 
-            tile.id === dragState.tileId 
-              ? { ...tile, x: constrainedX, y: constrainedY }
-              : tile
-          ));
-          
-          setSelectedTile(prev => 
-            prev && prev.id === dragState.tileId 
-              ? { ...prev, x: constrainedX, y: constrainedY }
-              : prev
-          );
+      // A plain click on empty canvas clears the selection
+      if (area.width < 3 && area.height < 3) {
+        if (!marquee.additive && selectedIds.length > 0) {
+          setSelectedIds([]);
+          announce('Selection cleared');
         }
+        return;
+      }
+      
+      const hits = expandToGroups(tiles, getTilesInRect(tileIndex, area, t => isTileEditable(t, layers)));
+      const next = marquee.additive ? Array.from(new Set([...selectedIds, ...hits])) : hits;
+      setSelectedIds(next);
+      announce(`Selected ${next.length} ${next.length === 1 ? 'tile' : 'tiles'}`);
+      return;
+    }
+    
+    if (dragState.isDragging && dragState.tileId) {
+      // A move still waiting for its frame would land after the drag is recorded
+      if (animationFrameRef.current) {
+        cancelAnimationFrame(animationFrameRef.current);
       }
+      
+      // Release where the ghost showed, turning and moving the selection as one
+      if (snapPreview) {
+        replaceTiles(prev => applySnap(prev, selectedIds, snapPreview));
+      }
+      
+      // Record the whole drag, snap included, as one undo step
+      endTileChange(`Move ${selectedTiles.length > 0 ? describeSelection(selectedTiles) : 'tile'}`);
+      setSnapPreview(null);
     }
     
     // Clear drag state
@@ -739,7 +1380,7 @@ export default function TessellationApp() {
       offsetX: 0,
       offsetY: 0
     });
-  }, [dragState, tiles]);
+  }, [pan, pinch, viewport.zoom, dragState, isDraggingCenter, rotatingTileId, marquee, symmetry.center, tiles, layers, tileIndex, selectedIds, selectedTiles, snapPreview, replaceTiles, endTileChange, announce]);
 
   const handleMouseUp = useCallback((): void => {
     handleTouchEnd(); // Reuse the touch logic
@@ -756,7 +1397,8 @@ export default function TessellationApp() {
         x: suggestion.x,
         y: suggestion.y,
         rotation: suggestion.rotation,
-        color: selectedColor
+        color: selectedColor,
+        layerId: targetLayer.id
       };
       
       newTiles.push(newTile);
@@ -766,9 +1408,9 @@ export default function TessellationApp() {
       newTiles.push(...mirrors);
     });
     
-    setTiles(prev => [...prev, ...newTiles]);
+    commitTiles('Fill pattern', prev => [...prev, ...newTiles]);
     setShowSuggestions(false);
-  }, [suggestions, selectedColor, createSymmetryMirrors]);
+  }, [suggestions, selectedColor, targetLayer, createSymmetryMirrors, commitTiles]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -779,25 +1421,228 @@ export default function TessellationApp() {
     };
   }, []);
 
-  const exportSvg = useCallback((): void => {
+  // Clean export: tiles only, without grid, selection or suggestion chrome
+  const serializeSvg = useCallback((options: SvgExportOptions): string => {
+    const unit = symmetry.mode === 'wallpaper' ? getWallpaperUnit(drawnTiles, symmetry) : undefined;
+    return buildSvg(visibleTiles, viewRect, options, unit);
+  }, [drawnTiles, visibleTiles, symmetry, viewRect]);
+
+  const exportSvg = useCallback((
+    options: SvgExportSettings
+  ): void => {
+    const { title, description, ...rest } = options;
+    const svgData = serializeSvg({ ...rest, metadata: { title, description, symmetry } });
+    
+    downloadBlob(new Blob([svgData], { type: 'image/svg+xml' }), 'tessellation.svg');
+    announce('Exported tessellation as SVG file');
+  }, [serializeSvg, symmetry, announce]);
+
+  const closeSvgExport = useCallback((): void => {
+    setSvgExportOpen(false);
+  }, []);
+
+  const exportRaster = useCallback(async (options: RasterExportOptions): Promise<void> => {
     if (!svgRef.current) return;
     
-    const svgData = new XMLSerializer().serializeToString(svgRef.current);
-    const blob = new Blob([svgData], { type: 'image/svg+xml' });
-    const url = URL.createObjectURL(blob);
+    const blob = await renderRaster(svgRef.current, options);
+    downloadBlob(blob, `tessellation.${options.format === 'png' ? 'png' : 'jpg'}`);
+    announce(`Exported tessellation as ${options.format.toUpperCase()} image`);
+  }, [announce]);
+
+  const closeRasterExport = useCallback((): void => {
+    setRasterExportOpen(false);
+  }, []);
+
+  const exportJson = useCallback((): void => {
+    const doc = createDocument({ ...scene, symmetry, palette, selectedColor, showGrid, grid }, currentDesignName);
+    downloadBlob(new Blob([serializeDocument(doc)], { type: 'application/json' }), 'tessellation.json');
+  }, [currentDesignName, scene, symmetry, palette, selectedColor, showGrid, grid]);
+
+  const openJsonFile = useCallback(async (file: File): Promise<void> => {
+    let text: string;
+    try {
+      text = await file.text();
+    } catch {
+      setImportReport({ fileName: file.name, errors: [{ path: '', message: 'The file could not be read' }], warnings: [] });
+      announce(`Could not open ${file.name}`);
+      return;
+    }
     
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = 'tessellation.svg';
-    link.click();
+    const result = parseDocument(text, DEFAULT_SNAPSHOT);
+    if (!result.ok) {
+      setImportReport({ fileName: file.name, errors: result.errors, warnings: result.warnings });
+      announce(`Could not open ${file.name}: ${result.errors.length} problems found`);
+      return;
+    }
+    
+    const { document: doc } = result;
+    openDesign(`Open ${file.name}`, {
+      tiles: doc.tiles,
+      layers: doc.layers,
+      groups: doc.groups,
+      customShapes: doc.customShapes,
+      symmetry: doc.symmetry,
+      palette: { name: doc.palette.name, colors: doc.palette.colors },
+      selectedColor: doc.palette.selectedColor,
+      showGrid: doc.canvas.showGrid,
+      grid: doc.canvas.grid
+    }, null);
     
-    URL.revokeObjectURL(url);
+    if (result.warnings.length > 0) {
+      setImportReport({ fileName: file.name, errors: [], warnings: result.warnings });
+    }
+    announce(`Opened ${file.name} with ${doc.tiles.length} tiles`);
+  }, [openDesign, announce]);
+
+  const closeImportReport = useCallback((): void => {
+    setImportReport(null);
+  }, []);
+
+  const clearAll = useCallback((): void => {
+    commitTiles('Clear all', prev => prev.length > 0 ? [] : prev);
+    setSelectedIds([]);
+  }, [commitTiles]);
+
+  // Restore the last session once storage is available
+  useEffect(() => {
+    const autosave = loadAutosave();
+    if (autosave) {
+      const { tiles: savedTiles, layers: savedLayers, groups: savedGroups, customShapes: savedShapes } = autosave.snapshot;
+      registerCustomShapes(savedShapes);
+      resetScene(syncScene({ tiles: savedTiles, layers: savedLayers, groups: savedGroups, customShapes: savedShapes }));
+      setActiveLayerId(savedLayers[savedLayers.length - 1].id);
+      setSymmetry(autosave.snapshot.symmetry);
+      setPalette(autosave.snapshot.palette);
+      setSelectedColor(autosave.snapshot.selectedColor);
+      setShowGrid(autosave.snapshot.showGrid);
+      setGrid(autosave.snapshot.grid);
+      setCurrentDesignId(autosave.designId);
+    } else {
+      keepStoredAutosaveRef.current = hasStoredAutosave();
+    }
+    setIsRestored(true);
+  }, [resetScene]);
+
+  // Autosave shortly after the design stops changing
+  useEffect(() => {
+    if (!isRestored) return;
+    // The first run follows the restore itself rather than an edit
+    if (keepStoredAutosaveRef.current) {
+      keepStoredAutosaveRef.current = false;
+      return;
+    }
+
+    const timeout = setTimeout(() => {
+      saveAutosave({
+        designId: currentDesignId,
+        snapshot: { ...scene, symmetry, palette, selectedColor, showGrid, grid }
+      });
+    }, 500);
+
+    return () => clearTimeout(timeout);
+  }, [isRestored, scene, symmetry, palette, selectedColor, showGrid, grid, currentDesignId]);
+
+  const saveToLibrary = useCallback((name: string, asNew: boolean): void => {
+    const svgData = serializeSvg({ ...DEFAULT_SVG_EXPORT_OPTIONS, metadata: { title: name, symmetry } });
+    const thumbnail = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svgData)}`;
+    const snapshot: DesignSnapshot = { ...scene, symmetry, palette, selectedColor, showGrid, grid };
+    
+    const id = saveDesign(name, snapshot, thumbnail, asNew ? undefined : currentDesignId ?? undefined);
+    setCurrentDesignId(id);
+    announce(`Saved design ${name}`);
+  }, [serializeSvg, scene, symmetry, palette, selectedColor, showGrid, grid, saveDesign, currentDesignId, announce]);
+
+  const openFromLibrary = useCallback((id: string): void => {
+    const design = designs.find(d => d.id === id);
+    if (!design) return;
+    
+    // Opening is undoable, settings and all, so the previous canvas is never lost
+    openDesign(`Open ${design.name}`, design.snapshot, design.id);
+    setLibraryOpen(false);
+    announce(`Opened design ${design.name}`);
+  }, [designs, openDesign, announce]);
+
+  const deleteFromLibrary = useCallback((id: string): void => {
+    deleteDesign(id);
+    if (currentDesignId === id) {
+      setCurrentDesignId(null);
+    }
+  }, [deleteDesign, currentDesignId]);
+
+  const closeLibrary = useCallback((): void => {
+    setLibraryOpen(false);
   }, []);
 
-  const clearAll = useCallback((): void => {
-    setTiles([]);
-    setSelectedTile(null);
-  }, []);
+  // The rotation handle is offered for a lone selected tile, a fixed
+  // distance on screen beyond its corners
+  const rotationHandle = selectedTile
+    ? (() => {
+        const distance = getTileRadius(selectedTile) + 18 / viewport.zoom;
+        const radians = selectedTile.rotation * Math.PI / 180;
+        return { x: selectedTile.x + Math.sin(radians) * distance, y: selectedTile.y - Math.cos(radians) * distance };
+      })()
+    : null;
+
+  const toggleValidation = useCallback((): void => {
+    if (showValidation) {
+      setShowValidation(false);
+      announce('Hidden tiling problems');
+      return;
+    }
+    
+    const { problems, isValid } = validateTiling(visibleTiles);
+    setShowValidation(true);
+    setActiveProblem(0);
+    announce(isValid
+      ? 'The design is a valid edge-to-edge tiling'
+      : `Found ${problems.length} tiling ${problems.length === 1 ? 'problem' : 'problems'}`);
+  }, [showValidation, visibleTiles, announce]);
+
+  // Step to a problem and select the tiles behind it so it can be fixed
+  const focusProblem = useCallback((index: number): void => {
+    const problem = tilingReport?.problems[index];
+    if (!problem) return;
+    
+    const originalIds = problem.tileIds.map(id => visibleTiles.find(t => t.id === id)?.originalId ?? id);
+    const editable = tiles.filter(t => originalIds.includes(t.id) && isTileEditable(t, layers)).map(t => t.id);
+    setActiveProblem(index);
+    setSelectedIds(expandToGroups(tiles, editable));
+    announce(`Problem ${index + 1} of ${tilingReport.problems.length}: ${problem.message}`);
+  }, [tilingReport, visibleTiles, tiles, layers, announce]);
+
+  // Shown in both the mobile menu and the desktop sidebar; ids need a prefix
+  // as both copies are in the page
+  const validationPanel = (idPrefix: string) => (
+    <ValidationPanel
+      idPrefix={idPrefix}
+      report={tilingReport}
+      activeIndex={problemIndex}
+      onToggle={toggleValidation}
+      onActivate={focusProblem}
+    />
+  );
+
+  // Shown in both the mobile menu and the desktop sidebar
+  const layersPanel = (
+    <LayersPanel
+      layers={layers}
+      groups={groups}
+      tiles={tiles}
+      activeLayerId={activeLayerId}
+      selectedIds={selectedIds}
+      onActivateLayer={setActiveLayerId}
+      onAddLayer={addLayer}
+      onChangeLayer={changeLayer}
+      onMoveLayer={reorderLayer}
+      onDeleteLayer={deleteLayer}
+      onMoveSelectionToLayer={moveSelectionToLayer}
+      onSelectTiles={(ids) => {
+        setSelectedIds(ids);
+        announce(`Selected ${ids.length} ${ids.length === 1 ? 'tile' : 'tiles'}`);
+      }}
+      onRenameGroup={renameGroup}
+    />
+  );
 
   return (
     <div className="min-h-screen bg-gradient-to-b from-slate-950 to-slate-900 text-white" style={{ touchAction: 'manipulation' }}>
@@ -849,35 +1694,41 @@ export default function TessellationApp() {
           <div className="p-4 pt-16 overflow-y-auto h-full">
             <fieldset className="mb-8">
               <legend className="text-sm font-semibold mb-2 text-slate-300">Shape Tools</legend>
-              <div className="grid grid-cols-2 gap-2" role="group" aria-label="Shape selection">
-                {Object.entries(SHAPES).map(([key, shape]) => (
-                  <button
-                    key={key}
-                    onClick={() => {
-                      addShape(key as ShapeType);
-                      setMobileMenuOpen(false);
-                      announce(`Added ${shape.name} to canvas`);
-                    }}
-                    className="aspect-square w-full bg-slate-800/50 border border-slate-700 rounded-lg hover:border-slate-500 focus:outline-none focus:ring-2 focus:ring-cyan-400 transition-all duration-200 hover:scale-105 flex items-center justify-center"
-                    type="button"
-                    aria-label={`Add ${shape.name} to canvas`}
-                  >
-                    <svg width="60" height="60" viewBox="-50 -50 100 100" aria-hidden="true">
-                      <path
-                        d={shape.path}
-                        fill={shape.color}
-                        opacity="0.9"
-                      />
-                    </svg>
-                  </button>
-                ))}
-              </div>
+              <ShapePalette
+                customShapes={customShapes}
+                onAdd={(shape) => {
+                  addShape(shape);
+                  setMobileMenuOpen(false);
+                  announce(`Added ${getShape(shape).name} to canvas`);
+                }}
+                onCreate={() => {
+                  openShapeEditor(null);
+                  setMobileMenuOpen(false);
+                }}
+                onEdit={(id) => {
+                  openShapeEditor(id);
+                  setMobileMenuOpen(false);
+                }}
+                onDelete={deleteCustomShape}
+              />
+              <button
+                onClick={() => {
+                  setTilingDialogOpen(true);
+                  setMobileMenuOpen(false);
+                }}
+                className="mt-2 w-full px-3 py-2 bg-slate-800 text-slate-300 hover:bg-slate-700 rounded-lg font-medium transition-all duration-200 flex items-center gap-2"
+                type="button"
+                aria-label="Generate a regular or Archimedean tiling"
+              >
+                <LayoutGrid size={16} />
+                Generate Tiling…
+              </button>
             </fieldset>
 
             <fieldset className="mb-8">
               <legend className="text-sm font-semibold mb-2 text-slate-300">Color Tools</legend>
               <div className="grid grid-cols-5 gap-2" role="group" aria-label="Color selection">
-                {COLORS.map((color) => (
+                {palette.colors.map((color) => (
                   <button
                     key={color}
                     onClick={() => {
@@ -893,20 +1744,45 @@ export default function TessellationApp() {
                   />
                 ))}
               </div>
+              <button
+                onClick={() => {
+                  setPaletteDialogOpen(true);
+                  setMobileMenuOpen(false);
+                }}
+                className="mt-2 w-full px-3 py-2 bg-slate-800 text-slate-300 hover:bg-slate-700 rounded-lg font-medium transition-all duration-200 flex items-center gap-2"
+                type="button"
+                aria-label={`Edit the ${palette.name} palette`}
+              >
+                <SwatchBook size={16} />
+                Edit Palette…
+              </button>
+              <button
+                onClick={() => {
+                  setAutoColorOpen(true);
+                  setMobileMenuOpen(false);
+                }}
+                className="mt-2 w-full px-3 py-2 bg-slate-800 text-slate-300 hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed rounded-lg font-medium transition-all duration-200 flex items-center gap-2"
+                type="button"
+                disabled={tiles.length === 0}
+                aria-label="Color the tiles so no neighbours match"
+              >
+                <Wand2 size={16} />
+                Auto-color…
+              </button>
             </fieldset>
 
             <fieldset className="mb-8">
               <legend className="text-sm font-semibold mb-2 text-slate-300">Symmetry Mode</legend>
               <div className="grid grid-cols-2 gap-2" role="group" aria-label="Symmetry selection">
-                {(['none', 'horizontal', 'vertical', 'radial'] as SymmetryMode[]).map((mode) => (
+                {SYMMETRY_MODES.map((mode) => (
                   <button
                     key={mode}
                     onClick={() => {
-                      setSymmetryMode(mode);
-                      announce(`Selected ${mode} symmetry mode`);
+                      setSymmetry(prev => ({ ...prev, mode }));
+                      announce(`Selected ${describeSymmetry({ ...symmetry, mode })} symmetry mode`);
                     }}
                     className={`px-3 py-2 rounded-lg text-sm font-medium transition-all duration-200 ${
-                      symmetryMode === mode 
+                      symmetry.mode === mode 
                         ? 'bg-purple-600 text-white' 
                         : 'bg-slate-800 text-slate-300 hover:bg-slate-700'
                     }`}
@@ -917,9 +1793,52 @@ export default function TessellationApp() {
                   </button>
                 ))}
               </div>
+              <SymmetryOptions
+                symmetry={symmetry}
+                onOrderChange={selectSymmetryOrder}
+                onCenterChange={setSymmetryCenter}
+                onWallpaperChange={changeWallpaper}
+              />
+            </fieldset>
+
+            <fieldset className="mb-8">
+              <legend className="text-sm font-semibold mb-2 text-slate-300">Grid</legend>
+              <GridOptions grid={grid} onChange={changeGrid} />
+            </fieldset>
+
+            <fieldset className="mb-8">
+              <legend className="text-sm font-semibold mb-2 text-slate-300">Layers</legend>
+              {layersPanel}
+            </fieldset>
+
+            <fieldset className="mb-8">
+              <legend className="text-sm font-semibold mb-2 text-slate-300">Validation</legend>
+              {validationPanel('mobile')}
             </fieldset>
 
             <div className="space-y-2">
+              <div className="grid grid-cols-2 gap-2" role="group" aria-label="History">
+                <button
+                  onClick={handleUndo}
+                  disabled={!canUndo}
+                  className="px-3 py-2 bg-slate-800 text-slate-300 hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed rounded-lg font-medium transition-all duration-200 flex items-center gap-2"
+                  type="button"
+                  aria-label={undoLabel ? `Undo ${undoLabel}` : 'Nothing to undo'}
+                >
+                  <Undo2 size={16} />
+                  Undo
+                </button>
+                <button
+                  onClick={handleRedo}
+                  disabled={!canRedo}
+                  className="px-3 py-2 bg-slate-800 text-slate-300 hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed rounded-lg font-medium transition-all duration-200 flex items-center gap-2"
+                  type="button"
+                  aria-label={redoLabel ? `Redo ${redoLabel}` : 'Nothing to redo'}
+                >
+                  <Redo2 size={16} />
+                  Redo
+                </button>
+              </div>
               <button
                 onClick={() => setShowSuggestions(!showSuggestions)}
                 className={`w-full px-3 py-2 rounded-lg font-medium transition-all duration-200 flex items-center gap-2 ${
@@ -954,7 +1873,43 @@ export default function TessellationApp() {
                 Grid
               </button>
               <button
-                onClick={exportSvg}
+                onClick={() => {
+                  setLibraryOpen(true);
+                  setMobileMenuOpen(false);
+                }}
+                className="w-full px-3 py-2 bg-slate-800 text-slate-300 hover:bg-slate-700 rounded-lg font-medium transition-all duration-200 flex items-center gap-2"
+                type="button"
+                aria-label="Open My Designs"
+              >
+                <FolderOpen size={16} />
+                My Designs
+              </button>
+              <button
+                onClick={() => {
+                  fileInputRef.current?.click();
+                  setMobileMenuOpen(false);
+                }}
+                className="w-full px-3 py-2 bg-slate-800 text-slate-300 hover:bg-slate-700 rounded-lg font-medium transition-all duration-200 flex items-center gap-2"
+                type="button"
+                aria-label="Open a tessellation JSON file"
+              >
+                <FileUp size={16} />
+                Open…
+              </button>
+              <button
+                onClick={exportJson}
+                className="w-full px-3 py-2 bg-slate-800 text-slate-300 hover:bg-slate-700 rounded-lg font-medium transition-all duration-200 flex items-center gap-2"
+                type="button"
+                aria-label="Export JSON"
+              >
+                <FileJson size={16} />
+                Export JSON
+              </button>
+              <button
+                onClick={() => {
+                  setSvgExportOpen(true);
+                  setMobileMenuOpen(false);
+                }}
                 className="w-full px-3 py-2 bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-700 hover:to-indigo-700 rounded-lg font-medium transition-all duration-200 flex items-center gap-2"
                 type="button"
                 aria-label="Export SVG"
@@ -962,6 +1917,18 @@ export default function TessellationApp() {
                 <Download size={16} />
                 Export SVG
               </button>
+              <button
+                onClick={() => {
+                  setRasterExportOpen(true);
+                  setMobileMenuOpen(false);
+                }}
+                className="w-full px-3 py-2 bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-700 hover:to-indigo-700 rounded-lg font-medium transition-all duration-200 flex items-center gap-2"
+                type="button"
+                aria-label="Export PNG or JPEG image"
+              >
+                <ImageDown size={16} />
+                Export Image
+              </button>
               <button
                 onClick={clearAll}
                 className="w-full px-3 py-2 bg-gradient-to-r from-rose-600 to-pink-600 hover:from-rose-700 hover:to-pink-700 rounded-lg font-medium transition-all duration-200 flex items-center gap-2"
@@ -987,98 +1954,195 @@ export default function TessellationApp() {
             className="relative w-full h-[600px] select-none focus:outline-none focus:ring-2 focus:ring-cyan-400"
             style={{ 
               background: `radial-gradient(circle at 50% 50%, rgba(30, 41, 59, 0.8) 0%, rgba(15, 23, 42, 1) 100%)`,
-              touchAction: 'none' // Prevent default touch behaviors
+              touchAction: 'none', // Prevent default touch behaviors
+              cursor: pan ? 'grabbing' : spaceHeld ? 'grab' : undefined
             }}
+            onMouseDownCapture={handlePanStart}
             onMouseMove={handleMouseMove}
             onMouseUp={handleMouseUp}
             onMouseLeave={handleTouchEnd}
             onTouchMove={handleTouchMove}
             onTouchEnd={handleTouchEnd}
-            onTouchStart={(e) => e.preventDefault()} // Prevent page scrolling on any touch
+            onMouseDown={handleCanvasPointerDown}
+            onTouchStart={handleCanvasPointerDown}
             onKeyDown={handleKeyDown}
             tabIndex={0}
             role="img"
-            aria-label={`Tessellation canvas with ${tiles.length} tiles. ${selectedTile ? `Selected: ${SHAPES[selectedTile.shape].name} at position ${selectedTile.x}, ${selectedTile.y}` : 'No tile selected'}`}
+            aria-label={`Tessellation canvas with ${tiles.length} tiles. ${selectedTile ? `Selected: ${getShape(selectedTile.shape).name} at position ${selectedTile.x}, ${selectedTile.y}` : selectedTiles.length > 0 ? `Selected: ${selectedTiles.length} tiles` : 'No tile selected'}`}
             aria-describedby="canvas-instructions"
           >
             {/* Hidden instructions for screen readers */}
             <div id="canvas-instructions" className="sr-only">
-              Use arrow keys to move selected tile. Hold Shift for faster movement. 
-              Press R to rotate, D to duplicate, Delete to remove. 
-              Click or touch tiles to select them.
+              Use arrow keys to move the selected tiles. Hold Shift for faster movement. 
+              Press R to rotate, Shift+R to rotate backwards, F to flip, D to duplicate, Delete to remove. 
+              Press Control+A to select all tiles and Escape to clear the selection. 
+              Press Control+G to group the selected tiles, Control+Shift+G to ungroup, and the bracket keys to bring them forward or send them back. 
+              Press Control+Z to undo and Control+Shift+Z to redo. 
+              While dragging, tiles snap to matching edges, turning slightly to line up if needed; hold Alt to place them freely. 
+              Use Validate in the tools panel to list overlaps, holes and corners that meet mid-edge, and the arrow keys to step through them. 
+              Click or touch tiles to select them. Shift+click or Shift+Enter adds a tile to the selection, 
+              and dragging across empty canvas selects every tile it touches. 
+              Scroll or pinch to zoom, and drag with Space held or the middle button to pan. 
+              With grid snapping on, dragged, moved and new tiles land on the grid, and the arrow keys step from node to node. 
+              Press plus and minus to zoom, 0 for 100%, Shift+1 to fit every tile and Shift+2 to fit the selection.
             </div>
 
             <svg
               ref={svgRef}
               width="100%"
               height="100%"
-              viewBox="0 0 600 600"
+              viewBox={`${viewRect.x} ${viewRect.y} ${viewRect.width} ${viewRect.height}`}
               className="absolute inset-0"
               style={{ touchAction: 'none' }}
               aria-hidden="true"
             >
+              {/* Gradients and patterns used by styled tiles */}
+              <TilePaintDefs paints={tilePaints} />
+
               {/* Grid */}
               {showGrid && (
-                <g aria-hidden="true">
-                  {Array.from({ length: 31 }, (_, i) => (
+                <g aria-hidden="true" data-export="grid">
+                  <path
+                    d={gridPath}
+                    fill="none"
+                    stroke="rgba(148, 163, 184, 0.1)"
+                    strokeWidth="0.5"
+                    vectorEffect="non-scaling-stroke"
+                  />
+                </g>
+              )}
+
+              {/* Symmetry guides: mirror lines and the fundamental region */}
+              {symmetryGuides.wedge && (
+                <g className="pointer-events-none" aria-hidden="true" data-export="overlay">
+                  <path
+                    d={getWedgePath(symmetry.center, symmetryGuides.wedge, guideRadius)}
+                    fill="rgba(168, 85, 247, 0.08)"
+                  />
+                  {symmetryGuides.rays.map((angle) => {
+                    const end = polarPoint(symmetry.center, angle, guideRadius);
+                    return (
+                      <line
+                        key={angle}
+                        x1={symmetry.center.x}
+                        y1={symmetry.center.y}
+                        x2={end.x}
+                        y2={end.y}
+                        stroke="rgba(168, 85, 247, 0.5)"
+                        strokeWidth="1"
+                        strokeDasharray="6,4"
+                      />
+                    );
+                  })}
+                </g>
+              )}
+
+              {/* Wallpaper lattice and the cell being edited */}
+              {wallpaperGuides && (
+                <g className="pointer-events-none" aria-hidden="true" data-export="overlay">
+                  <path d={wallpaperGuides.cell} fill="rgba(168, 85, 247, 0.08)" stroke="rgba(168, 85, 247, 0.7)" strokeWidth="1.5" />
+                  {wallpaperGuides.lines.map(([start, end], index) => (
                     <line
-                      key={`v-${i}`}
-                      x1={i * 20}
-                      y1={0}
-                      x2={i * 20}
-                      y2={600}
-                      stroke="rgba(148, 163, 184, 0.1)"
-                      strokeWidth="0.5"
+                      key={index}
+                      x1={start.x}
+                      y1={start.y}
+                      x2={end.x}
+                      y2={end.y}
+                      stroke="rgba(168, 85, 247, 0.3)"
+                      strokeWidth="1"
+                      strokeDasharray="6,4"
                     />
                   ))}
-                  {Array.from({ length: 31 }, (_, i) => (
-                    <line
-                      key={`h-${i}`}
-                      x1={0}
-                      y1={i * 20}
-                      x2={600}
-                      y2={i * 20}
-                      stroke="rgba(148, 163, 184, 0.1)"
-                      strokeWidth="0.5"
+                </g>
+              )}
+
+              {/* Wallpaper repeats: derived, so clicking one selects its original */}
+              {wallpaperCopies.length > 0 && (
+                <g aria-hidden="true">
+                  {wallpaperCopies.map((copy) => (
+                    <path
+                      key={copy.id}
+                      d={getShape(copy.shape).path}
+                      transform={getTileTransform(copy)}
+                      fill={getTileFill(copy)}
+                      stroke={copy.style?.stroke ?? 'rgba(255, 255, 255, 0.3)'}
+                      strokeWidth={copy.style?.stroke ? copy.style.strokeWidth : 1}
+                      opacity={0.8 * getTileStyle(copy).opacity}
+                      className="cursor-pointer"
+                      onMouseDown={(e) => {
+                        e.preventDefault();
+                        e.stopPropagation();
+                        selectMirrorOriginal(copy, e.shiftKey || e.ctrlKey || e.metaKey);
+                      }}
                     />
                   ))}
                 </g>
               )}
 
-              {/* Tiles */}
-              {tiles.map((tile) => (
+              {/* Tiles, bottom layer first; presses on locked layers fall through to the canvas */}
+              {drawnTiles.map((tile) => (
                 <g
                   key={tile.id}
-                  transform={`translate(${tile.x}, ${tile.y}) rotate(${tile.rotation})`}
+                  transform={getTileTransform(tile)}
                   onMouseDown={(e) => handleMouseDown(e, tile)}
                   onTouchStart={(e) => handleTouchStart(e, tile)}
-                  className="cursor-move focus:outline-none"
+                  className={`${tile.isSymmetryMirror ? 'cursor-pointer' : 'cursor-move'} focus:outline-none ${dragState.isDragging && selectedIds.includes(tile.id) ? 'opacity-70' : ''}`}
                   style={{ 
                     transformOrigin: '0 0',
-                    touchAction: 'none'
+                    touchAction: 'none',
+                    pointerEvents: getTileLayer(tile, layers).locked ? 'none' : undefined
                   }}
-                  tabIndex={0}
+                  tabIndex={getTileLayer(tile, layers).locked ? -1 : 0}
                   role="button"
-                  aria-label={`${SHAPES[tile.shape].name} tile at position ${tile.x}, ${tile.y}${tile.isSymmetryMirror ? ' (symmetry mirror)' : ''}. Click to select, use arrow keys to move.`}
+                  aria-label={tile.isSymmetryMirror
+                    ? `${getShape(tile.shape).name} symmetry mirror at position ${tile.x}, ${tile.y}. Follows its original; select to edit the original.`
+                    : `${getShape(tile.shape).name} tile at position ${tile.x}, ${tile.y}. Click to select, use arrow keys to move.`}
                   onFocus={() => {
-                    setSelectedTile(tile);
-                    announce(`Selected ${SHAPES[tile.shape].name} tile`);
+                    // Tabbing onto a tile already in a group keeps the group
+                    if (selectedIds.includes(tile.originalId ?? tile.id)) return;
+                    if (tile.isSymmetryMirror) {
+                      selectMirrorOriginal(tile);
+                      return;
+                    }
+                    selectTile(tile);
                   }}
                   onKeyDown={(e) => {
                     if (e.key === 'Enter' || e.key === ' ') {
                       e.preventDefault();
-                      setSelectedTile(tile);
-                      announce(`Selected ${SHAPES[tile.shape].name} tile`);
+                      // Shift+Enter adds the tile to the selection or takes it out
+                      if (tile.isSymmetryMirror) {
+                        selectMirrorOriginal(tile, e.shiftKey);
+                        return;
+                      }
+                      if (e.shiftKey) {
+                        toggleSelected(tile);
+                        return;
+                      }
+                      selectTile(tile);
                     }
                   }}
                 >
                   <path
-                    d={SHAPES[tile.shape].path}
-                    fill={tile.color}
-                    stroke={selectedTile?.id === tile.id ? '#fbbf24' : 'rgba(255, 255, 255, 0.3)'}
-                    strokeWidth={selectedTile?.id === tile.id ? '3' : '1'}
-                    opacity={dragState.isDragging && dragState.tileId === tile.id ? '0.7' : tile.isSymmetryMirror ? '0.8' : '1'}
+                    d={getShape(tile.shape).path}
+                    fill={getTileFill(tile)}
+                    stroke={tile.style?.stroke ?? 'rgba(255, 255, 255, 0.3)'}
+                    strokeWidth={tile.style?.stroke ? tile.style.strokeWidth : 1}
+                    strokeLinejoin="round"
+                    opacity={(tile.isSymmetryMirror ? 0.8 : 1) * getTileStyle(tile).opacity}
                   />
+                  {/* Selection outline, drawn over the tile's own stroke */}
+                  {selectedIds.includes(tile.id) && (
+                    <path
+                      d={getShape(tile.shape).path}
+                      fill="none"
+                      stroke="#fbbf24"
+                      strokeWidth="3"
+                      strokeLinejoin="round"
+                      className="pointer-events-none"
+                      aria-hidden="true"
+                      data-export="overlay"
+                    />
+                  )}
                   {/* Symmetry mirror indicator */}
                   {tile.isSymmetryMirror && (
                     <circle
@@ -1089,6 +2153,7 @@ export default function TessellationApp() {
                       stroke="white"
                       strokeWidth="1"
                       aria-hidden="true"
+                      data-export="overlay"
                     />
                   )}
                 </g>
@@ -1101,9 +2166,10 @@ export default function TessellationApp() {
                   transform={`translate(${suggestion.x}, ${suggestion.y}) rotate(${suggestion.rotation})`}
                   className="pointer-events-none"
                   aria-hidden="true"
+                  data-export="overlay"
                 >
                   <path
-                    d={SHAPES[suggestion.shape].path}
+                    d={getShape(suggestion.shape).path}
                     fill="none"
                     stroke="#10b981"
                     strokeWidth="2"
@@ -1119,10 +2185,187 @@ export default function TessellationApp() {
                   />
                 </g>
               ))}
+
+              {/* Tiling problems: overlaps filled red, holes outlined, mid-edge corners circled */}
+              {tilingReport && tilingReport.problems.length > 0 && (
+                <g className="pointer-events-none" aria-hidden="true" data-export="overlay">
+                  {tilingReport.problems.map((problem, index) => problem.kind === 'junction' ? (
+                    <circle
+                      key={index}
+                      cx={problem.center.x}
+                      cy={problem.center.y}
+                      r={index === problemIndex ? 7 : 5}
+                      fill="none"
+                      stroke="#ef4444"
+                      strokeWidth={index === problemIndex ? 3 : 2}
+                    />
+                  ) : (
+                    <polygon
+                      key={index}
+                      points={problem.region.map(point => `${point.x},${point.y}`).join(' ')}
+                      fill={problem.kind === 'overlap' ? 'rgba(239, 68, 68, 0.6)' : 'rgba(239, 68, 68, 0.15)'}
+                      stroke="#ef4444"
+                      strokeWidth={index === problemIndex ? 3 : 1.5}
+                      strokeDasharray={problem.kind === 'hole' ? '5,3' : undefined}
+                      strokeLinejoin="round"
+                    />
+                  ))}
+                </g>
+              )}
+
+              {/* Snap preview: ghosts where the dragged tiles will land, with the matched edges */}
+              {snapPreview && (
+                <g className="pointer-events-none" aria-hidden="true" data-export="overlay">
+                  {snapPreview.tiles.map(ghost => (
+                    <path
+                      key={ghost.id}
+                      d={getShape(ghost.shape).path}
+                      transform={getTileTransform(ghost)}
+                      fill="rgba(34, 211, 238, 0.15)"
+                      stroke="#22d3ee"
+                      strokeWidth="1.5"
+                      strokeDasharray="4,3"
+                    />
+                  ))}
+                  {[snapPreview.movingEdge, snapPreview.targetEdge].map((edge, index) => (
+                    <line
+                      key={index}
+                      x1={edge.start.x}
+                      y1={edge.start.y}
+                      x2={edge.end.x}
+                      y2={edge.end.y}
+                      stroke="#a3e635"
+                      strokeWidth="4"
+                      strokeLinecap="round"
+                    />
+                  ))}
+                </g>
+              )}
+
+              {/* Rotation handle for the selected tile */}
+              {selectedTile && rotationHandle && (
+                <g aria-hidden="true" data-export="overlay">
+                  <line
+                    x1={selectedTile.x}
+                    y1={selectedTile.y}
+                    x2={rotationHandle.x}
+                    y2={rotationHandle.y}
+                    stroke="#fbbf24"
+                    strokeWidth="1"
+                    strokeDasharray="3,3"
+                    vectorEffect="non-scaling-stroke"
+                    className="pointer-events-none"
+                  />
+                  <circle
+                    cx={rotationHandle.x}
+                    cy={rotationHandle.y}
+                    r={7 / viewport.zoom}
+                    fill="#0f172a"
+                    stroke="#fbbf24"
+                    strokeWidth="2"
+                    vectorEffect="non-scaling-stroke"
+                    className="cursor-grab"
+                    style={{ touchAction: 'none' }}
+                    onMouseDown={(e) => handleRotateStart(e, selectedTile)}
+                    onTouchStart={(e) => handleRotateStart(e, selectedTile)}
+                  />
+                </g>
+              )}
+
+              {/* Marquee selection */}
+              {marquee && (() => {
+                const area = rectFromPoints(marquee.start, marquee.current);
+                return (
+                  <rect
+                    x={area.x}
+                    y={area.y}
+                    width={area.width}
+                    height={area.height}
+                    fill="rgba(251, 191, 36, 0.1)"
+                    stroke="#fbbf24"
+                    strokeWidth="1"
+                    strokeDasharray="4,3"
+                    vectorEffect="non-scaling-stroke"
+                    className="pointer-events-none"
+                    aria-hidden="true"
+                    data-export="overlay"
+                  />
+                );
+              })()}
+
+              {/* Symmetry center handle */}
+              {symmetry.mode !== 'none' && (
+                <g
+                  transform={`translate(${symmetry.center.x}, ${symmetry.center.y}) scale(${1 / viewport.zoom})`}
+                  onMouseDown={handleCenterDragStart}
+                  onTouchStart={handleCenterDragStart}
+                  className="cursor-move"
+                  style={{ touchAction: 'none' }}
+                  aria-hidden="true"
+                  data-export="overlay"
+                >
+                  <circle r="10" fill="rgba(15, 23, 42, 0.6)" stroke="#a855f7" strokeWidth="2" />
+                  <path d="M -6 0 H 6 M 0 -6 V 6" stroke="#a855f7" strokeWidth="2" />
+                </g>
+              )}
             </svg>
 
+            {/* View controls */}
+            <div
+              className="absolute bottom-4 right-4 bg-black/80 backdrop-blur-md rounded-lg p-1 flex items-center gap-1 z-10 text-white"
+              role="toolbar"
+              aria-label="Zoom"
+            >
+              <button
+                onClick={() => zoomBy(1 / ZOOM_STEP)}
+                className="p-2 rounded-md hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-cyan-400"
+                type="button"
+                aria-label="Zoom out"
+                title="Zoom out (-)"
+              >
+                <ZoomOut size={16} aria-hidden="true" />
+              </button>
+              <button
+                onClick={resetZoom}
+                className="w-14 py-1 rounded-md text-sm tabular-nums hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-cyan-400"
+                type="button"
+                aria-label={`Zoom ${Math.round(viewport.zoom * 100)}%, reset to 100%`}
+                title="Reset to 100% (0)"
+              >
+                {Math.round(viewport.zoom * 100)}%
+              </button>
+              <button
+                onClick={() => zoomBy(ZOOM_STEP)}
+                className="p-2 rounded-md hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-cyan-400"
+                type="button"
+                aria-label="Zoom in"
+                title="Zoom in (+)"
+              >
+                <ZoomIn size={16} aria-hidden="true" />
+              </button>
+              <button
+                onClick={zoomToFit}
+                className="p-2 rounded-md hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-cyan-400"
+                type="button"
+                aria-label="Zoom to fit all tiles"
+                title="Zoom to fit (Shift+1)"
+              >
+                <Maximize2 size={16} aria-hidden="true" />
+              </button>
+              <button
+                onClick={zoomToSelection}
+                disabled={selectedTiles.length === 0}
+                className="p-2 rounded-md hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-cyan-400 disabled:opacity-40 disabled:hover:bg-transparent"
+                type="button"
+                aria-label="Zoom to selection"
+                title="Zoom to selection (Shift+2)"
+              >
+                <Focus size={16} aria-hidden="true" />
+              </button>
+            </div>
+
             {/* Tile Controls */}
-            {selectedTile && (
+            {selectedTiles.length > 0 && (
               <aside 
                 className="absolute bg-black/80 backdrop-blur-md rounded-lg p-2 flex gap-2 z-10"
                 style={{
@@ -1130,44 +2373,160 @@ export default function TessellationApp() {
                   top: 20
                 }}
                 role="toolbar"
-                aria-label={`Controls for ${SHAPES[selectedTile.shape].name} tile`}
+                aria-label={selectedTile ? `Controls for ${getShape(selectedTile.shape).name} tile` : `Controls for ${selectedTiles.length} selected tiles`}
               >
                 <div className="text-white text-sm mr-2 flex items-center" aria-live="polite">
-                  {SHAPES[selectedTile.shape].name}
+                  {describeSelection(selectedTiles)}
                 </div>
                 <button
                   onClick={() => {
-                    rotateTile(selectedTile.id);
-                    announce(`Rotated ${SHAPES[selectedTile.shape].name}`);
+                    rotateSelection(-1);
+                    announce(`Rotated ${describeSelection(selectedTiles)} counterclockwise`);
+                  }}
+                  className="p-2 bg-purple-600 hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-purple-400 rounded-md transition-colors"
+                  type="button"
+                  aria-label={`Rotate ${selectedTile ? 'tile' : 'tiles'} ${rotationStep} degrees counterclockwise`}
+                >
+                  <RotateCcw size={16} aria-hidden="true" />
+                </button>
+                <button
+                  onClick={() => {
+                    rotateSelection();
+                    announce(`Rotated ${describeSelection(selectedTiles)}`);
                   }}
                   className="p-2 bg-purple-600 hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-purple-400 rounded-md transition-colors"
                   type="button"
-                  aria-label="Rotate tile 45 degrees"
+                  aria-label={`Rotate ${selectedTile ? 'tile' : 'tiles'} ${rotationStep} degrees`}
                 >
                   <RotateCw size={16} aria-hidden="true" />
                 </button>
+                {selectedTile && (
+                  <div className="flex items-center gap-1 text-white text-sm">
+                    <NumberField
+                      value={Math.round(selectedTile.rotation * 1000) / 1000}
+                      min={0}
+                      max={359.9}
+                      step={rotationStep}
+                      onCommit={(angle) => setTileRotation(selectedTile.id, angle)}
+                      className="w-16 px-2 py-1 rounded-md bg-slate-800 border border-slate-700 text-white focus:outline-none focus:ring-2 focus:ring-purple-400"
+                      aria-label="Tile angle in degrees"
+                    />
+                    <span aria-hidden="true">°</span>
+                  </div>
+                )}
+                <select
+                  value={rotationStep}
+                  onChange={(e) => setRotationStep(parseFloat(e.target.value))}
+                  className="px-1 py-1 rounded-md bg-slate-800 border border-slate-700 text-white text-sm focus:outline-none focus:ring-2 focus:ring-purple-400"
+                  aria-label="Rotation step"
+                >
+                  {ROTATION_STEPS.map(step => (
+                    <option key={step} value={step}>{step}° step</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => {
+                    flipSelection();
+                    announce(`Flipped ${describeSelection(selectedTiles)}`);
+                  }}
+                  className="p-2 bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-400 rounded-md transition-colors"
+                  type="button"
+                  aria-label={selectedTile ? 'Flip tile horizontally' : 'Flip tiles horizontally'}
+                >
+                  <FlipHorizontal2 size={16} aria-hidden="true" />
+                </button>
+                <button
+                  onClick={() => {
+                    recolorSelection(selectedColor);
+                    announce(`Recolored ${describeSelection(selectedTiles)} ${selectedColor}`);
+                  }}
+                  className="p-2 bg-slate-700 hover:bg-slate-600 focus:outline-none focus:ring-2 focus:ring-slate-400 rounded-md transition-colors"
+                  type="button"
+                  aria-label={`Recolor ${selectedTile ? 'tile' : 'tiles'} ${selectedColor}`}
+                >
+                  <PaintBucket size={16} aria-hidden="true" style={{ color: selectedColor }} />
+                </button>
+                <button
+                  onClick={() => setStyleInspectorOpen(open => !open)}
+                  className={`p-2 ${styleInspectorOpen ? 'bg-slate-500' : 'bg-slate-700'} hover:bg-slate-600 focus:outline-none focus:ring-2 focus:ring-slate-400 rounded-md transition-colors`}
+                  type="button"
+                  aria-label={selectedTile ? 'Tile style' : 'Tiles style'}
+                  aria-expanded={styleInspectorOpen}
+                >
+                  <Paintbrush size={16} aria-hidden="true" />
+                </button>
+                <button
+                  onClick={() => restackSelection(1)}
+                  className="p-2 bg-slate-700 hover:bg-slate-600 focus:outline-none focus:ring-2 focus:ring-slate-400 rounded-md transition-colors"
+                  type="button"
+                  aria-label="Bring forward"
+                  title="Bring forward (])"
+                >
+                  <BringToFront size={16} aria-hidden="true" />
+                </button>
+                <button
+                  onClick={() => restackSelection(-1)}
+                  className="p-2 bg-slate-700 hover:bg-slate-600 focus:outline-none focus:ring-2 focus:ring-slate-400 rounded-md transition-colors"
+                  type="button"
+                  aria-label="Send back"
+                  title="Send back ([)"
+                >
+                  <SendToBack size={16} aria-hidden="true" />
+                </button>
+                {selectedTiles.length > 1 && (
+                  <button
+                    onClick={groupSelection}
+                    className="p-2 bg-slate-700 hover:bg-slate-600 focus:outline-none focus:ring-2 focus:ring-slate-400 rounded-md transition-colors"
+                    type="button"
+                    aria-label="Group tiles"
+                    title="Group (Ctrl+G)"
+                  >
+                    <Group size={16} aria-hidden="true" />
+                  </button>
+                )}
+                {selectedTiles.some(tile => tile.groupId) && (
+                  <button
+                    onClick={ungroupSelection}
+                    className="p-2 bg-slate-700 hover:bg-slate-600 focus:outline-none focus:ring-2 focus:ring-slate-400 rounded-md transition-colors"
+                    type="button"
+                    aria-label="Ungroup tiles"
+                    title="Ungroup (Ctrl+Shift+G)"
+                  >
+                    <Ungroup size={16} aria-hidden="true" />
+                  </button>
+                )}
                 <button
                   onClick={() => {
-                    duplicateTile(selectedTile.id);
-                    announce(`Duplicated ${SHAPES[selectedTile.shape].name}`);
+                    duplicateSelection();
+                    announce(`Duplicated ${describeSelection(selectedTiles)}`);
                   }}
                   className="p-2 bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-400 rounded-md transition-colors"
                   type="button"
-                  aria-label="Duplicate tile"
+                  aria-label={selectedTile ? 'Duplicate tile' : 'Duplicate tiles'}
                 >
                   <Copy size={16} aria-hidden="true" />
                 </button>
                 <button
                   onClick={() => {
-                    deleteTile(selectedTile.id);
-                    announce(`Deleted ${SHAPES[selectedTile.shape].name}`);
+                    deleteSelection();
+                    announce(`Deleted ${describeSelection(selectedTiles)}`);
                   }}
                   className="p-2 bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-400 rounded-md transition-colors"
                   type="button"
-                  aria-label="Delete tile"
+                  aria-label={selectedTile ? 'Delete tile' : 'Delete tiles'}
                 >
                   <Trash2 size={16} aria-hidden="true" />
                 </button>
+                {styleInspectorOpen && (
+                  <TileStyleInspector
+                    style={getTileStyle(selectedTiles[0])}
+                    color={selectedTiles[0].color}
+                    onChange={styleSelection}
+                    onReset={resetSelectionStyle}
+                    onEditStart={beginTileChange}
+                    onEditEnd={() => endTileChange(`Style ${describeSelection(selectedTiles)}`)}
+                  />
+                )}
               </aside>
             )}
           </div>
@@ -1177,31 +2536,29 @@ export default function TessellationApp() {
         <aside className="hidden md:block w-56 bg-slate-900/80 backdrop-blur-lg border-l border-slate-700/50 p-4 space-y-6 overflow-y-auto" role="complementary" aria-label="Tessellation tools">
           <section>
             <h2 className="text-sm font-semibold mb-2 text-slate-300">Shape Tools</h2>
-            <div className="grid grid-cols-2 gap-2" role="group" aria-label="Shape selection">
-              {Object.entries(SHAPES).map(([key, shape]) => (
-                <button
-                  key={key}
-                  onClick={() => addShape(key as ShapeType)}
-                  className="aspect-square w-full bg-slate-800/50 border border-slate-700 rounded-lg hover:border-slate-500 focus:outline-none focus:ring-2 focus:ring-cyan-400 transition-all duration-200 hover:scale-105 flex items-center justify-center"
-                  type="button"
-                  aria-label={`Add ${shape.name} to canvas`}
-                >
-                  <svg width="60" height="60" viewBox="-50 -50 100 100" aria-hidden="true">
-                    <path
-                      d={shape.path}
-                      fill={shape.color}
-                      opacity="0.9"
-                    />
-                  </svg>
-                </button>
-              ))}
-            </div>
+            <ShapePalette
+              customShapes={customShapes}
+              onAdd={addShape}
+              onCreate={() => openShapeEditor(null)}
+              onEdit={openShapeEditor}
+              onDelete={deleteCustomShape}
+            />
+            <button
+              onClick={() => setTilingDialogOpen(true)}
+              className="mt-2 w-full px-3 py-2 bg-slate-800 text-slate-300 hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-cyan-400 rounded-lg font-medium transition-all duration-200 flex items-center gap-2"
+              type="button"
+              aria-haspopup="dialog"
+              aria-label="Generate a regular or Archimedean tiling"
+            >
+              <LayoutGrid size={16} aria-hidden="true" />
+              Generate Tiling…
+            </button>
           </section>
 
           <section>
             <h2 className="text-sm font-semibold mb-2 text-slate-300">Color Tools</h2>
             <div className="grid grid-cols-5 gap-2" role="group" aria-label="Color selection">
-              {COLORS.map((color, index) => (
+              {palette.colors.map((color, index) => (
                 <button
                   key={color}
                   onClick={() => {
@@ -1213,43 +2570,109 @@ export default function TessellationApp() {
                   }`}
                   style={{ backgroundColor: color }}
                   type="button"
-                  aria-label={`Select color ${index + 1} of ${COLORS.length}${selectedColor === color ? ' (currently selected)' : ''}`}
+                  aria-label={`Select color ${index + 1} of ${palette.colors.length}${selectedColor === color ? ' (currently selected)' : ''}`}
                 />
               ))}
             </div>
+            <button
+              onClick={() => setPaletteDialogOpen(true)}
+              className="mt-2 w-full px-3 py-2 bg-slate-800 text-slate-300 hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-cyan-400 rounded-lg font-medium transition-all duration-200 flex items-center gap-2"
+              type="button"
+              aria-haspopup="dialog"
+              aria-label={`Edit the ${palette.name} palette`}
+            >
+              <SwatchBook size={16} aria-hidden="true" />
+              Edit Palette…
+            </button>
+            <button
+              onClick={() => setAutoColorOpen(true)}
+              className="mt-2 w-full px-3 py-2 bg-slate-800 text-slate-300 hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-cyan-400 rounded-lg font-medium transition-all duration-200 flex items-center gap-2"
+              type="button"
+              disabled={tiles.length === 0}
+              aria-haspopup="dialog"
+              aria-label="Color the tiles so no neighbours match"
+            >
+              <Wand2 size={16} aria-hidden="true" />
+              Auto-color…
+            </button>
           </section>
 
           <section>
             <fieldset>
               <legend className="text-sm font-semibold mb-2 text-slate-300">Symmetry Mode</legend>
               <div className="grid grid-cols-2 gap-2" role="radiogroup" aria-label="Symmetry mode selection">
-                {(['none', 'horizontal', 'vertical', 'radial'] as SymmetryMode[]).map((mode) => (
+                {SYMMETRY_MODES.map((mode) => (
                   <button
                     key={mode}
                     onClick={() => {
-                      setSymmetryMode(mode);
-                      announce(`Selected ${mode} symmetry mode`);
+                      setSymmetry(prev => ({ ...prev, mode }));
+                      announce(`Selected ${describeSymmetry({ ...symmetry, mode })} symmetry mode`);
                     }}
                     className={`px-3 py-2 rounded-lg text-sm font-medium focus:outline-none focus:ring-2 focus:ring-cyan-400 transition-all duration-200 ${
-                      symmetryMode === mode 
+                      symmetry.mode === mode 
                         ? 'bg-purple-600 text-white' 
                         : 'bg-slate-800 text-slate-300 hover:bg-slate-700'
                     }`}
                     type="button"
                     role="radio"
-                    aria-checked={symmetryMode === mode}
-                    aria-label={`${mode} symmetry mode${symmetryMode === mode ? ' (currently selected)' : ''}`}
+                    aria-checked={symmetry.mode === mode}
+                    aria-label={`${mode} symmetry mode${symmetry.mode === mode ? ' (currently selected)' : ''}`}
                   >
                     {mode.charAt(0).toUpperCase() + mode.slice(1)}
                   </button>
                 ))}
               </div>
+              <SymmetryOptions
+                symmetry={symmetry}
+                onOrderChange={selectSymmetryOrder}
+                onCenterChange={setSymmetryCenter}
+                onWallpaperChange={changeWallpaper}
+              />
             </fieldset>
           </section>
 
+          <section>
+            <h2 className="text-sm font-semibold mb-2 text-slate-300">Grid</h2>
+            <GridOptions grid={grid} onChange={changeGrid} />
+          </section>
+
+          <section>
+            <h2 className="text-sm font-semibold mb-2 text-slate-300">Layers</h2>
+            {layersPanel}
+          </section>
+
+          <section>
+            <h2 className="text-sm font-semibold mb-2 text-slate-300">Validation</h2>
+            {validationPanel('sidebar')}
+          </section>
+
           <section>
             <h2 className="text-sm font-semibold mb-2 text-slate-300 sr-only">Canvas Actions</h2>
             <div className="space-y-2">
+              <div className="grid grid-cols-2 gap-2" role="group" aria-label="History">
+                <button
+                  onClick={handleUndo}
+                  disabled={!canUndo}
+                  className="px-3 py-2 bg-slate-800 text-slate-300 hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-cyan-400 rounded-lg font-medium transition-all duration-200 flex items-center gap-2"
+                  type="button"
+                  aria-label={undoLabel ? `Undo ${undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+                  title={undoLabel ? `Undo ${undoLabel}` : undefined}
+                >
+                  <Undo2 size={16} aria-hidden="true" />
+                  Undo
+                </button>
+                <button
+                  onClick={handleRedo}
+                  disabled={!canRedo}
+                  className="px-3 py-2 bg-slate-800 text-slate-300 hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-cyan-400 rounded-lg font-medium transition-all duration-200 flex items-center gap-2"
+                  type="button"
+                  aria-label={redoLabel ? `Redo ${redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                  title={redoLabel ? `Redo ${redoLabel}` : undefined}
+                >
+                  <Redo2 size={16} aria-hidden="true" />
+                  Redo
+                </button>
+              </div>
               <button
                 onClick={() => {
                   setShowSuggestions(!showSuggestions);
@@ -1294,18 +2717,57 @@ export default function TessellationApp() {
                 <Grid size={16} aria-hidden="true" />
                 Grid
               </button>
+              <button
+                onClick={() => setLibraryOpen(true)}
+                className="w-full px-3 py-2 bg-slate-800 text-slate-300 hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-cyan-400 rounded-lg font-medium transition-all duration-200 flex items-center gap-2"
+                type="button"
+                aria-haspopup="dialog"
+                aria-label="Open My Designs library"
+              >
+                <FolderOpen size={16} aria-hidden="true" />
+                My Designs
+              </button>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="w-full px-3 py-2 bg-slate-800 text-slate-300 hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-cyan-400 rounded-lg font-medium transition-all duration-200 flex items-center gap-2"
+                type="button"
+                aria-label="Open a tessellation JSON file"
+              >
+                <FileUp size={16} aria-hidden="true" />
+                Open…
+              </button>
               <button
                 onClick={() => {
-                  exportSvg();
-                  announce('Exported tessellation as SVG file');
+                  exportJson();
+                  announce('Exported tessellation as JSON file');
                 }}
+                className="w-full px-3 py-2 bg-slate-800 text-slate-300 hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-cyan-400 rounded-lg font-medium transition-all duration-200 flex items-center gap-2"
+                type="button"
+                aria-label="Export tessellation as editable JSON file"
+              >
+                <FileJson size={16} aria-hidden="true" />
+                Export JSON
+              </button>
+              <button
+                onClick={() => setSvgExportOpen(true)}
                 className="w-full px-3 py-2 bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-700 hover:to-indigo-700 focus:outline-none focus:ring-2 focus:ring-purple-400 rounded-lg font-medium transition-all duration-200 flex items-center gap-2"
                 type="button"
+                aria-haspopup="dialog"
                 aria-label="Export tessellation as SVG file"
               >
                 <Download size={16} aria-hidden="true" />
                 Export SVG
               </button>
+              <button
+                onClick={() => setRasterExportOpen(true)}
+                className="w-full px-3 py-2 bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-700 hover:to-indigo-700 focus:outline-none focus:ring-2 focus:ring-purple-400 rounded-lg font-medium transition-all duration-200 flex items-center gap-2"
+                type="button"
+                aria-haspopup="dialog"
+                aria-label="Export tessellation as PNG or JPEG image"
+              >
+                <ImageDown size={16} aria-hidden="true" />
+                Export Image
+              </button>
               <button
                 onClick={() => {
                   clearAll();
@@ -1322,6 +2784,104 @@ export default function TessellationApp() {
           </section>
         </aside>
       </div>
+
+      {/* Shared file picker for the Open… buttons */}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        aria-hidden="true"
+        tabIndex={-1}
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) openJsonFile(file);
+          // Allow the same file to be picked again
+          e.target.value = '';
+        }}
+      />
+
+      {importReport && (
+        <ImportReportDialog
+          fileName={importReport.fileName}
+          errors={importReport.errors}
+          warnings={importReport.warnings}
+          onClose={closeImportReport}
+        />
+      )}
+
+      {svgExportOpen && (
+        <SvgExportDialog
+          defaultTitle={currentDesignName ?? 'Tessellation'}
+          hasWallpaper={symmetry.mode === 'wallpaper' && tiles.length > 0}
+          onExport={exportSvg}
+          onClose={closeSvgExport}
+        />
+      )}
+
+      {shapeEditorOpen && (
+        <ShapeEditorDialog
+          shape={customShapes.find(shape => shape.id === editingShapeId) ?? null}
+          defaultName={nextName('Shape', customShapes.map(shape => shape.name))}
+          defaultColor={selectedColor}
+          onSave={saveCustomShape}
+          onClose={closeShapeEditor}
+        />
+      )}
+
+      {paletteDialogOpen && (
+        <PaletteDialog
+          palette={palette}
+          selectedColor={selectedColor}
+          savedPalettes={savedPalettes}
+          storageError={paletteStorageError}
+          onApply={applyPalette}
+          onSavePalette={savePalette}
+          onDeletePalette={deletePalette}
+          onClose={closePaletteDialog}
+        />
+      )}
+
+      {autoColorOpen && (
+        <AutoColorDialog
+          hasSelection={selectedTiles.length > 0}
+          palette={palette.colors}
+          onColor={autoColorTiles}
+          onClose={closeAutoColor}
+        />
+      )}
+
+      {tilingDialogOpen && (
+        <TilingDialog
+          hasSelection={selectedTiles.length > 0}
+          currentColor={selectedColor}
+          onGenerate={addTiling}
+          onClose={closeTilingDialog}
+        />
+      )}
+
+      {rasterExportOpen && (
+        <RasterExportDialog
+          baseWidth={Math.round(viewRect.width)}
+          baseHeight={Math.round(viewRect.height)}
+          onExport={exportRaster}
+          onClose={closeRasterExport}
+        />
+      )}
+
+      {libraryOpen && (
+        <DesignLibraryDialog
+          designs={designs}
+          currentDesignId={currentDesignId}
+          storageError={storageError}
+          onSave={saveToLibrary}
+          onOpen={openFromLibrary}
+          onRename={renameDesign}
+          onDuplicate={duplicateDesign}
+          onDelete={deleteFromLibrary}
+          onClose={closeLibrary}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
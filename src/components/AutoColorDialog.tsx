@@ -0,0 +1,142 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Wand2 } from 'lucide-react';
+import NumberField from '@/components/NumberField';
+import { COLORING_STRATEGIES, COLORING_STRATEGY_LABELS } from '@/lib/coloring';
+import type { ColoringSettings, ColoringStrategy } from '@/lib/coloring';
+
+export interface AutoColorSettings extends ColoringSettings {
+  scope: 'all' | 'selection';
+}
+
+interface AutoColorDialogProps {
+  hasSelection: boolean; // offer coloring only the selected tiles
+  palette: string[];
+  onColor: (settings: AutoColorSettings) => void;
+  onClose: () => void;
+}
+
+const STRATEGY_HINTS: Record<ColoringStrategy, string> = {
+  minimum: 'As few palette colors as possible',
+  shape: 'Each shape gets its own color where neighbours allow',
+  orientation: 'Tiles facing the same way share a color where neighbours allow',
+  gradient: 'Palette colors in order across the tiles'
+};
+
+export default function AutoColorDialog({ hasSelection, palette, onColor, onClose }: AutoColorDialogProps) {
+  const [strategy, setStrategy] = useState<ColoringStrategy>('minimum');
+  const [angle, setAngle] = useState<number>(0);
+  const [scope, setScope] = useState<AutoColorSettings['scope']>(hasSelection ? 'selection' : 'all');
+  const firstOptionRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    firstOptionRef.current?.focus();
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <form
+        className="w-full max-w-md max-h-[90vh] overflow-y-auto bg-slate-900 border border-slate-700 rounded-xl p-4 text-white space-y-4"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="auto-color-dialog-title"
+        onClick={(e) => e.stopPropagation()}
+        onSubmit={(e) => {
+          e.preventDefault();
+          onColor({ strategy, angle, scope });
+          onClose();
+        }}
+      >
+        <div className="flex justify-between items-center">
+          <h2 id="auto-color-dialog-title" className="text-lg font-semibold">Auto-color</h2>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg bg-slate-800 hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-cyan-400"
+            type="button"
+            aria-label="Close auto-color"
+          >
+            <X size={16} aria-hidden="true" />
+          </button>
+        </div>
+
+        <p className="text-sm text-slate-400">
+          Tiles that share an edge get different colors from the current palette.
+        </p>
+        <div className="flex h-4 rounded overflow-hidden" aria-hidden="true">
+          {palette.map((color, index) => (
+            <span key={index} className="flex-1" style={{ backgroundColor: color }} />
+          ))}
+        </div>
+
+        <fieldset className="space-y-2">
+          <legend className="text-sm text-slate-300 mb-1">Strategy</legend>
+          {COLORING_STRATEGIES.map((option, index) => (
+            <label key={option} className="flex items-start gap-2 text-sm">
+              <input
+                ref={index === 0 ? firstOptionRef : undefined}
+                type="radio"
+                name="auto-color-strategy"
+                checked={strategy === option}
+                onChange={() => setStrategy(option)}
+                className="mt-1"
+              />
+              <span>
+                {COLORING_STRATEGY_LABELS[option]}
+                <span className="block text-xs text-slate-400">{STRATEGY_HINTS[option]}</span>
+              </span>
+            </label>
+          ))}
+        </fieldset>
+
+        {strategy === 'gradient' && (
+          <label className="flex items-center justify-between gap-2 text-sm text-slate-300">
+            Direction (degrees, 0 is left to right)
+            <NumberField value={angle} min={0} max={360} step={15} onCommit={setAngle} />
+          </label>
+        )}
+
+        <fieldset className="space-y-2">
+          <legend className="text-sm text-slate-300 mb-1">Tiles</legend>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="radio"
+              name="auto-color-scope"
+              checked={scope === 'all'}
+              onChange={() => setScope('all')}
+            />
+            All visible tiles on unlocked layers
+          </label>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="radio"
+              name="auto-color-scope"
+              checked={scope === 'selection'}
+              onChange={() => setScope('selection')}
+              disabled={!hasSelection}
+            />
+            Selected tiles
+          </label>
+        </fieldset>
+
+        <button
+          className="w-full px-3 py-2 bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-700 hover:to-indigo-700 focus:outline-none focus:ring-2 focus:ring-purple-400 rounded-lg font-medium flex items-center justify-center gap-2"
+          type="submit"
+        >
+          <Wand2 size={16} aria-hidden="true" />
+          Color Tiles
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import NumberField from '@/components/NumberField';
+import { hexToHsl, hexToRgb, hslToHex, normalizeHex, rgbToHex } from '@/lib/color';
+import type { Hsl, Rgb } from '@/lib/color';
+
+interface ColorPickerProps {
+  color: string; // lowercase #rrggbb
+  onChange: (color: string) => void;
+  label: string; // names the color being edited for screen readers
+}
+
+const CHANNEL_CLASS_NAME = 'w-14 px-1.5 py-1 rounded-md bg-slate-800 border border-slate-700 text-white text-sm focus:outline-none focus:ring-2 focus:ring-cyan-400';
+
+const RGB_CHANNELS: { key: keyof Rgb; label: string }[] = [
+  { key: 'r', label: 'Red' },
+  { key: 'g', label: 'Green' },
+  { key: 'b', label: 'Blue' }
+];
+
+const HSL_CHANNELS: { key: keyof Hsl; label: string; max: number }[] = [
+  { key: 'h', label: 'Hue', max: 360 },
+  { key: 's', label: 'Saturation', max: 100 },
+  { key: 'l', label: 'Lightness', max: 100 }
+];
+
+// One color as a system picker, hex, RGB and HSL fields. HSL is kept apart
+// from the hex value so a gray doesn't lose its hue while being edited.
+export default function ColorPicker({ color, onChange, label }: ColorPickerProps) {
+  const [hexDraft, setHexDraft] = useState<string>(color);
+  const [hsl, setHsl] = useState<Hsl>(() => hexToHsl(color));
+  const rgb = hexToRgb(color);
+
+  useEffect(() => {
+    setHexDraft(color);
+    setHsl(prev => hslToHex(prev) === color ? prev : hexToHsl(color));
+  }, [color]);
+
+  const commitHex = () => {
+    const hex = normalizeHex(hexDraft);
+    if (hex && hex !== color) {
+      onChange(hex);
+    } else {
+      setHexDraft(color);
+    }
+  };
+
+  const changeHsl = (changes: Partial<Hsl>) => {
+    const next = { ...hsl, ...changes };
+    setHsl(next);
+    onChange(hslToHex(next));
+  };
+
+  return (
+    <div className="space-y-2" role="group" aria-label={label}>
+      <div className="flex items-center gap-2">
+        <input
+          type="color"
+          value={color}
+          onChange={(e) => onChange(e.target.value.toLowerCase())}
+          className="w-10 h-10 p-0 rounded-md bg-transparent border border-slate-700 cursor-pointer"
+          aria-label="Pick from the system color picker"
+        />
+        <label className="flex items-center gap-2 text-sm text-slate-300">
+          Hex
+          <input
+            value={hexDraft}
+            onChange={(e) => setHexDraft(e.target.value)}
+            onBlur={commitHex}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                commitHex();
+              }
+            }}
+            spellCheck={false}
+            className="w-24 px-2 py-1 rounded-md bg-slate-800 border border-slate-700 text-white font-mono focus:outline-none focus:ring-2 focus:ring-cyan-400"
+          />
+        </label>
+      </div>
+      <div className="flex items-center gap-2 text-sm text-slate-300">
+        <span className="w-8">RGB</span>
+        {RGB_CHANNELS.map(({ key, label: channel }) => (
+          <NumberField
+            key={key}
+            value={Math.round(rgb[key])}
+            min={0}
+            max={255}
+            step={1}
+            onCommit={(value) => onChange(rgbToHex({ ...rgb, [key]: value }))}
+            className={CHANNEL_CLASS_NAME}
+            aria-label={channel}
+          />
+        ))}
+      </div>
+      <div className="flex items-center gap-2 text-sm text-slate-300">
+        <span className="w-8">HSL</span>
+        {HSL_CHANNELS.map(({ key, label: channel, max }) => (
+          <NumberField
+            key={key}
+            value={Math.round(hsl[key])}
+            min={0}
+            max={max}
+            step={1}
+            onCommit={(value) => changeHsl({ [key]: value })}
+            className={CHANNEL_CLASS_NAME}
+            aria-label={key === 'h' ? `${channel} in degrees` : `${channel} in percent`}
+          />
+        ))}
+      </div>
+      <input
+        type="range"
+        min={0}
+        max={360}
+        value={Math.round(hsl.h)}
+        onChange={(e) => changeHsl({ h: Number(e.target.value) })}
+        className="w-full"
+        style={{ accentColor: color }}
+        aria-label="Hue"
+      />
+    </div>
+  );
+}
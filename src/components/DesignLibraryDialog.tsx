@@ -0,0 +1,224 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Save, FolderOpen, Pencil, Copy, Trash2 } from 'lucide-react';
+import type { SavedDesign } from '@/lib/storage';
+
+interface DesignLibraryDialogProps {
+  designs: SavedDesign[];
+  currentDesignId: string | null;
+  storageError: string | null;
+  onSave: (name: string, asNew: boolean) => void;
+  onOpen: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const formatDate = (timestamp: number): string =>
+  timestamp > 0 ? new Date(timestamp).toLocaleString() : 'Unknown date';
+
+export default function DesignLibraryDialog({
+  designs,
+  currentDesignId,
+  storageError,
+  onSave,
+  onOpen,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onClose
+}: DesignLibraryDialogProps) {
+  const currentDesign = designs.find(d => d.id === currentDesignId) ?? null;
+  const [saveName, setSaveName] = useState<string>(currentDesign?.name ?? '');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState<string>('');
+  const nameInputRef = useRef<HTMLInputElement>(null);
+
+  // Focus the name field on open and close on Escape
+  useEffect(() => {
+    nameInputRef.current?.focus();
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const submitSave = (asNew: boolean) => {
+    const name = saveName.trim() || 'Untitled';
+    onSave(name, asNew);
+    setSaveName(name);
+  };
+
+  const submitRename = (id: string) => {
+    const name = renameValue.trim();
+    if (name) onRename(id, name);
+    setRenamingId(null);
+  };
+
+  const sortedDesigns = [...designs].sort((a, b) => b.updatedAt - a.updatedAt);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-2xl max-h-[90vh] overflow-y-auto bg-slate-900 border border-slate-700 rounded-xl p-4 text-white"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="design-library-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 id="design-library-title" className="text-lg font-semibold">My Designs</h2>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg bg-slate-800 hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-cyan-400"
+            type="button"
+            aria-label="Close My Designs"
+          >
+            <X size={16} aria-hidden="true" />
+          </button>
+        </div>
+
+        <form
+          className="flex flex-wrap gap-2 mb-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            submitSave(false);
+          }}
+        >
+          <label htmlFor="design-name" className="sr-only">Design name</label>
+          <input
+            ref={nameInputRef}
+            id="design-name"
+            value={saveName}
+            onChange={(e) => setSaveName(e.target.value)}
+            placeholder="Design name"
+            className="flex-1 min-w-40 px-3 py-2 rounded-lg bg-slate-800 border border-slate-700 text-white focus:outline-none focus:ring-2 focus:ring-cyan-400"
+          />
+          <button
+            className="px-3 py-2 bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-700 hover:to-indigo-700 focus:outline-none focus:ring-2 focus:ring-purple-400 rounded-lg font-medium flex items-center gap-2"
+            type="submit"
+            aria-label={currentDesign ? `Update ${currentDesign.name}` : 'Save current design'}
+          >
+            <Save size={16} aria-hidden="true" />
+            {currentDesign ? 'Update' : 'Save'}
+          </button>
+          {currentDesign && (
+            <button
+              onClick={() => submitSave(true)}
+              className="px-3 py-2 bg-slate-800 hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-cyan-400 rounded-lg font-medium"
+              type="button"
+            >
+              Save as New
+            </button>
+          )}
+        </form>
+
+        {storageError && (
+          <p className="mb-4 text-sm text-rose-400" role="alert">{storageError}</p>
+        )}
+
+        {sortedDesigns.length === 0 ? (
+          <p className="text-sm text-slate-400">No saved designs yet.</p>
+        ) : (
+          <ul className="grid grid-cols-1 sm:grid-cols-2 gap-3" aria-label="Saved designs">
+            {sortedDesigns.map((design) => (
+              <li
+                key={design.id}
+                className={`rounded-lg border p-2 bg-slate-800/50 ${
+                  design.id === currentDesignId ? 'border-purple-500' : 'border-slate-700'
+                }`}
+              >
+                <button
+                  onClick={() => onOpen(design.id)}
+                  className="block w-full aspect-square rounded-md overflow-hidden bg-slate-950 focus:outline-none focus:ring-2 focus:ring-cyan-400"
+                  type="button"
+                  aria-label={`Open ${design.name}`}
+                >
+                  {design.thumbnail && (
+                    // eslint-disable-next-line @next/next/no-img-element
+                    <img src={design.thumbnail} alt="" className="w-full h-full object-contain" />
+                  )}
+                </button>
+
+                {renamingId === design.id ? (
+                  <form
+                    className="mt-2"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      submitRename(design.id);
+                    }}
+                  >
+                    <label htmlFor={`rename-${design.id}`} className="sr-only">New name for {design.name}</label>
+                    <input
+                      id={`rename-${design.id}`}
+                      value={renameValue}
+                      onChange={(e) => setRenameValue(e.target.value)}
+                      onBlur={() => submitRename(design.id)}
+                      autoFocus
+                      className="w-full px-2 py-1 rounded-md bg-slate-800 border border-slate-700 text-white text-sm focus:outline-none focus:ring-2 focus:ring-cyan-400"
+                    />
+                  </form>
+                ) : (
+                  <div className="mt-2 text-sm font-medium truncate">{design.name}</div>
+                )}
+                <div className="text-xs text-slate-400">
+                  {design.snapshot.tiles.length} tiles · {formatDate(design.updatedAt)}
+                </div>
+
+                <div className="mt-2 flex gap-1">
+                  <button
+                    onClick={() => onOpen(design.id)}
+                    className="p-2 bg-purple-600 hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-purple-400 rounded-md"
+                    type="button"
+                    aria-label={`Open ${design.name}`}
+                  >
+                    <FolderOpen size={14} aria-hidden="true" />
+                  </button>
+                  <button
+                    onClick={() => {
+                      setRenamingId(design.id);
+                      setRenameValue(design.name);
+                    }}
+                    className="p-2 bg-slate-700 hover:bg-slate-600 focus:outline-none focus:ring-2 focus:ring-cyan-400 rounded-md"
+                    type="button"
+                    aria-label={`Rename ${design.name}`}
+                  >
+                    <Pencil size={14} aria-hidden="true" />
+                  </button>
+                  <button
+                    onClick={() => onDuplicate(design.id)}
+                    className="p-2 bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-400 rounded-md"
+                    type="button"
+                    aria-label={`Duplicate ${design.name}`}
+                  >
+                    <Copy size={14} aria-hidden="true" />
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (window.confirm(`Delete "${design.name}"? This cannot be undone.`)) {
+                        onDelete(design.id);
+                      }
+                    }}
+                    className="p-2 bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-400 rounded-md"
+                    type="button"
+                    aria-label={`Delete ${design.name}`}
+                  >
+                    <Trash2 size={14} aria-hidden="true" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
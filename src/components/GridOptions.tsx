@@ -0,0 +1,76 @@
+'use client';
+
+import React from 'react';
+import NumberField from '@/components/NumberField';
+import { GRID_TYPE_LABELS, MAX_GRID_DIVISIONS, MAX_GRID_SPACING, MIN_GRID_DIVISIONS, MIN_GRID_SPACING } from '@/lib/grid';
+import { GRID_TYPES } from '@/lib/types';
+import type { GridSettings, GridType } from '@/lib/types';
+
+interface GridOptionsProps {
+  grid: GridSettings;
+  onChange: (changes: Partial<GridSettings>) => void;
+}
+
+// Grid type, spacing, origin and snapping, shown in the tools panel
+export default function GridOptions({ grid, onChange }: GridOptionsProps) {
+  const isPolar = grid.type === 'polar';
+
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center justify-between gap-2 text-sm text-slate-300">
+        Type
+        <select
+          value={grid.type}
+          onChange={(e) => onChange({ type: e.target.value as GridType })}
+          className="px-2 py-1 rounded-md bg-slate-800 border border-slate-700 text-white focus:outline-none focus:ring-2 focus:ring-cyan-400"
+        >
+          {GRID_TYPES.map(type => (
+            <option key={type} value={type}>{GRID_TYPE_LABELS[type]}</option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center justify-between gap-2 text-sm text-slate-300">
+        {isPolar ? 'Ring spacing' : 'Spacing'}
+        <NumberField
+          value={grid.spacing}
+          min={MIN_GRID_SPACING}
+          max={MAX_GRID_SPACING}
+          step={5}
+          onCommit={(spacing) => onChange({ spacing })}
+        />
+      </label>
+      {isPolar && (
+        <label className="flex items-center justify-between gap-2 text-sm text-slate-300">
+          Spokes
+          <NumberField
+            value={grid.divisions}
+            min={MIN_GRID_DIVISIONS}
+            max={MAX_GRID_DIVISIONS}
+            step={1}
+            onCommit={(divisions) => onChange({ divisions: Math.round(divisions) })}
+          />
+        </label>
+      )}
+      <div className="flex items-center gap-2 text-sm text-slate-300">
+        <span className="mr-auto">{isPolar ? 'Pole' : 'Origin'}</span>
+        {(['x', 'y'] as const).map(axis => (
+          <NumberField
+            key={axis}
+            value={Math.round(grid.origin[axis])}
+            step={5}
+            onCommit={(value) => onChange({ origin: { ...grid.origin, [axis]: value } })}
+            aria-label={`Grid ${isPolar ? 'pole' : 'origin'} ${axis}`}
+          />
+        ))}
+      </div>
+      <label className="flex items-center gap-2 text-sm text-slate-300">
+        <input
+          type="checkbox"
+          checked={grid.snap}
+          onChange={(e) => onChange({ snap: e.target.checked })}
+        />
+        Snap tiles to the grid
+      </label>
+    </div>
+  );
+}
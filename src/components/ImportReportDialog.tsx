@@ -0,0 +1,92 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import { X } from 'lucide-react';
+import type { DocumentIssue } from '@/lib/document';
+
+interface ImportReportDialogProps {
+  fileName: string;
+  errors: DocumentIssue[];
+  warnings: DocumentIssue[];
+  onClose: () => void;
+}
+
+const IssueList = ({ issues, tone }: { issues: DocumentIssue[]; tone: 'error' | 'warning' }) => (
+  <ul className="space-y-1 text-sm">
+    {issues.map((issue, index) => (
+      <li key={`${issue.path}-${index}`} className={tone === 'error' ? 'text-rose-300' : 'text-amber-300'}>
+        {issue.path && <code className="mr-2 px-1 rounded bg-slate-800 text-slate-200">{issue.path}</code>}
+        {issue.message}
+      </li>
+    ))}
+  </ul>
+);
+
+// Lists the problems found while opening a document file
+export default function ImportReportDialog({ fileName, errors, warnings, onClose }: ImportReportDialogProps) {
+  const closeButtonRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    closeButtonRef.current?.focus();
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const failed = errors.length > 0;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-lg max-h-[90vh] overflow-y-auto bg-slate-900 border border-slate-700 rounded-xl p-4 text-white"
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="import-report-title"
+        aria-describedby="import-report-summary"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-2">
+          <h2 id="import-report-title" className="text-lg font-semibold">
+            {failed ? 'Could not open file' : 'Opened with warnings'}
+          </h2>
+          <button
+            ref={closeButtonRef}
+            onClick={onClose}
+            className="p-2 rounded-lg bg-slate-800 hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-cyan-400"
+            type="button"
+            aria-label="Close report"
+          >
+            <X size={16} aria-hidden="true" />
+          </button>
+        </div>
+
+        <p id="import-report-summary" className="text-sm text-slate-300 mb-4">
+          {failed
+            ? `${fileName} has ${errors.length} problem${errors.length === 1 ? '' : 's'}. The canvas was not changed.`
+            : `${fileName} was opened. ${warnings.length} field${warnings.length === 1 ? ' was' : 's were'} not recognised and ignored.`}
+        </p>
+
+        {failed && (
+          <section className="mb-4">
+            <h3 className="text-sm font-semibold mb-2 text-slate-300">Errors</h3>
+            <IssueList issues={errors} tone="error" />
+          </section>
+        )}
+
+        {warnings.length > 0 && (
+          <section>
+            <h3 className="text-sm font-semibold mb-2 text-slate-300">Warnings</h3>
+            <IssueList issues={warnings} tone="warning" />
+          </section>
+        )}
+      </div>
+    </div>
+  );
+}
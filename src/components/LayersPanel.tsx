@@ -0,0 +1,227 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { ArrowDown, ArrowDownToLine, ArrowUp, Eye, EyeOff, Group, Lock, LockOpen, Plus, Trash2 } from 'lucide-react';
+import { getTileLayer } from '@/lib/layers';
+import { getShape } from '@/lib/shapes';
+import type { Layer, Tile, TileGroup } from '@/lib/types';
+
+interface LayersPanelProps {
+  layers: Layer[];
+  groups: TileGroup[];
+  tiles: Tile[];
+  activeLayerId: string;
+  selectedIds: string[];
+  onActivateLayer: (layerId: string) => void;
+  onAddLayer: () => void;
+  onChangeLayer: (layerId: string, changes: Partial<Omit<Layer, 'id'>>) => void;
+  onMoveLayer: (layerId: string, direction: 1 | -1) => void;
+  onDeleteLayer: (layerId: string) => void;
+  onMoveSelectionToLayer: (layerId: string) => void;
+  onSelectTiles: (ids: string[]) => void;
+  onRenameGroup: (groupId: string, name: string) => void;
+}
+
+const iconButton = 'p-1 rounded-md text-slate-300 hover:bg-slate-700 disabled:opacity-40 disabled:hover:bg-transparent focus:outline-none focus:ring-2 focus:ring-cyan-400';
+
+// Text field that renames on blur or Enter and reverts on Escape
+function NameField({ value, label, onRename, onFocus }: {
+  value: string;
+  label: string;
+  onRename: (name: string) => void;
+  onFocus?: () => void;
+}) {
+  const [draft, setDraft] = useState(value);
+
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  const commit = () => {
+    const name = draft.trim();
+    if (name && name !== value) {
+      onRename(name);
+    } else {
+      setDraft(value);
+    }
+  };
+
+  return (
+    <input
+      type="text"
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onFocus={onFocus}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+        if (e.key === 'Escape') setDraft(value);
+      }}
+      className="min-w-0 flex-1 px-1 py-0.5 rounded bg-transparent text-sm text-white hover:bg-slate-800 focus:bg-slate-800 focus:outline-none focus:ring-2 focus:ring-cyan-400"
+      aria-label={label}
+    />
+  );
+}
+
+// Layer stack as a tree: layers top to bottom, each with its groups and loose tiles
+export default function LayersPanel({
+  layers,
+  groups,
+  tiles,
+  activeLayerId,
+  selectedIds,
+  onActivateLayer,
+  onAddLayer,
+  onChangeLayer,
+  onMoveLayer,
+  onDeleteLayer,
+  onMoveSelectionToLayer,
+  onSelectTiles,
+  onRenameGroup
+}: LayersPanelProps) {
+  const originals = tiles.filter(tile => !tile.isSymmetryMirror);
+  const activeIndex = layers.findIndex(layer => layer.id === activeLayerId);
+  const activeLayer = layers[activeIndex];
+
+  return (
+    <div className="space-y-2">
+      <ul className="space-y-1" aria-label="Layers">
+        {[...layers].reverse().map(layer => {
+          const layerTiles = originals.filter(tile => getTileLayer(tile, layers).id === layer.id);
+          const layerGroups = groups.filter(group => layerTiles.some(tile => tile.groupId === group.id));
+          const looseTiles = layerTiles.filter(tile => !tile.groupId);
+          const isActive = layer.id === activeLayerId;
+
+          return (
+            <li key={layer.id}>
+              <div
+                className={`flex items-center gap-1 rounded-md px-1 ${isActive ? 'bg-purple-600/30 ring-1 ring-purple-500' : ''}`}
+                onClick={() => onActivateLayer(layer.id)}
+              >
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onChangeLayer(layer.id, { visible: !layer.visible });
+                  }}
+                  className={iconButton}
+                  type="button"
+                  aria-label={`${layer.visible ? 'Hide' : 'Show'} ${layer.name}`}
+                  aria-pressed={!layer.visible}
+                >
+                  {layer.visible ? <Eye size={14} aria-hidden="true" /> : <EyeOff size={14} aria-hidden="true" />}
+                </button>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onChangeLayer(layer.id, { locked: !layer.locked });
+                  }}
+                  className={iconButton}
+                  type="button"
+                  aria-label={`${layer.locked ? 'Unlock' : 'Lock'} ${layer.name}`}
+                  aria-pressed={layer.locked}
+                >
+                  {layer.locked ? <Lock size={14} aria-hidden="true" /> : <LockOpen size={14} aria-hidden="true" />}
+                </button>
+                <NameField
+                  value={layer.name}
+                  label={`Name of ${layer.name}`}
+                  onRename={(name) => onChangeLayer(layer.id, { name })}
+                  onFocus={() => onActivateLayer(layer.id)}
+                />
+                <span className="text-xs text-slate-500" aria-label={`${layerTiles.length} tiles`}>{layerTiles.length}</span>
+              </div>
+
+              {(layerGroups.length > 0 || looseTiles.length > 0) && (
+                <ul className="ml-5 mt-1 space-y-0.5">
+                  {layerGroups.map(group => {
+                    const members = layerTiles.filter(tile => tile.groupId === group.id);
+                    const isSelected = members.every(tile => selectedIds.includes(tile.id));
+
+                    return (
+                      <li key={group.id} className="flex items-center gap-1">
+                        <button
+                          onClick={() => onSelectTiles(members.map(tile => tile.id))}
+                          disabled={!layer.visible || layer.locked}
+                          className={`${iconButton} ${isSelected ? 'text-amber-400' : ''}`}
+                          type="button"
+                          aria-label={`Select ${group.name}`}
+                          aria-pressed={isSelected}
+                        >
+                          <Group size={14} aria-hidden="true" />
+                        </button>
+                        <NameField value={group.name} label={`Name of ${group.name}`} onRename={(name) => onRenameGroup(group.id, name)} />
+                        <span className="text-xs text-slate-500" aria-label={`${members.length} tiles`}>{members.length}</span>
+                      </li>
+                    );
+                  })}
+                  {looseTiles.map(tile => (
+                    <li key={tile.id}>
+                      <button
+                        onClick={() => onSelectTiles([tile.id])}
+                        disabled={!layer.visible || layer.locked}
+                        className={`w-full flex items-center gap-2 px-1 py-0.5 rounded text-left text-xs hover:bg-slate-800 disabled:hover:bg-transparent focus:outline-none focus:ring-2 focus:ring-cyan-400 ${
+                          selectedIds.includes(tile.id) ? 'text-amber-400' : 'text-slate-300'
+                        }`}
+                        type="button"
+                        aria-pressed={selectedIds.includes(tile.id)}
+                      >
+                        <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: tile.color }} aria-hidden="true" />
+                        {getShape(tile.shape).name}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="flex gap-1" role="group" aria-label="Layer actions">
+        <button onClick={onAddLayer} className={iconButton} type="button" aria-label="Add layer" title="Add layer">
+          <Plus size={14} aria-hidden="true" />
+        </button>
+        <button
+          onClick={() => activeLayer && onMoveLayer(activeLayer.id, 1)}
+          disabled={!activeLayer || activeIndex === layers.length - 1}
+          className={iconButton}
+          type="button"
+          aria-label="Move active layer up"
+          title="Move layer up"
+        >
+          <ArrowUp size={14} aria-hidden="true" />
+        </button>
+        <button
+          onClick={() => activeLayer && onMoveLayer(activeLayer.id, -1)}
+          disabled={!activeLayer || activeIndex === 0}
+          className={iconButton}
+          type="button"
+          aria-label="Move active layer down"
+          title="Move layer down"
+        >
+          <ArrowDown size={14} aria-hidden="true" />
+        </button>
+        <button
+          onClick={() => activeLayer && onMoveSelectionToLayer(activeLayer.id)}
+          disabled={!activeLayer || selectedIds.length === 0}
+          className={iconButton}
+          type="button"
+          aria-label="Move selected tiles to the active layer"
+          title="Move selection to this layer"
+        >
+          <ArrowDownToLine size={14} aria-hidden="true" />
+        </button>
+        <button
+          onClick={() => activeLayer && onDeleteLayer(activeLayer.id)}
+          disabled={!activeLayer || layers.length <= 1}
+          className={`${iconButton} ml-auto`}
+          type="button"
+          aria-label="Delete active layer and its tiles"
+          title="Delete layer"
+        >
+          <Trash2 size={14} aria-hidden="true" />
+        </button>
+      </div>
+    </div>
+  );
+}
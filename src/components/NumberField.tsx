@@ -0,0 +1,49 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+
+interface NumberFieldProps {
+  value: number;
+  min?: number; // unbounded when left out
+  max?: number;
+  step: number;
+  onCommit: (value: number) => void;
+  className?: string;
+  'aria-label'?: string;
+}
+
+const DEFAULT_CLASS_NAME = 'w-16 px-2 py-1 rounded-md bg-slate-800 border border-slate-700 text-white focus:outline-none focus:ring-2 focus:ring-cyan-400';
+
+// Number input that only reports values inside its range, so typing "12"
+// doesn't pass through an out-of-range "1" first. Anything left out of
+// range is clamped when the field loses focus.
+export default function NumberField({ value, min = -Infinity, max = Infinity, step, onCommit, className = DEFAULT_CLASS_NAME, ...rest }: NumberFieldProps) {
+  const [draft, setDraft] = useState<string>(String(value));
+
+  useEffect(() => {
+    setDraft(String(value));
+  }, [value]);
+
+  return (
+    <input
+      type="number"
+      min={Number.isFinite(min) ? min : undefined}
+      max={Number.isFinite(max) ? max : undefined}
+      step={step}
+      value={draft}
+      onChange={(e) => {
+        setDraft(e.target.value);
+        const parsed = parseFloat(e.target.value);
+        if (parsed >= min && parsed <= max) onCommit(parsed);
+      }}
+      onBlur={() => {
+        const parsed = parseFloat(draft);
+        const clamped = Number.isFinite(parsed) ? Math.max(min, Math.min(max, parsed)) : value;
+        setDraft(String(clamped));
+        if (clamped !== value) onCommit(clamped);
+      }}
+      className={className}
+      {...rest}
+    />
+  );
+}
@@ -0,0 +1,335 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Plus, Trash2, Save, FileUp, Download, Sparkles, FolderOpen } from 'lucide-react';
+import ColorPicker from '@/components/ColorPicker';
+import { HARMONY_LABELS, HARMONY_RULES, generateHarmony } from '@/lib/color';
+import type { HarmonyRule } from '@/lib/color';
+import { downloadBlob } from '@/lib/download';
+import {
+  MAX_PALETTE_COLORS,
+  PALETTE_FORMATS,
+  PALETTE_FORMAT_LABELS,
+  PRESET_PALETTES,
+  getPaletteFileName,
+  parsePaletteFile,
+  serializePalette
+} from '@/lib/palettes';
+import type { PaletteFormat, PaletteImport } from '@/lib/palettes';
+import type { SavedPalette } from '@/lib/storage';
+import type { Palette } from '@/lib/types';
+
+interface PaletteDialogProps {
+  palette: Palette;
+  selectedColor: string;
+  savedPalettes: SavedPalette[];
+  storageError: string | null;
+  onApply: (palette: Palette, selectedColor: string) => void;
+  onSavePalette: (palette: Palette) => void;
+  onDeletePalette: (id: string) => void;
+  onClose: () => void;
+}
+
+const inputClassName = 'px-2 py-1 rounded-md bg-slate-800 border border-slate-700 text-white focus:outline-none focus:ring-2 focus:ring-cyan-400';
+const secondaryButtonClassName = 'px-3 py-1.5 bg-slate-800 hover:bg-slate-700 disabled:opacity-40 disabled:hover:bg-slate-800 focus:outline-none focus:ring-2 focus:ring-cyan-400 rounded-lg text-sm font-medium flex items-center gap-2';
+
+// Editing can briefly give two swatches the same color; they merge on save
+const withoutRepeats = (colors: string[]): string[] =>
+  colors.filter((color, index) => colors.indexOf(color) === index);
+
+// Small strip of a palette's first colors for the preset and saved lists
+const PaletteStrip = ({ colors }: { colors: string[] }) => (
+  <span className="flex h-4 flex-1 min-w-0 rounded overflow-hidden" aria-hidden="true">
+    {colors.slice(0, 16).map((color, index) => (
+      <span key={index} className="flex-1" style={{ backgroundColor: color }} />
+    ))}
+  </span>
+);
+
+// Edit the design's palette: its swatches, harmonies seeded from one color,
+// named palettes kept in the browser, and palette files
+export default function PaletteDialog({
+  palette,
+  selectedColor,
+  savedPalettes,
+  storageError,
+  onApply,
+  onSavePalette,
+  onDeletePalette,
+  onClose
+}: PaletteDialogProps) {
+  const [name, setName] = useState<string>(palette.name);
+  const [colors, setColors] = useState<string[]>(palette.colors);
+  const [activeIndex, setActiveIndex] = useState<number>(Math.max(0, palette.colors.indexOf(selectedColor)));
+  const [harmony, setHarmony] = useState<HarmonyRule>('complementary');
+  const [exportFormat, setExportFormat] = useState<PaletteFormat>('gpl');
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const nameInputRef = useRef<HTMLInputElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    nameInputRef.current?.focus();
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const activeColor = colors[activeIndex] ?? colors[0];
+  const draft = (): Palette => ({ name: name.trim() || 'Untitled', colors: withoutRepeats(colors) });
+
+  const load = (next: Palette) => {
+    setName(next.name);
+    setColors(next.colors);
+    setActiveIndex(0);
+  };
+
+  const importFile = async (file: File) => {
+    let result: PaletteImport;
+    try {
+      result = parsePaletteFile(file.name, await file.arrayBuffer());
+    } catch {
+      setMessage({ text: `${file.name} could not be read`, isError: true });
+      return;
+    }
+
+    if (!result.ok) {
+      setMessage({ text: `${file.name}: ${result.error}`, isError: true });
+      return;
+    }
+    load(result.palette);
+    setMessage({
+      text: `Imported ${result.palette.colors.length} colors from ${file.name}${result.skipped > 0 ? `, skipped ${result.skipped}` : ''}`,
+      isError: false
+    });
+  };
+
+  // Presets can only be loaded; saved palettes can also be deleted
+  const renderEntry = (entry: Palette, savedId: string | null) => (
+    <li key={savedId ?? `preset-${entry.name}`} className="flex items-center gap-1">
+      <button
+        onClick={() => load(entry)}
+        className="flex-1 min-w-0 flex items-center gap-2 p-1 bg-slate-800/50 border border-slate-700 rounded-lg hover:border-slate-500 focus:outline-none focus:ring-2 focus:ring-cyan-400 text-sm text-left"
+        type="button"
+        aria-label={`Load ${entry.name}`}
+      >
+        <FolderOpen size={14} className="shrink-0 text-slate-400" aria-hidden="true" />
+        <span className="w-28 truncate">{entry.name}</span>
+        <PaletteStrip colors={entry.colors} />
+      </button>
+      {savedId && (
+        <button
+          onClick={() => onDeletePalette(savedId)}
+          className="p-1.5 rounded-md text-slate-400 hover:text-white hover:bg-red-600 focus:outline-none focus:ring-2 focus:ring-red-400"
+          type="button"
+          aria-label={`Delete ${entry.name}`}
+        >
+          <Trash2 size={14} aria-hidden="true" />
+        </button>
+      )}
+    </li>
+  );
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <form
+        className="w-full max-w-lg max-h-[90vh] overflow-y-auto bg-slate-900 border border-slate-700 rounded-xl p-4 text-white space-y-4"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="palette-dialog-title"
+        onClick={(e) => e.stopPropagation()}
+        onSubmit={(e) => {
+          e.preventDefault();
+          onApply(draft(), activeColor);
+          onClose();
+        }}
+      >
+        <div className="flex justify-between items-center">
+          <h2 id="palette-dialog-title" className="text-lg font-semibold">Palette</h2>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg bg-slate-800 hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-cyan-400"
+            type="button"
+            aria-label="Close palette editor"
+          >
+            <X size={16} aria-hidden="true" />
+          </button>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-slate-300">
+          Name
+          <input
+            ref={nameInputRef}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className={`${inputClassName} flex-1`}
+          />
+        </label>
+
+        <div>
+          <div className="flex flex-wrap gap-2" role="radiogroup" aria-label="Palette colors">
+            {colors.map((color, index) => (
+              <button
+                key={index}
+                onClick={() => setActiveIndex(index)}
+                className={`w-7 h-7 rounded-full border-2 focus:outline-none focus:ring-2 focus:ring-cyan-400 ${
+                  index === activeIndex ? 'border-white scale-110' : 'border-slate-700'
+                }`}
+                style={{ backgroundColor: color }}
+                type="button"
+                role="radio"
+                aria-checked={index === activeIndex}
+                aria-label={`Color ${index + 1} of ${colors.length}, ${color}`}
+              />
+            ))}
+          </div>
+          <div className="mt-2 flex gap-2">
+            <button
+              onClick={() => {
+                setColors(prev => [...prev, activeColor]);
+                setActiveIndex(colors.length);
+              }}
+              className={secondaryButtonClassName}
+              type="button"
+              disabled={colors.length >= MAX_PALETTE_COLORS}
+            >
+              <Plus size={14} aria-hidden="true" />
+              Add color
+            </button>
+            <button
+              onClick={() => {
+                setColors(prev => prev.filter((_, index) => index !== activeIndex));
+                setActiveIndex(Math.max(0, activeIndex - 1));
+              }}
+              className={secondaryButtonClassName}
+              type="button"
+              disabled={colors.length <= 1}
+              aria-label={`Remove ${activeColor}`}
+            >
+              <Trash2 size={14} aria-hidden="true" />
+              Remove
+            </button>
+          </div>
+        </div>
+
+        <ColorPicker
+          color={activeColor}
+          onChange={(color) => setColors(prev => prev.map((c, index) => index === activeIndex ? color : c))}
+          label={`Color ${activeIndex + 1}`}
+        />
+
+        <div className="flex items-center gap-2 text-sm text-slate-300">
+          <label className="flex items-center gap-2">
+            Harmony
+            <select
+              value={harmony}
+              onChange={(e) => setHarmony(e.target.value as HarmonyRule)}
+              className={inputClassName}
+            >
+              {HARMONY_RULES.map(rule => (
+                <option key={rule} value={rule}>{HARMONY_LABELS[rule]}</option>
+              ))}
+            </select>
+          </label>
+          <button
+            onClick={() => {
+              const generated = generateHarmony(activeColor, harmony);
+              setColors(generated);
+              setActiveIndex(Math.max(0, generated.indexOf(activeColor)));
+            }}
+            className={secondaryButtonClassName}
+            type="button"
+            aria-label={`Replace the colors with a ${HARMONY_LABELS[harmony].toLowerCase()} palette from ${activeColor}`}
+          >
+            <Sparkles size={14} aria-hidden="true" />
+            Generate
+          </button>
+        </div>
+
+        <section aria-labelledby="palette-library-title">
+          <h3 id="palette-library-title" className="text-sm text-slate-300 mb-1">Palettes</h3>
+          <ul className="space-y-1 max-h-48 overflow-y-auto">
+            {PRESET_PALETTES.map(preset => renderEntry(preset, null))}
+            {savedPalettes.map(saved => renderEntry(saved, saved.id))}
+          </ul>
+          <div className="mt-2 flex flex-wrap items-center gap-2">
+            <button
+              onClick={() => {
+                const next = draft();
+                onSavePalette(next);
+                setMessage({ text: `Saved palette ${next.name}`, isError: false });
+              }}
+              className={secondaryButtonClassName}
+              type="button"
+            >
+              <Save size={14} aria-hidden="true" />
+              Save to My Palettes
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className={secondaryButtonClassName}
+              type="button"
+            >
+              <FileUp size={14} aria-hidden="true" />
+              Import…
+            </button>
+            <select
+              value={exportFormat}
+              onChange={(e) => setExportFormat(e.target.value as PaletteFormat)}
+              className={`${inputClassName} text-sm`}
+              aria-label="Export format"
+            >
+              {PALETTE_FORMATS.map(format => (
+                <option key={format} value={format}>{PALETTE_FORMAT_LABELS[format]}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => {
+                const next = draft();
+                downloadBlob(serializePalette(next, exportFormat), getPaletteFileName(next, exportFormat));
+              }}
+              className={secondaryButtonClassName}
+              type="button"
+            >
+              <Download size={14} aria-hidden="true" />
+              Export
+            </button>
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".gpl,.ase,.json,application/json"
+            className="hidden"
+            aria-hidden="true"
+            tabIndex={-1}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importFile(file);
+              // Allow the same file to be picked again
+              e.target.value = '';
+            }}
+          />
+        </section>
+
+        {(message || storageError) && (
+          <p className={`text-sm ${message?.isError || storageError ? 'text-rose-400' : 'text-slate-400'}`} role="status">
+            {storageError ?? message?.text}
+          </p>
+        )}
+
+        <button
+          className="w-full px-3 py-2 bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-700 hover:to-indigo-700 focus:outline-none focus:ring-2 focus:ring-purple-400 rounded-lg font-medium"
+          type="submit"
+        >
+          Use Palette
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { X, ImageDown } from 'lucide-react';
+import { BASE_DPI, MAX_RASTER_SIDE } from '@/lib/rasterExport';
+import type { RasterExportOptions, RasterFormat } from '@/lib/rasterExport';
+
+interface RasterExportDialogProps {
+  baseWidth: number;
+  baseHeight: number;
+  onExport: (options: RasterExportOptions) => Promise<void>;
+  onClose: () => void;
+}
+
+const SCALE_PRESETS: readonly number[] = [1, 2, 4, 8];
+
+export default function RasterExportDialog({ baseWidth, baseHeight, onExport, onClose }: RasterExportDialogProps) {
+  const [format, setFormat] = useState<RasterFormat>('png');
+  const [scale, setScale] = useState<number>(2);
+  const [includeGrid, setIncludeGrid] = useState<boolean>(false);
+  const [transparent, setTransparent] = useState<boolean>(true);
+  const [backgroundColor, setBackgroundColor] = useState<string>('#0f172a');
+  const [quality, setQuality] = useState<number>(0.92);
+  const [exporting, setExporting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const formatSelectRef = useRef<HTMLSelectElement>(null);
+
+  useEffect(() => {
+    formatSelectRef.current?.focus();
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const width = Math.round(baseWidth * scale);
+  const height = Math.round(baseHeight * scale);
+  const tooLarge = width > MAX_RASTER_SIDE || height > MAX_RASTER_SIDE;
+  const dpi = Math.round(scale * BASE_DPI);
+  // JPEG cannot store transparency
+  const isTransparent = transparent && format === 'png';
+
+  const submit = async () => {
+    setExporting(true);
+    setError(null);
+    try {
+      await onExport({
+        format,
+        scale,
+        dpi,
+        includeGrid,
+        background: isTransparent ? null : backgroundColor,
+        quality
+      });
+      onClose();
+    } catch (exportError) {
+      setError(exportError instanceof Error ? exportError.message : 'Export failed');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const inputClassName = 'px-2 py-1 rounded-md bg-slate-800 border border-slate-700 text-white focus:outline-none focus:ring-2 focus:ring-cyan-400';
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <form
+        className="w-full max-w-md bg-slate-900 border border-slate-700 rounded-xl p-4 text-white space-y-4"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="raster-export-title"
+        onClick={(e) => e.stopPropagation()}
+        onSubmit={(e) => {
+          e.preventDefault();
+          submit();
+        }}
+      >
+        <div className="flex justify-between items-center">
+          <h2 id="raster-export-title" className="text-lg font-semibold">Export Image</h2>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg bg-slate-800 hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-cyan-400"
+            type="button"
+            aria-label="Close image export"
+          >
+            <X size={16} aria-hidden="true" />
+          </button>
+        </div>
+
+        <div className="flex items-center justify-between gap-2">
+          <label htmlFor="raster-format" className="text-sm text-slate-300">Format</label>
+          <select
+            ref={formatSelectRef}
+            id="raster-format"
+            value={format}
+            onChange={(e) => setFormat(e.target.value as RasterFormat)}
+            className={inputClassName}
+          >
+            <option value="png">PNG</option>
+            <option value="jpeg">JPEG</option>
+          </select>
+        </div>
+
+        <fieldset className="space-y-2">
+          <legend className="text-sm text-slate-300 mb-1">Resolution</legend>
+          <div className="flex gap-2" role="group" aria-label="Scale presets">
+            {SCALE_PRESETS.map(preset => (
+              <button
+                key={preset}
+                onClick={() => setScale(preset)}
+                className={`px-3 py-1 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-cyan-400 ${
+                  scale === preset ? 'bg-purple-600 text-white' : 'bg-slate-800 text-slate-300 hover:bg-slate-700'
+                }`}
+                type="button"
+                aria-pressed={scale === preset}
+              >
+                {preset}×
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-4">
+            <label className="flex items-center gap-2 text-sm">
+              Scale
+              <input
+                type="number"
+                min={0.1}
+                step={0.1}
+                value={scale}
+                onChange={(e) => {
+                  const value = parseFloat(e.target.value);
+                  if (value > 0) setScale(value);
+                }}
+                className={`${inputClassName} w-20`}
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm">
+              DPI
+              <input
+                type="number"
+                min={10}
+                step={1}
+                value={dpi}
+                onChange={(e) => {
+                  const value = parseFloat(e.target.value);
+                  if (value > 0) setScale(value / BASE_DPI);
+                }}
+                className={`${inputClassName} w-20`}
+              />
+            </label>
+          </div>
+          <p className={`text-xs ${tooLarge ? 'text-rose-400' : 'text-slate-400'}`} aria-live="polite">
+            {width} × {height} px
+            {tooLarge && ` — too large, the maximum side is ${MAX_RASTER_SIDE}px`}
+          </p>
+        </fieldset>
+
+        <fieldset className="space-y-2">
+          <legend className="text-sm text-slate-300 mb-1">Background</legend>
+          <label className={`flex items-center gap-2 text-sm ${format === 'jpeg' ? 'opacity-50' : ''}`}>
+            <input
+              type="radio"
+              name="raster-background"
+              checked={isTransparent}
+              disabled={format === 'jpeg'}
+              onChange={() => setTransparent(true)}
+            />
+            Transparent
+          </label>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="radio"
+              name="raster-background"
+              checked={!isTransparent}
+              onChange={() => setTransparent(false)}
+            />
+            Solid
+            <input
+              type="color"
+              value={backgroundColor}
+              onChange={(e) => {
+                setBackgroundColor(e.target.value);
+                setTransparent(false);
+              }}
+              className="w-8 h-6 bg-transparent"
+              aria-label="Background color"
+            />
+          </label>
+        </fieldset>
+
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={includeGrid}
+            onChange={(e) => setIncludeGrid(e.target.checked)}
+          />
+          Include grid
+        </label>
+
+        {format === 'jpeg' && (
+          <label className="flex items-center justify-between gap-2 text-sm">
+            Quality
+            <input
+              type="range"
+              min={0.5}
+              max={1}
+              step={0.01}
+              value={quality}
+              onChange={(e) => setQuality(parseFloat(e.target.value))}
+              className="flex-1"
+            />
+            <span className="w-10 text-right">{Math.round(quality * 100)}%</span>
+          </label>
+        )}
+
+        {error && <p className="text-sm text-rose-400" role="alert">{error}</p>}
+
+        <button
+          className="w-full px-3 py-2 bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-700 hover:to-indigo-700 focus:outline-none focus:ring-2 focus:ring-purple-400 rounded-lg font-medium flex items-center justify-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed"
+          type="submit"
+          disabled={exporting || tooLarge}
+        >
+          <ImageDown size={16} aria-hidden="true" />
+          {exporting ? 'Exporting…' : `Export ${format.toUpperCase()}`}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,371 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Save, Trash2 } from 'lucide-react';
+import NumberField from '@/components/NumberField';
+import { SHAPES, centerOutline, getShapeOutline, isSimpleOutline, weldCoordinate } from '@/lib/shapes';
+import { SHAPE_TYPES } from '@/lib/types';
+import type { CustomShape, Point, ShapeType } from '@/lib/types';
+
+interface ShapeEditorDialogProps {
+  shape: CustomShape | null; // the shape to edit, or null to draw a new one
+  defaultName: string;
+  defaultColor: string;
+  onSave: (shape: Pick<CustomShape, 'name' | 'color' | 'vertices'>) => void;
+  onClose: () => void;
+}
+
+// Drawing area in canvas units around the shape's center, with grid lines
+// every 10 units and a stronger one every edge length
+const EDITOR_SIZE = 240;
+const HALF = EDITOR_SIZE / 2;
+const GRID_LINES = Array.from({ length: EDITOR_SIZE / 10 + 1 }, (_, i) => i * 10 - HALF);
+
+const round = (value: number, places = 1): number => Math.round(value * 10 ** places) / 10 ** places;
+
+const signedArea = (points: Point[]): number =>
+  points.reduce((sum, point, i) => {
+    const next = points[(i + 1) % points.length];
+    return sum + point.x * next.y - next.x * point.y;
+  }, 0) / 2;
+
+const sideLength = (points: Point[], index: number): number => {
+  const start = points[index];
+  const end = points[(index + 1) % points.length];
+  return Math.hypot(end.x - start.x, end.y - start.y);
+};
+
+// Inside angle at a corner in degrees, whichever way the outline runs
+const cornerAngle = (points: Point[], index: number): number => {
+  const corner = points[index];
+  const previous = points[(index + points.length - 1) % points.length];
+  const next = points[(index + 1) % points.length];
+  const u = { x: next.x - corner.x, y: next.y - corner.y };
+  const v = { x: previous.x - corner.x, y: previous.y - corner.y };
+  const turn = Math.atan2(u.x * v.y - u.y * v.x, u.x * v.x + u.y * v.y) * 180 / Math.PI;
+  const angle = signedArea(points) >= 0 ? turn : -turn;
+  return ((angle % 360) + 360) % 360;
+};
+
+// Turn the corners after index about it by the given degrees
+const turnAfter = (points: Point[], index: number, degrees: number): Point[] => {
+  const pivot = points[index];
+  const cos = Math.cos(degrees * Math.PI / 180);
+  const sin = Math.sin(degrees * Math.PI / 180);
+  return points.map((point, i) => i <= index ? point : {
+    x: pivot.x + (point.x - pivot.x) * cos - (point.y - pivot.y) * sin,
+    y: pivot.y + (point.x - pivot.x) * sin + (point.y - pivot.y) * cos
+  });
+};
+
+// Draw a polygon by placing corners, drag them into place, or type exact
+// side lengths and corner angles. A length or angle change moves every
+// later corner with it, so the last side closes the outline.
+export default function ShapeEditorDialog({ shape, defaultName, defaultColor, onSave, onClose }: ShapeEditorDialogProps) {
+  const [name, setName] = useState<string>(shape?.name ?? defaultName);
+  const [color, setColor] = useState<string>(shape?.color ?? defaultColor);
+  const [vertices, setVertices] = useState<Point[]>(shape?.vertices ?? []);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const nameInputRef = useRef<HTMLInputElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  useEffect(() => {
+    nameInputRef.current?.focus();
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const isValid = isSimpleOutline(vertices);
+  const count = vertices.length;
+
+  // Pointer position in drawing units, rounded to whole units
+  const toLocal = (e: React.PointerEvent): Point | null => {
+    const matrix = svgRef.current?.getScreenCTM();
+    if (!matrix) return null;
+    const point = new DOMPoint(e.clientX, e.clientY).matrixTransform(matrix.inverse());
+    return {
+      x: Math.max(-HALF, Math.min(HALF, Math.round(point.x))),
+      y: Math.max(-HALF, Math.min(HALF, Math.round(point.y)))
+    };
+  };
+
+  // A new corner goes after the selected one, or at the end
+  const addVertex = (e: React.PointerEvent<SVGRectElement>) => {
+    const point = toLocal(e);
+    if (!point) return;
+    const index = selected === null ? count : selected + 1;
+    setVertices(prev => [...prev.slice(0, index), point, ...prev.slice(index)]);
+    setSelected(index);
+  };
+
+  const moveVertex = (index: number, point: Point) =>
+    setVertices(prev => prev.map((vertex, i) => i === index ? point : vertex));
+
+  const removeVertex = (index: number) => {
+    setVertices(prev => prev.filter((_, i) => i !== index));
+    setSelected(count > 1 ? Math.min(index, count - 2) : null);
+  };
+
+  const handleVertexKeyDown = (e: React.KeyboardEvent, index: number) => {
+    const step = e.shiftKey ? 10 : 1;
+    const moves: Record<string, Point> = {
+      ArrowLeft: { x: -step, y: 0 },
+      ArrowRight: { x: step, y: 0 },
+      ArrowUp: { x: 0, y: -step },
+      ArrowDown: { x: 0, y: step }
+    };
+    if (moves[e.key]) {
+      e.preventDefault();
+      const { x, y } = vertices[index];
+      moveVertex(index, { x: x + moves[e.key].x, y: y + moves[e.key].y });
+    } else if (e.key === 'Delete' || e.key === 'Backspace') {
+      e.preventDefault();
+      removeVertex(index);
+    }
+  };
+
+  // Stretch a side by moving its far corner, and every corner after it, along the side
+  const setSideLength = (index: number, length: number) => {
+    const current = sideLength(vertices, index);
+    if (current === 0) return;
+    const start = vertices[index];
+    const end = vertices[index + 1];
+    const dx = (end.x - start.x) * (length / current - 1);
+    const dy = (end.y - start.y) * (length / current - 1);
+    setVertices(prev => prev.map((point, i) => i <= index ? point : { x: point.x + dx, y: point.y + dy }));
+  };
+
+  const setCornerAngle = (index: number, angle: number) => {
+    const current = cornerAngle(vertices, index);
+    const degrees = signedArea(vertices) >= 0 ? current - angle : angle - current;
+    setVertices(prev => turnAfter(prev, index, degrees));
+  };
+
+  const startFrom = (value: string) => {
+    if (!value) return;
+    setVertices(getShapeOutline(value as ShapeType));
+    setSelected(null);
+  };
+
+  const inputClassName = 'px-2 py-1 rounded-md bg-slate-800 border border-slate-700 text-white focus:outline-none focus:ring-2 focus:ring-cyan-400';
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <form
+        className="w-full max-w-lg max-h-[90vh] overflow-y-auto bg-slate-900 border border-slate-700 rounded-xl p-4 text-white space-y-4"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="shape-editor-title"
+        onClick={(e) => e.stopPropagation()}
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (!isValid) return;
+          onSave({
+            name: name.trim() || defaultName,
+            color,
+            vertices: centerOutline(vertices).map(({ x, y }) => ({ x: weldCoordinate(x), y: weldCoordinate(y) }))
+          });
+          onClose();
+        }}
+      >
+        <div className="flex justify-between items-center">
+          <h2 id="shape-editor-title" className="text-lg font-semibold">{shape ? `Edit ${shape.name}` : 'New shape'}</h2>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg bg-slate-800 hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-cyan-400"
+            type="button"
+            aria-label="Close shape editor"
+          >
+            <X size={16} aria-hidden="true" />
+          </button>
+        </div>
+
+        <div className="flex gap-3">
+          <label className="block text-sm flex-1">
+            <span className="block text-slate-300 mb-1">Name</span>
+            <input
+              ref={nameInputRef}
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className={`${inputClassName} w-full`}
+            />
+          </label>
+          <label className="block text-sm">
+            <span className="block text-slate-300 mb-1">Swatch</span>
+            <input
+              type="color"
+              value={color}
+              onChange={(e) => setColor(e.target.value)}
+              className="h-8 w-12 rounded-md bg-slate-800 border border-slate-700"
+            />
+          </label>
+        </div>
+
+        <label className="block text-sm">
+          <span className="block text-slate-300 mb-1">Start from</span>
+          <select
+            value=""
+            onChange={(e) => startFrom(e.target.value)}
+            className={`${inputClassName} w-full`}
+          >
+            <option value="">Choose a shape to copy…</option>
+            {SHAPE_TYPES.map(type => (
+              <option key={type} value={type}>{SHAPES[type].name}</option>
+            ))}
+          </select>
+        </label>
+
+        <svg
+          ref={svgRef}
+          width="100%"
+          viewBox={`${-HALF} ${-HALF} ${EDITOR_SIZE} ${EDITOR_SIZE}`}
+          className="rounded-lg bg-slate-950 border border-slate-800 touch-none select-none"
+          onPointerMove={(e) => {
+            if (dragIndex === null) return;
+            const point = toLocal(e);
+            if (point) moveVertex(dragIndex, point);
+          }}
+          onPointerUp={() => setDragIndex(null)}
+          onPointerCancel={() => setDragIndex(null)}
+          aria-label="Shape outline. Click to place a corner after the selected one; drag corners to move them."
+        >
+          <rect
+            x={-HALF}
+            y={-HALF}
+            width={EDITOR_SIZE}
+            height={EDITOR_SIZE}
+            fill="transparent"
+            className="cursor-crosshair"
+            onPointerDown={addVertex}
+          />
+          {GRID_LINES.map(offset => (
+            <g key={offset} stroke={offset % 50 === 0 ? 'rgba(148, 163, 184, 0.35)' : 'rgba(148, 163, 184, 0.12)'} strokeWidth="0.5" pointerEvents="none">
+              <line x1={offset} y1={-HALF} x2={offset} y2={HALF} />
+              <line x1={-HALF} y1={offset} x2={HALF} y2={offset} />
+            </g>
+          ))}
+          {count >= 2 && (
+            <polygon
+              points={vertices.map(({ x, y }) => `${x},${y}`).join(' ')}
+              fill={count >= 3 ? color : 'none'}
+              fillOpacity="0.6"
+              stroke={isValid || count < 3 ? 'white' : '#ef4444'}
+              strokeWidth="1"
+              strokeLinejoin="round"
+              pointerEvents="none"
+            />
+          )}
+          {vertices.map((vertex, index) => (
+            <circle
+              key={index}
+              cx={vertex.x}
+              cy={vertex.y}
+              r={index === selected ? 5 : 4}
+              fill={index === selected ? '#22d3ee' : '#e2e8f0'}
+              stroke="#0f172a"
+              strokeWidth="1"
+              tabIndex={0}
+              role="button"
+              aria-label={`Corner ${index + 1} at ${round(vertex.x)}, ${round(vertex.y)}. Arrow keys move it, Delete removes it.`}
+              className="cursor-move focus:outline-none"
+              onPointerDown={(e) => {
+                e.currentTarget.ownerSVGElement?.setPointerCapture(e.pointerId);
+                setSelected(index);
+                setDragIndex(index);
+              }}
+              onFocus={() => setSelected(index)}
+              onKeyDown={(e) => handleVertexKeyDown(e, index)}
+            />
+          ))}
+        </svg>
+
+        <p className={`text-sm ${isValid || count < 3 ? 'text-slate-400' : 'text-red-400'}`} role="status">
+          {count < 3
+            ? `Click to place corners (${count} of at least 3)`
+            : isValid
+              ? `${count} corners, area ${Math.round(Math.abs(signedArea(vertices)))} square units`
+              : 'Sides cross or touch; move a corner to untangle the outline'}
+        </p>
+
+        {count >= 3 && (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-slate-400 text-left">
+                <th className="font-normal pb-1">Corner</th>
+                <th className="font-normal pb-1">Angle°</th>
+                <th className="font-normal pb-1">Side to next</th>
+                <th className="sr-only">Remove</th>
+              </tr>
+            </thead>
+            <tbody>
+              {vertices.map((_, index) => {
+                // The first corner anchors the outline and the last side
+                // closes it, so those follow from the rest
+                const isClosing = index === count - 1;
+                const angleIsFree = index > 0 && index < count - 1;
+                return (
+                  <tr key={index} className={index === selected ? 'text-cyan-300' : 'text-slate-200'}>
+                    <td className="py-0.5">{index + 1}</td>
+                    <td className="py-0.5">
+                      {angleIsFree ? (
+                        <NumberField
+                          value={round(cornerAngle(vertices, index))}
+                          min={1}
+                          max={359}
+                          step={1}
+                          onCommit={(value) => setCornerAngle(index, value)}
+                          aria-label={`Angle at corner ${index + 1} in degrees`}
+                        />
+                      ) : round(cornerAngle(vertices, index))}
+                    </td>
+                    <td className="py-0.5">
+                      {isClosing ? round(sideLength(vertices, index)) : (
+                        <NumberField
+                          value={round(sideLength(vertices, index))}
+                          min={1}
+                          max={EDITOR_SIZE}
+                          step={0.1}
+                          onCommit={(value) => setSideLength(index, value)}
+                          aria-label={`Length of the side from corner ${index + 1} to ${index + 2}`}
+                        />
+                      )}
+                    </td>
+                    <td className="py-0.5 text-right">
+                      <button
+                        onClick={() => removeVertex(index)}
+                        className="p-1 rounded-md text-slate-400 hover:text-white hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-cyan-400"
+                        type="button"
+                        aria-label={`Remove corner ${index + 1}`}
+                      >
+                        <Trash2 size={14} aria-hidden="true" />
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+
+        <button
+          className="w-full px-3 py-2 bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-700 hover:to-indigo-700 focus:outline-none focus:ring-2 focus:ring-purple-400 rounded-lg font-medium flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          type="submit"
+          disabled={!isValid}
+        >
+          <Save size={16} aria-hidden="true" />
+          {shape ? 'Save shape' : 'Add to palette'}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+'use client';
+
+import React from 'react';
+import { PenTool, Pencil, Trash2 } from 'lucide-react';
+import { SHAPES, SHAPE_CATEGORIES, getShape, getShapeRadius } from '@/lib/shapes';
+import type { ShapeCategory } from '@/lib/shapes';
+import { SHAPE_TYPES } from '@/lib/types';
+import type { CustomShape, CustomShapeId, ShapeId } from '@/lib/types';
+
+interface ShapePaletteProps {
+  customShapes: CustomShape[];
+  onAdd: (shape: ShapeId) => void;
+  onCreate: () => void;
+  onEdit: (id: CustomShapeId) => void;
+  onDelete: (id: CustomShapeId) => void;
+}
+
+// Buttons share one frame sized for the smaller shapes and zoom out for
+// larger ones, so the common shapes keep their relative sizes
+const previewBox = (shape: ShapeId): string => {
+  const radius = Math.max(50, Math.ceil(getShapeRadius(shape)));
+  return `${-radius} ${-radius} ${radius * 2} ${radius * 2}`;
+};
+
+const BUILT_IN_CATEGORIES = (Object.keys(SHAPE_CATEGORIES) as ShapeCategory[]).filter(category => category !== 'custom');
+
+// Shape library buttons, grouped by category, then the design's own shapes
+export default function ShapePalette({ customShapes, onAdd, onCreate, onEdit, onDelete }: ShapePaletteProps) {
+  return (
+    <div className="space-y-3">
+      {BUILT_IN_CATEGORIES.map(category => (
+        <div key={category}>
+          <h3 className="text-xs text-slate-400 mb-1">{SHAPE_CATEGORIES[category]}</h3>
+          <div className="grid grid-cols-3 gap-2" role="group" aria-label={SHAPE_CATEGORIES[category]}>
+            {SHAPE_TYPES.filter(shape => SHAPES[shape].category === category).map(shape => (
+              <button
+                key={shape}
+                onClick={() => onAdd(shape)}
+                className="aspect-square w-full bg-slate-800/50 border border-slate-700 rounded-lg hover:border-slate-500 focus:outline-none focus:ring-2 focus:ring-cyan-400 transition-all duration-200 hover:scale-105 flex items-center justify-center"
+                type="button"
+                title={SHAPES[shape].name}
+                aria-label={`Add ${SHAPES[shape].name} to canvas`}
+              >
+                <svg width="40" height="40" viewBox={previewBox(shape)} aria-hidden="true">
+                  <path
+                    d={SHAPES[shape].path}
+                    fill={SHAPES[shape].color}
+                    opacity="0.9"
+                  />
+                </svg>
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <div>
+        <h3 className="text-xs text-slate-400 mb-1">{SHAPE_CATEGORIES.custom}</h3>
+        {customShapes.length > 0 && (
+          <ul className="space-y-1 mb-2" aria-label={SHAPE_CATEGORIES.custom}>
+            {customShapes.map(({ id, name }) => (
+              <li key={id} className="flex items-center gap-1">
+                <button
+                  onClick={() => onAdd(id)}
+                  className="flex-1 min-w-0 flex items-center gap-2 p-1 bg-slate-800/50 border border-slate-700 rounded-lg hover:border-slate-500 focus:outline-none focus:ring-2 focus:ring-cyan-400 text-sm text-left"
+                  type="button"
+                  aria-label={`Add ${name} to canvas`}
+                >
+                  <svg width="28" height="28" viewBox={previewBox(id)} className="shrink-0" aria-hidden="true">
+                    <path d={getShape(id).path} fill={getShape(id).color} opacity="0.9" />
+                  </svg>
+                  <span className="truncate">{name}</span>
+                </button>
+                <button
+                  onClick={() => onEdit(id)}
+                  className="p-1.5 rounded-md text-slate-400 hover:text-white hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-cyan-400"
+                  type="button"
+                  aria-haspopup="dialog"
+                  aria-label={`Edit ${name}`}
+                >
+                  <Pencil size={14} aria-hidden="true" />
+                </button>
+                <button
+                  onClick={() => onDelete(id)}
+                  className="p-1.5 rounded-md text-slate-400 hover:text-white hover:bg-red-600 focus:outline-none focus:ring-2 focus:ring-red-400"
+                  type="button"
+                  aria-label={`Delete ${name} and its tiles`}
+                >
+                  <Trash2 size={14} aria-hidden="true" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <button
+          onClick={onCreate}
+          className="w-full px-3 py-2 bg-slate-800 text-slate-300 hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-cyan-400 rounded-lg font-medium transition-all duration-200 flex items-center gap-2"
+          type="button"
+          aria-haspopup="dialog"
+        >
+          <PenTool size={16} aria-hidden="true" />
+          New Shape…
+        </button>
+      </div>
+    </div>
+  );
+}
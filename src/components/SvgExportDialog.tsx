@@ -0,0 +1,213 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Download } from 'lucide-react';
+import { DEFAULT_SVG_EXPORT_OPTIONS } from '@/lib/svgExport';
+import type { SvgExportOptions, SvgExportSettings } from '@/lib/svgExport';
+
+interface SvgExportDialogProps {
+  defaultTitle: string;
+  hasWallpaper: boolean; // offer the <pattern> export
+  onExport: (options: SvgExportSettings) => void;
+  onClose: () => void;
+}
+
+export default function SvgExportDialog({ defaultTitle, hasWallpaper, onExport, onClose }: SvgExportDialogProps) {
+  const defaults = DEFAULT_SVG_EXPORT_OPTIONS;
+  const [viewBox, setViewBox] = useState<SvgExportOptions['viewBox']>(defaults.viewBox);
+  const [padding, setPadding] = useState<number>(defaults.padding);
+  const [includeStroke, setIncludeStroke] = useState<boolean>(defaults.stroke !== null);
+  const [strokeColor, setStrokeColor] = useState<string>(defaults.stroke?.color ?? '#ffffff');
+  const [strokeWidth, setStrokeWidth] = useState<number>(defaults.stroke?.width ?? 1);
+  const [includeBackground, setIncludeBackground] = useState<boolean>(defaults.background !== null);
+  const [backgroundColor, setBackgroundColor] = useState<string>(defaults.background ?? '#0f172a');
+  const [repeat, setRepeat] = useState<SvgExportOptions['repeat']>(defaults.repeat);
+  const [title, setTitle] = useState<string>(defaultTitle);
+  const [description, setDescription] = useState<string>('');
+  const titleInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    titleInputRef.current?.focus();
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const inputClassName = 'px-2 py-1 rounded-md bg-slate-800 border border-slate-700 text-white focus:outline-none focus:ring-2 focus:ring-cyan-400';
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <form
+        className="w-full max-w-md max-h-[90vh] overflow-y-auto bg-slate-900 border border-slate-700 rounded-xl p-4 text-white space-y-4"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="svg-export-title"
+        onClick={(e) => e.stopPropagation()}
+        onSubmit={(e) => {
+          e.preventDefault();
+          onExport({
+            viewBox,
+            padding,
+            stroke: includeStroke ? { color: strokeColor, width: strokeWidth } : null,
+            background: includeBackground ? backgroundColor : null,
+            repeat: hasWallpaper ? repeat : 'tiles',
+            title: title.trim() || 'Tessellation',
+            description: description.trim()
+          });
+          onClose();
+        }}
+      >
+        <div className="flex justify-between items-center">
+          <h2 id="svg-export-title" className="text-lg font-semibold">Export SVG</h2>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg bg-slate-800 hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-cyan-400"
+            type="button"
+            aria-label="Close SVG export"
+          >
+            <X size={16} aria-hidden="true" />
+          </button>
+        </div>
+
+        <label className="block text-sm">
+          <span className="block text-slate-300 mb-1">Title</span>
+          <input
+            ref={titleInputRef}
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            className={`${inputClassName} w-full`}
+          />
+        </label>
+
+        <label className="block text-sm">
+          <span className="block text-slate-300 mb-1">Description</span>
+          <textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            rows={2}
+            className={`${inputClassName} w-full`}
+          />
+        </label>
+
+        <fieldset className="space-y-2">
+          <legend className="text-sm text-slate-300 mb-1">Bounds</legend>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="radio"
+              name="svg-viewbox"
+              checked={viewBox === 'tight'}
+              onChange={() => setViewBox('tight')}
+            />
+            Fit to tiles
+            <input
+              type="number"
+              min={0}
+              value={padding}
+              onChange={(e) => setPadding(Math.max(0, parseFloat(e.target.value) || 0))}
+              disabled={viewBox !== 'tight'}
+              className={`${inputClassName} w-16 disabled:opacity-50`}
+              aria-label="Padding around tiles"
+            />
+            padding
+          </label>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="radio"
+              name="svg-viewbox"
+              checked={viewBox === 'canvas'}
+              onChange={() => setViewBox('canvas')}
+            />
+            Visible area
+          </label>
+        </fieldset>
+
+        {hasWallpaper && (
+          <fieldset className="space-y-2">
+            <legend className="text-sm text-slate-300 mb-1">Wallpaper repeat</legend>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="radio"
+                name="svg-repeat"
+                checked={repeat === 'tiles'}
+                onChange={() => setRepeat('tiles')}
+              />
+              Every copy as a tile
+            </label>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="radio"
+                name="svg-repeat"
+                checked={repeat === 'pattern'}
+                onChange={() => setRepeat('pattern')}
+              />
+              Repeating unit as an SVG &lt;pattern&gt;
+            </label>
+          </fieldset>
+        )}
+
+        <div className="flex items-center gap-2 text-sm">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={includeStroke}
+              onChange={(e) => setIncludeStroke(e.target.checked)}
+            />
+            Outline
+          </label>
+          <input
+            type="color"
+            value={strokeColor}
+            onChange={(e) => setStrokeColor(e.target.value)}
+            disabled={!includeStroke}
+            className="w-8 h-6 bg-transparent disabled:opacity-50"
+            aria-label="Outline color"
+          />
+          <input
+            type="number"
+            min={0.1}
+            step={0.1}
+            value={strokeWidth}
+            onChange={(e) => setStrokeWidth(Math.max(0.1, parseFloat(e.target.value) || 0.1))}
+            disabled={!includeStroke}
+            className={`${inputClassName} w-16 disabled:opacity-50`}
+            aria-label="Outline width"
+          />
+        </div>
+
+        <div className="flex items-center gap-2 text-sm">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={includeBackground}
+              onChange={(e) => setIncludeBackground(e.target.checked)}
+            />
+            Background
+          </label>
+          <input
+            type="color"
+            value={backgroundColor}
+            onChange={(e) => setBackgroundColor(e.target.value)}
+            disabled={!includeBackground}
+            className="w-8 h-6 bg-transparent disabled:opacity-50"
+            aria-label="Background color"
+          />
+        </div>
+
+        <button
+          className="w-full px-3 py-2 bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-700 hover:to-indigo-700 focus:outline-none focus:ring-2 focus:ring-purple-400 rounded-lg font-medium flex items-center justify-center gap-2"
+          type="submit"
+        >
+          <Download size={16} aria-hidden="true" />
+          Export SVG
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+'use client';
+
+import React from 'react';
+import { Crosshair } from 'lucide-react';
+import NumberField from '@/components/NumberField';
+import { DEFAULT_SYMMETRY_CENTER, MAX_SYMMETRY_ORDER, MIN_SYMMETRY_ORDER, SYMMETRY_ORDER_PRESETS } from '@/lib/symmetry';
+import {
+  MAX_CELL_SIZE,
+  MAX_LATTICE_ANGLE,
+  MIN_CELL_SIZE,
+  MIN_LATTICE_ANGLE,
+  WALLPAPER_GROUP_INFO
+} from '@/lib/wallpaper';
+import type { LatticeType } from '@/lib/wallpaper';
+import { WALLPAPER_GROUPS } from '@/lib/types';
+import type { Point, SymmetrySettings, WallpaperGroup, WallpaperSettings } from '@/lib/types';
+
+interface SymmetryOptionsProps {
+  symmetry: SymmetrySettings;
+  onOrderChange: (order: number) => void;
+  onCenterChange: (center: Point) => void;
+  onWallpaperChange: (changes: Partial<WallpaperSettings>) => void;
+}
+
+const LATTICE_LABELS: Record<LatticeType, string> = {
+  oblique: 'Oblique',
+  rectangular: 'Rectangular',
+  centered: 'Centered rectangular',
+  square: 'Square',
+  hexagonal: 'Hexagonal'
+};
+
+// Order, lattice and center settings shown under the symmetry mode buttons
+export default function SymmetryOptions({ symmetry, onOrderChange, onCenterChange, onWallpaperChange }: SymmetryOptionsProps) {
+  if (symmetry.mode === 'none') return null;
+
+  const hasOrder = symmetry.mode === 'rotational' || symmetry.mode === 'dihedral';
+  const isWallpaper = symmetry.mode === 'wallpaper';
+  const { wallpaper } = symmetry;
+  const lattice = WALLPAPER_GROUP_INFO[wallpaper.group].lattice;
+  const hasHeight = lattice !== 'square' && lattice !== 'hexagonal';
+  const prefix = symmetry.mode === 'rotational' ? 'C' : 'D';
+
+  const latticeInput = (key: 'width' | 'height' | 'angle', label: string, min: number, max: number) => (
+    <label className="flex items-center justify-between gap-2 text-sm text-slate-300">
+      {label}
+      <NumberField
+        value={wallpaper[key]}
+        min={min}
+        max={max}
+        step={key === 'angle' ? 5 : 10}
+        onCommit={(value) => onWallpaperChange({ [key]: value })}
+      />
+    </label>
+  );
+
+  return (
+    <div className="mt-3 space-y-3">
+      {hasOrder && (
+        <div className="space-y-2">
+          <div className="flex gap-2" role="group" aria-label="Symmetry order presets">
+            {SYMMETRY_ORDER_PRESETS.map(order => (
+              <button
+                key={order}
+                onClick={() => onOrderChange(order)}
+                className={`flex-1 px-2 py-1 rounded-md text-sm font-medium focus:outline-none focus:ring-2 focus:ring-cyan-400 ${
+                  symmetry.order === order ? 'bg-purple-600 text-white' : 'bg-slate-800 text-slate-300 hover:bg-slate-700'
+                }`}
+                type="button"
+                aria-pressed={symmetry.order === order}
+              >
+                {prefix}{order}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center justify-between gap-2 text-sm text-slate-300">
+            Order
+            <NumberField
+              value={symmetry.order}
+              min={MIN_SYMMETRY_ORDER}
+              max={MAX_SYMMETRY_ORDER}
+              step={1}
+              onCommit={onOrderChange}
+            />
+          </label>
+        </div>
+      )}
+
+      {isWallpaper && (
+        <div className="space-y-2">
+          <label className="flex items-center justify-between gap-2 text-sm text-slate-300">
+            Group
+            <select
+              value={wallpaper.group}
+              onChange={(e) => onWallpaperChange({ group: e.target.value as WallpaperGroup })}
+              className="px-2 py-1 rounded-md bg-slate-800 border border-slate-700 text-white focus:outline-none focus:ring-2 focus:ring-cyan-400"
+            >
+              {(Object.keys(LATTICE_LABELS) as LatticeType[]).map(type => (
+                <optgroup key={type} label={LATTICE_LABELS[type]}>
+                  {WALLPAPER_GROUPS.filter(group => WALLPAPER_GROUP_INFO[group].lattice === type).map(group => (
+                    <option key={group} value={group}>{group}</option>
+                  ))}
+                </optgroup>
+              ))}
+            </select>
+          </label>
+          {latticeInput('width', hasHeight ? 'Cell width' : 'Cell size', MIN_CELL_SIZE, MAX_CELL_SIZE)}
+          {hasHeight && latticeInput('height', 'Cell height', MIN_CELL_SIZE, MAX_CELL_SIZE)}
+          {lattice === 'oblique' && latticeInput('angle', 'Cell angle', MIN_LATTICE_ANGLE, MAX_LATTICE_ANGLE)}
+        </div>
+      )}
+
+      <div className="flex items-center gap-2 text-sm text-slate-300">
+        <span>{isWallpaper ? 'Origin' : 'Center'}</span>
+        {(['x', 'y'] as const).map(axis => (
+          <NumberField
+            key={axis}
+            value={Math.round(symmetry.center[axis])}
+            step={10}
+            onCommit={(value) => onCenterChange({ ...symmetry.center, [axis]: value })}
+            aria-label={`Symmetry center ${axis}`}
+          />
+        ))}
+        <button
+          onClick={() => onCenterChange(DEFAULT_SYMMETRY_CENTER)}
+          className="p-2 rounded-md bg-slate-800 hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-cyan-400"
+          type="button"
+          aria-label="Move symmetry center to the middle of the canvas"
+          title="Center on canvas"
+        >
+          <Crosshair size={14} aria-hidden="true" />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+'use client';
+
+import React from 'react';
+import { DOT_RADIUS, HATCH_WIDTH, PATTERN_SIZE } from '@/lib/tileStyle';
+import type { TilePaint } from '@/lib/tileStyle';
+
+interface TilePaintDefsProps {
+  paints: TilePaint[];
+}
+
+const HALF = PATTERN_SIZE / 2;
+
+// The canvas copy of the gradients and patterns SVG export writes to <defs>
+export default function TilePaintDefs({ paints }: TilePaintDefsProps) {
+  return (
+    <defs>
+      {paints.map(({ id, fill, color, accent, angle }) => {
+        switch (fill) {
+          case 'linear':
+            return (
+              <linearGradient key={id} id={id} x1="0" y1="0.5" x2="1" y2="0.5" gradientTransform={`rotate(${angle} 0.5 0.5)`}>
+                <stop offset="0" stopColor={color} />
+                <stop offset="1" stopColor={accent} />
+              </linearGradient>
+            );
+          case 'radial':
+            return (
+              <radialGradient key={id} id={id} cx="0.5" cy="0.5" r="0.5">
+                <stop offset="0" stopColor={color} />
+                <stop offset="1" stopColor={accent} />
+              </radialGradient>
+            );
+          case 'hatch':
+          case 'dots':
+            return (
+              <pattern
+                key={id}
+                id={id}
+                patternUnits="userSpaceOnUse"
+                width={PATTERN_SIZE}
+                height={PATTERN_SIZE}
+                patternTransform={`rotate(${angle})`}
+              >
+                <rect width={PATTERN_SIZE} height={PATTERN_SIZE} fill={color} />
+                {fill === 'hatch'
+                  ? <path d={`M0 ${HALF}H${PATTERN_SIZE}`} stroke={accent} strokeWidth={HATCH_WIDTH} />
+                  : <circle cx={HALF} cy={HALF} r={DOT_RADIUS} fill={accent} />}
+              </pattern>
+            );
+        }
+      })}
+    </defs>
+  );
+}
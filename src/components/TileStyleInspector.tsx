@@ -0,0 +1,151 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import NumberField from '@/components/NumberField';
+import { MAX_STROKE_WIDTH, TILE_FILL_LABELS } from '@/lib/tileStyle';
+import { TILE_FILLS } from '@/lib/types';
+import type { TileFill, TileStyle } from '@/lib/types';
+
+interface TileStyleInspectorProps {
+  style: TileStyle; // of the first selected tile
+  color: string; // the tile's own color, where gradients and patterns start
+  onChange: (changes: Partial<TileStyle>) => void;
+  onReset: () => void;
+  // Edits between focusing the panel and leaving it are one undo step
+  onEditStart: () => void;
+  onEditEnd: () => void;
+}
+
+const inputClassName = 'px-2 py-1 rounded-md bg-slate-800 border border-slate-700 text-white text-sm focus:outline-none focus:ring-2 focus:ring-purple-400';
+const colorInputClassName = 'w-8 h-8 p-0 rounded-md bg-transparent border border-slate-700 cursor-pointer';
+
+// Fills whose direction can be turned; radial gradients have none
+const HAS_ANGLE: Record<TileFill, boolean> = {
+  solid: false,
+  linear: true,
+  radial: false,
+  hatch: true,
+  dots: true
+};
+
+// Fill, outline and opacity of the selected tiles, shown below the tile controls
+export default function TileStyleInspector({ style, color, onChange, onReset, onEditStart, onEditEnd }: TileStyleInspectorProps) {
+  const panelRef = useRef<HTMLDivElement>(null);
+  const onEditEndRef = useRef(onEditEnd);
+
+  useEffect(() => {
+    onEditEndRef.current = onEditEnd;
+  });
+
+  // Closing the panel mid-edit, e.g. by clearing the selection, still ends the step
+  useEffect(() => () => onEditEndRef.current(), []);
+
+  return (
+    <div
+      ref={panelRef}
+      className="absolute left-0 top-full mt-2 w-72 bg-black/80 backdrop-blur-md rounded-lg p-3 text-white text-sm space-y-3"
+      role="group"
+      aria-label="Tile style"
+      onFocus={onEditStart}
+      onBlur={(e) => {
+        if (!panelRef.current?.contains(e.relatedTarget as Node | null)) onEditEnd();
+      }}
+    >
+      <label className="flex items-center justify-between gap-2 text-slate-300">
+        Fill
+        <select
+          value={style.fill}
+          onChange={(e) => onChange({ fill: e.target.value as TileFill })}
+          className={inputClassName}
+        >
+          {TILE_FILLS.map(fill => (
+            <option key={fill} value={fill}>{TILE_FILL_LABELS[fill]}</option>
+          ))}
+        </select>
+      </label>
+
+      {style.fill !== 'solid' && (
+        <div className="flex items-center justify-between gap-2 text-slate-300">
+          <span className="flex items-center gap-2">
+            <span className="w-4 h-4 rounded border border-slate-600" style={{ backgroundColor: color }} aria-hidden="true" />
+            {style.fill === 'hatch' ? 'Lines' : style.fill === 'dots' ? 'Dots' : 'Fades to'}
+          </span>
+          <input
+            type="color"
+            value={style.accent}
+            onChange={(e) => onChange({ accent: e.target.value.toLowerCase() })}
+            className={colorInputClassName}
+            aria-label={style.fill === 'hatch' ? 'Line color' : style.fill === 'dots' ? 'Dot color' : 'Gradient end color'}
+          />
+        </div>
+      )}
+
+      {HAS_ANGLE[style.fill] && (
+        <label className="flex items-center justify-between gap-2 text-slate-300">
+          Angle (degrees)
+          <NumberField
+            value={style.angle}
+            min={0}
+            max={360}
+            step={15}
+            onCommit={(angle) => onChange({ angle })}
+            className={`w-16 ${inputClassName}`}
+          />
+        </label>
+      )}
+
+      <div className="space-y-2">
+        <label className="flex items-center gap-2 text-slate-300">
+          <input
+            type="checkbox"
+            checked={style.stroke !== null}
+            onChange={(e) => onChange({ stroke: e.target.checked ? '#ffffff' : null })}
+          />
+          Custom outline
+        </label>
+        {style.stroke !== null && (
+          <div className="flex items-center justify-between gap-2 text-slate-300">
+            <input
+              type="color"
+              value={style.stroke}
+              onChange={(e) => onChange({ stroke: e.target.value.toLowerCase() })}
+              className={colorInputClassName}
+              aria-label="Outline color"
+            />
+            <label className="flex items-center gap-2">
+              Width
+              <NumberField
+                value={style.strokeWidth}
+                min={0}
+                max={MAX_STROKE_WIDTH}
+                step={0.5}
+                onCommit={(strokeWidth) => onChange({ strokeWidth })}
+                className={`w-16 ${inputClassName}`}
+              />
+            </label>
+          </div>
+        )}
+      </div>
+
+      <label className="flex items-center justify-between gap-2 text-slate-300">
+        Opacity (%)
+        <NumberField
+          value={Math.round(style.opacity * 100)}
+          min={0}
+          max={100}
+          step={5}
+          onCommit={(percent) => onChange({ opacity: percent / 100 })}
+          className={`w-16 ${inputClassName}`}
+        />
+      </label>
+
+      <button
+        onClick={onReset}
+        className="w-full px-3 py-1.5 bg-slate-700 hover:bg-slate-600 focus:outline-none focus:ring-2 focus:ring-slate-400 rounded-md"
+        type="button"
+      >
+        Reset to plain fill
+      </button>
+    </div>
+  );
+}
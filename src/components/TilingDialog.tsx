@@ -0,0 +1,179 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { X, LayoutGrid } from 'lucide-react';
+import { SHAPES, getTileTransform } from '@/lib/shapes';
+import { TILINGS, generateTiling } from '@/lib/tilings';
+
+export interface TilingSettings {
+  configuration: string;
+  region: 'canvas' | 'selection';
+  coloring: 'shape' | 'current';
+}
+
+interface TilingDialogProps {
+  hasSelection: boolean; // offer filling the selection's area
+  currentColor: string;
+  onGenerate: (settings: TilingSettings) => void;
+  onClose: () => void;
+}
+
+// Preview area in canvas units. Tiles centered up to a dodecagon's radius
+// outside it still show at the edges.
+const PREVIEW_WIDTH = 480;
+const PREVIEW_HEIGHT = 300;
+const PREVIEW_MARGIN = 100;
+
+export default function TilingDialog({ hasSelection, currentColor, onGenerate, onClose }: TilingDialogProps) {
+  const [configuration, setConfiguration] = useState<string>(TILINGS[0].configuration);
+  const [region, setRegion] = useState<TilingSettings['region']>(hasSelection ? 'selection' : 'canvas');
+  const [coloring, setColoring] = useState<TilingSettings['coloring']>('shape');
+  const selectRef = useRef<HTMLSelectElement>(null);
+
+  useEffect(() => {
+    selectRef.current?.focus();
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const tiling = TILINGS.find(t => t.configuration === configuration) ?? TILINGS[0];
+  const preview = useMemo(() => generateTiling(
+    tiling,
+    { x: -PREVIEW_MARGIN, y: -PREVIEW_MARGIN, width: PREVIEW_WIDTH + PREVIEW_MARGIN * 2, height: PREVIEW_HEIGHT + PREVIEW_MARGIN * 2 },
+    { x: PREVIEW_WIDTH / 2, y: PREVIEW_HEIGHT / 2 }
+  ), [tiling]);
+
+  const inputClassName = 'px-2 py-1 rounded-md bg-slate-800 border border-slate-700 text-white focus:outline-none focus:ring-2 focus:ring-cyan-400';
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <form
+        className="w-full max-w-md max-h-[90vh] overflow-y-auto bg-slate-900 border border-slate-700 rounded-xl p-4 text-white space-y-4"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="tiling-dialog-title"
+        onClick={(e) => e.stopPropagation()}
+        onSubmit={(e) => {
+          e.preventDefault();
+          onGenerate({ configuration, region, coloring });
+          onClose();
+        }}
+      >
+        <div className="flex justify-between items-center">
+          <h2 id="tiling-dialog-title" className="text-lg font-semibold">Generate tiling</h2>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg bg-slate-800 hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-cyan-400"
+            type="button"
+            aria-label="Close tiling generator"
+          >
+            <X size={16} aria-hidden="true" />
+          </button>
+        </div>
+
+        <label className="block text-sm">
+          <span className="block text-slate-300 mb-1">Vertex configuration</span>
+          <select
+            ref={selectRef}
+            value={configuration}
+            onChange={(e) => setConfiguration(e.target.value)}
+            className={`${inputClassName} w-full`}
+          >
+            <optgroup label="Regular">
+              {TILINGS.slice(0, 3).map(t => (
+                <option key={t.configuration} value={t.configuration}>{t.configuration} · {t.name}</option>
+              ))}
+            </optgroup>
+            <optgroup label="Archimedean">
+              {TILINGS.slice(3).map(t => (
+                <option key={t.configuration} value={t.configuration}>{t.configuration} · {t.name}</option>
+              ))}
+            </optgroup>
+          </select>
+        </label>
+
+        <svg
+          width="100%"
+          viewBox={`0 0 ${PREVIEW_WIDTH} ${PREVIEW_HEIGHT}`}
+          className="rounded-lg bg-slate-950 border border-slate-800"
+          role="img"
+          aria-label={`Preview of the ${tiling.name.toLowerCase()} tiling`}
+        >
+          {preview.map((tile, index) => (
+            <path
+              key={index}
+              d={SHAPES[tile.shape].path}
+              transform={getTileTransform(tile)}
+              fill={coloring === 'shape' ? SHAPES[tile.shape].color : currentColor}
+              stroke="rgba(255, 255, 255, 0.3)"
+              strokeWidth="2"
+              strokeLinejoin="round"
+            />
+          ))}
+        </svg>
+
+        <fieldset className="space-y-2">
+          <legend className="text-sm text-slate-300 mb-1">Fill</legend>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="radio"
+              name="tiling-region"
+              checked={region === 'canvas'}
+              onChange={() => setRegion('canvas')}
+            />
+            Visible area
+          </label>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="radio"
+              name="tiling-region"
+              checked={region === 'selection'}
+              onChange={() => setRegion('selection')}
+              disabled={!hasSelection}
+            />
+            Area of the selected tiles
+          </label>
+        </fieldset>
+
+        <fieldset className="space-y-2">
+          <legend className="text-sm text-slate-300 mb-1">Colors</legend>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="radio"
+              name="tiling-coloring"
+              checked={coloring === 'shape'}
+              onChange={() => setColoring('shape')}
+            />
+            One color per polygon
+          </label>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="radio"
+              name="tiling-coloring"
+              checked={coloring === 'current'}
+              onChange={() => setColoring('current')}
+            />
+            Current color
+            <span className="w-3 h-3 rounded-full" style={{ backgroundColor: currentColor }} aria-hidden="true" />
+          </label>
+        </fieldset>
+
+        <button
+          className="w-full px-3 py-2 bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-700 hover:to-indigo-700 focus:outline-none focus:ring-2 focus:ring-purple-400 rounded-lg font-medium flex items-center justify-center gap-2"
+          type="submit"
+        >
+          <LayoutGrid size={16} aria-hidden="true" />
+          Generate
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+'use client';
+
+import React from 'react';
+import { ShieldCheck } from 'lucide-react';
+import type { TilingProblemKind, TilingReport } from '@/lib/validation';
+
+interface ValidationPanelProps {
+  idPrefix: string;
+  report: TilingReport | null;
+  activeIndex: number;
+  onToggle: () => void;
+  onActivate: (index: number) => void;
+}
+
+const KIND_LABELS: Record<TilingProblemKind, string> = {
+  overlap: 'Overlap',
+  hole: 'Hole',
+  junction: 'Not edge-to-edge'
+};
+
+// Validate toggle with the list of problems in the current design. The list
+// is a listbox: arrow keys, Home and End step through the problems.
+export default function ValidationPanel({ idPrefix, report, activeIndex, onToggle, onActivate }: ValidationPanelProps) {
+  const problems = report?.problems ?? [];
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLUListElement>) => {
+    const last = problems.length - 1;
+    const next =
+      e.key === 'ArrowDown' ? Math.min(activeIndex + 1, last) :
+      e.key === 'ArrowUp' ? Math.max(activeIndex - 1, 0) :
+      e.key === 'Home' ? 0 :
+      e.key === 'End' ? last :
+      null;
+    if (next === null) return;
+
+    e.preventDefault();
+    onActivate(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      <button
+        onClick={onToggle}
+        className={`w-full px-3 py-2 rounded-lg font-medium focus:outline-none focus:ring-2 focus:ring-cyan-400 transition-all duration-200 flex items-center gap-2 ${
+          report ? 'bg-slate-700 text-white' : 'bg-slate-800 text-slate-300 hover:bg-slate-700'
+        }`}
+        type="button"
+        aria-pressed={report !== null}
+        aria-label={report ? 'Hide tiling problems' : 'Check the design for overlaps, holes and mid-edge corners'}
+      >
+        <ShieldCheck size={16} aria-hidden="true" />
+        Validate
+      </button>
+
+      {report && (
+        <p className={`text-sm ${report.isValid ? 'text-emerald-400' : 'text-slate-300'}`}>
+          {report.isValid
+            ? 'Valid edge-to-edge tiling'
+            : problems.length === 0
+              ? 'No tiles to check'
+              : `${problems.length} ${problems.length === 1 ? 'problem' : 'problems'}`}
+        </p>
+      )}
+
+      {problems.length > 0 && (
+        <ul
+          role="listbox"
+          tabIndex={0}
+          aria-label="Tiling problems"
+          aria-activedescendant={`${idPrefix}-problem-${activeIndex}`}
+          onKeyDown={handleKeyDown}
+          className="max-h-48 overflow-y-auto space-y-0.5 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-400"
+        >
+          {problems.map((problem, index) => (
+            <li
+              key={index}
+              id={`${idPrefix}-problem-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              onClick={() => onActivate(index)}
+              className={`px-2 py-1 rounded cursor-pointer text-xs ${
+                index === activeIndex ? 'bg-red-500/20 text-white ring-1 ring-red-500' : 'text-slate-300 hover:bg-slate-800'
+              }`}
+            >
+              <span className="font-semibold text-red-400">{KIND_LABELS[problem.kind]}</span>
+              {' · '}
+              {problem.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
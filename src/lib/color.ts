@@ -0,0 +1,102 @@
+export interface Rgb {
+  r: number; // 0 to 255
+  g: number;
+  b: number;
+}
+
+export interface Hsl {
+  h: number; // degrees, 0 to 360
+  s: number; // percent, 0 to 100
+  l: number;
+}
+
+export type HarmonyRule = 'complementary' | 'triadic' | 'analogous';
+
+export const HARMONY_RULES: readonly HarmonyRule[] = ['complementary', 'triadic', 'analogous'];
+
+export const HARMONY_LABELS: Record<HarmonyRule, string> = {
+  complementary: 'Complementary',
+  triadic: 'Triadic',
+  analogous: 'Analogous'
+};
+
+// Hue offsets from the base color, in palette order
+const HARMONY_HUES: Record<HarmonyRule, number[]> = {
+  complementary: [0, 180],
+  triadic: [0, 120, 240],
+  analogous: [-30, 0, 30]
+};
+
+const HEX_COLOR = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+const clamp = (value: number, min: number, max: number): number => Math.max(min, Math.min(max, value));
+
+// Lowercase #rrggbb for a #rgb or #rrggbb color, with or without the #,
+// or null for anything else
+export const normalizeHex = (value: string): string | null => {
+  const match = HEX_COLOR.exec(value.trim());
+  if (!match) return null;
+
+  const digits = match[1].length === 3
+    ? match[1].split('').map(digit => digit + digit).join('')
+    : match[1];
+  return `#${digits.toLowerCase()}`;
+};
+
+export const hexToRgb = (hex: string): Rgb => {
+  const value = parseInt((normalizeHex(hex) ?? '#000000').slice(1), 16);
+  return { r: (value >> 16) & 255, g: (value >> 8) & 255, b: value & 255 };
+};
+
+export const rgbToHex = ({ r, g, b }: Rgb): string =>
+  `#${[r, g, b].map(channel => Math.round(clamp(channel, 0, 255)).toString(16).padStart(2, '0')).join('')}`;
+
+export const rgbToHsl = ({ r, g, b }: Rgb): Hsl => {
+  const [red, green, blue] = [r / 255, g / 255, b / 255];
+  const max = Math.max(red, green, blue);
+  const min = Math.min(red, green, blue);
+  const l = (max + min) / 2;
+  const delta = max - min;
+  if (delta === 0) return { h: 0, s: 0, l: l * 100 };
+
+  const s = delta / (1 - Math.abs(2 * l - 1));
+  let h: number;
+  if (max === red) h = ((green - blue) / delta) % 6;
+  else if (max === green) h = (blue - red) / delta + 2;
+  else h = (red - green) / delta + 4;
+
+  return { h: (h * 60 + 360) % 360, s: s * 100, l: l * 100 };
+};
+
+export const hslToRgb = ({ h, s, l }: Hsl): Rgb => {
+  const saturation = clamp(s, 0, 100) / 100;
+  const lightness = clamp(l, 0, 100) / 100;
+  const hue = ((h % 360) + 360) % 360;
+
+  const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation;
+  const x = chroma * (1 - Math.abs((hue / 60) % 2 - 1));
+  const m = lightness - chroma / 2;
+  const [red, green, blue] =
+    hue < 60 ? [chroma, x, 0]
+      : hue < 120 ? [x, chroma, 0]
+        : hue < 180 ? [0, chroma, x]
+          : hue < 240 ? [0, x, chroma]
+            : hue < 300 ? [x, 0, chroma]
+              : [chroma, 0, x];
+
+  return { r: (red + m) * 255, g: (green + m) * 255, b: (blue + m) * 255 };
+};
+
+export const hexToHsl = (hex: string): Hsl => rgbToHsl(hexToRgb(hex));
+
+export const hslToHex = (hsl: Hsl): string => rgbToHex(hslToRgb(hsl));
+
+// A palette seeded from one color: the harmony's hues at the base color's
+// saturation and lightness, then a lighter and a darker row of the same hues
+export const generateHarmony = (base: string, rule: HarmonyRule): string[] => {
+  const { h, s, l } = hexToHsl(base);
+  const rows = [l, l + (100 - l) / 2, l / 2];
+
+  const colors = rows.flatMap(lightness => HARMONY_HUES[rule].map(offset => hslToHex({ h: h + offset, s, l: lightness })));
+  return colors.filter((color, index) => colors.indexOf(color) === index);
+};
@@ -0,0 +1,191 @@
+import { buildSpatialIndex, expandRect, getTileGeometry, queryRect } from './spatialIndex';
+import type { Edge, Tile } from './types';
+
+export type ColoringStrategy = 'minimum' | 'shape' | 'orientation' | 'gradient';
+
+export interface ColoringSettings {
+  strategy: ColoringStrategy;
+  angle: number; // gradient direction in degrees, 0 runs left to right
+}
+
+export interface ColoringResult {
+  colors: Map<string, string>; // tile id to its new color
+  colorsUsed: number;
+  conflicts: number; // neighbouring pairs left with the same color
+}
+
+export const COLORING_STRATEGIES: readonly ColoringStrategy[] = ['minimum', 'shape', 'orientation', 'gradient'];
+
+export const COLORING_STRATEGY_LABELS: Record<ColoringStrategy, string> = {
+  minimum: 'Fewest colors',
+  shape: 'By shape',
+  orientation: 'By orientation',
+  gradient: 'Gradient'
+};
+
+// How far an edge may sit from another's line and still lie along it
+const DISTANCE_TOLERANCE = 0.01;
+
+// Edges must overlap by more than this to count as shared; tiles that only
+// meet at a corner may share a color
+const MIN_SHARED_LENGTH = 0.5;
+
+// Mirrors and wallpaper repeats take their original's color, so all the
+// images of a tile are one node of the graph
+const nodeKey = (tile: Tile): string => tile.isSymmetryMirror && tile.originalId ? tile.originalId : tile.id;
+
+const sharesEdge = (a: Edge, b: Edge): boolean => {
+  const dx = a.end.x - a.start.x;
+  const dy = a.end.y - a.start.y;
+  const offLine = ({ x, y }: Edge['start']) => Math.abs((x - a.start.x) * dy - (y - a.start.y) * dx) / a.length;
+  if (offLine(b.start) > DISTANCE_TOLERANCE || offLine(b.end) > DISTANCE_TOLERANCE) return false;
+
+  const along = ({ x, y }: Edge['start']) => ((x - a.start.x) * dx + (y - a.start.y) * dy) / a.length;
+  const [from, to] = [along(b.start), along(b.end)].sort((p, q) => p - q);
+  return Math.min(a.length, to) - Math.max(0, from) > MIN_SHARED_LENGTH;
+};
+
+// Neighbours of every tile, keyed by original id: tiles are neighbours when
+// part of an edge of one lies along an edge of the other. A tile touching
+// one of its own mirrors is left out, as the two can never differ.
+export const buildAdjacency = (tiles: Tile[]): Map<string, Set<string>> => {
+  const index = buildSpatialIndex(tiles);
+  const adjacency = new Map<string, Set<string>>();
+  const link = (a: string, b: string) => {
+    if (a === b) return;
+    adjacency.get(a)?.add(b);
+    adjacency.get(b)?.add(a);
+  };
+
+  tiles.forEach(tile => {
+    if (!adjacency.has(nodeKey(tile))) adjacency.set(nodeKey(tile), new Set());
+  });
+
+  tiles.forEach((tile, order) => {
+    const { edges, bounds } = getTileGeometry(tile);
+    queryRect(index, expandRect(bounds, DISTANCE_TOLERANCE)).forEach(other => {
+      if (other.order <= order) return;
+      if (edges.some(edge => other.edges.some(otherEdge => sharesEdge(edge, otherEdge)))) {
+        link(nodeKey(tile), nodeKey(other.tile));
+      }
+    });
+  });
+
+  return adjacency;
+};
+
+// Tiles that are translations of each other share a key: their shape and
+// the directions their edges face. A triangle pointing up and one pointing
+// down differ, a square turned a quarter turn does not.
+const orientationKey = (tile: Tile): string => {
+  const angles = getTileGeometry(tile).edges
+    .map(({ normal }) => ((Math.round(Math.atan2(normal.y, normal.x) * 180 / Math.PI) % 360) + 360) % 360)
+    .sort((a, b) => a - b);
+  return `${tile.shape}:${angles.join(',')}`;
+};
+
+// Palette indices to try for a tile, best first
+const candidateOrder = (preferred: number, count: number, spreadBothWays: boolean): number[] => {
+  if (!spreadBothWays) return Array.from({ length: count }, (_, i) => (preferred + i) % count);
+
+  // Gradients look for the nearest free step on either side
+  const order = [preferred];
+  for (let step = 1; order.length < count; step++) {
+    if (preferred + step < count) order.push(preferred + step);
+    if (preferred - step >= 0) order.push(preferred - step);
+  }
+  return order;
+};
+
+// Give the target tiles palette colors so no two neighbours match, keeping
+// the colors of every other tile as they are. Tiles are colored most
+// constrained first (DSatur), each taking the first free color in its
+// strategy's order; when none is free the least clashing one is used.
+export const autoColor = (
+  tiles: Tile[],
+  targetIds: readonly string[],
+  palette: readonly string[],
+  settings: ColoringSettings
+): ColoringResult => {
+  const adjacency = buildAdjacency(tiles);
+  const byKey = new Map<string, Tile>();
+  tiles.forEach(tile => {
+    const key = nodeKey(tile);
+    // Prefer the original itself over any of its images
+    if (!byKey.has(key) || key === tile.id) byKey.set(key, tile);
+  });
+
+  const targets = targetIds.filter((id, i) => byKey.has(id) && targetIds.indexOf(id) === i);
+  const targetSet = new Set(targets);
+  const assigned = new Map<string, string>();
+  const colorOf = (key: string) => targetSet.has(key) ? assigned.get(key) : byKey.get(key)?.color;
+
+  // Preferred palette index of each target under the chosen strategy
+  const preferred = new Map<string, number>();
+  if (settings.strategy === 'shape' || settings.strategy === 'orientation') {
+    const classes: string[] = [];
+    targets.forEach(id => {
+      const tile = byKey.get(id)!;
+      const key = settings.strategy === 'shape' ? tile.shape : orientationKey(tile);
+      if (!classes.includes(key)) classes.push(key);
+      preferred.set(id, classes.indexOf(key) % palette.length);
+    });
+  } else if (settings.strategy === 'gradient') {
+    const radians = settings.angle * Math.PI / 180;
+    const positions = targets.map(id => {
+      const tile = byKey.get(id)!;
+      return tile.x * Math.cos(radians) + tile.y * Math.sin(radians);
+    });
+    const min = Math.min(...positions);
+    const span = Math.max(...positions) - min;
+    targets.forEach((id, i) => {
+      const t = span > 0 ? (positions[i] - min) / span : 0;
+      preferred.set(id, Math.min(palette.length - 1, Math.floor(t * palette.length)));
+    });
+  }
+
+  // Colors already around each target, kept up to date as tiles are colored
+  const saturation = new Map<string, Set<string>>();
+  targets.forEach(id => {
+    const around = new Set<string>();
+    adjacency.get(id)?.forEach(neighbour => {
+      const color = targetSet.has(neighbour) ? undefined : colorOf(neighbour);
+      if (color) around.add(color);
+    });
+    saturation.set(id, around);
+  });
+
+  const remaining = new Set(targets);
+  while (remaining.size > 0) {
+    let next = '';
+    let best = [-1, -1];
+    remaining.forEach(id => {
+      const score = [saturation.get(id)!.size, adjacency.get(id)?.size ?? 0];
+      if (score[0] > best[0] || (score[0] === best[0] && score[1] > best[1])) {
+        next = id;
+        best = score;
+      }
+    });
+
+    const clashes = (color: string) =>
+      [...adjacency.get(next) ?? []].filter(neighbour => colorOf(neighbour) === color).length;
+    const order = candidateOrder(preferred.get(next) ?? 0, palette.length, settings.strategy === 'gradient');
+    const free = order.find(index => clashes(palette[index]) === 0);
+    const index = free ?? order.reduce((least, candidate) =>
+      clashes(palette[candidate]) < clashes(palette[least]) ? candidate : least);
+
+    assigned.set(next, palette[index]);
+    remaining.delete(next);
+    adjacency.get(next)?.forEach(neighbour => saturation.get(neighbour)?.add(palette[index]));
+  }
+
+  let conflicts = 0;
+  adjacency.forEach((neighbours, key) => neighbours.forEach(neighbour => {
+    // Each pair once, and only pairs this coloring could have changed
+    if (key < neighbour && (targetSet.has(key) || targetSet.has(neighbour)) && colorOf(key) === colorOf(neighbour)) {
+      conflicts++;
+    }
+  }));
+
+  return { colors: assigned, colorsUsed: new Set(assigned.values()).size, conflicts };
+};
@@ -0,0 +1,753 @@
+import { normalizeHex } from './color';
+import { MAX_GRID_DIVISIONS, MAX_GRID_SPACING, MIN_GRID_DIVISIONS, MIN_GRID_SPACING } from './grid';
+import { DEFAULT_LAYER } from './layers';
+import { MAX_PALETTE_COLORS } from './palettes';
+import { isCustomShapeId, isSimpleOutline } from './shapes';
+import { DEFAULT_SYMMETRY_CENTER, MAX_SYMMETRY_ORDER, MIN_SYMMETRY_ORDER, inferMirrorTransform } from './symmetry';
+import { DEFAULT_TILE_STYLE, MAX_STROKE_WIDTH } from './tileStyle';
+import { MAX_CELL_SIZE, MAX_LATTICE_ANGLE, MIN_CELL_SIZE, MIN_LATTICE_ANGLE } from './wallpaper';
+import { GRID_TYPES, SHAPE_TYPES, SYMMETRY_MODES, TILE_FILLS, WALLPAPER_GROUPS } from './types';
+import type {
+  CustomShape,
+  CustomShapeId,
+  DesignSnapshot,
+  GridSettings,
+  GridType,
+  Layer,
+  MirrorTransform,
+  Palette,
+  Point,
+  ShapeId,
+  ShapeType,
+  SymmetryMode,
+  SymmetrySettings,
+  Tile,
+  TileFill,
+  TileGroup,
+  TileStyle,
+  WallpaperGroup
+} from './types';
+
+/*
+ * Tessellation document format (.json), version 10
+ *
+ * {
+ *   "format": "tessellation-app",        // required, identifies the file
+ *   "version": 10,                       // required, format version
+ *   "name": "My pattern",                // optional
+ *   "canvas": {
+ *     "width": 600,                      // canvas size in SVG units
+ *     "height": 600,
+ *     "showGrid": true,
+ *     "grid": {
+ *       "type": "square",                // 'square' | 'triangular' | 'hexagonal' | 'polar'
+ *       "spacing": 20,                   // cell side, hexagon edge or ring spacing, 5 to 200
+ *       "origin": { "x": 0, "y": 0 },    // a grid node; the pole of a polar grid
+ *       "divisions": 12,                 // spokes of a polar grid, 4 to 72
+ *       "snap": false                    // snap tiles to the grid nodes
+ *     }
+ *   },
+ *   "symmetry": {
+ *     "mode": "dihedral",                // 'none' | 'horizontal' | 'vertical' | 'rotational' | 'dihedral' | 'wallpaper'
+ *     "order": 6,                        // n of Cn / Dn, 2 to 24
+ *     "center": { "x": 300, "y": 300 },  // fixed point of the symmetry, lattice origin for wallpaper
+ *     "wallpaper": {
+ *       "group": "p4m",                  // one of the 17 wallpaper groups, 'p1' to 'p6m'
+ *       "width": 150,                    // lattice vector lengths, 40 to 600
+ *       "height": 150,
+ *       "angle": 90                      // degrees between them, 30 to 150 (oblique lattices only)
+ *     }
+ *   },
+ *   "palette": {
+ *     "name": "Brand",                   // optional
+ *     "colors": ["#3b82f6", ...],        // hex colors, #rgb or #rrggbb, 1 to 64 of them
+ *     "selectedColor": "#3b82f6"
+ *   },
+ *   "layers": [                          // bottom to top, at least one
+ *     {
+ *       "id": "layer-1",                 // unique within the file
+ *       "name": "Background",
+ *       "visible": true,                 // optional, defaults to true
+ *       "locked": false                  // optional, defaults to false
+ *     }
+ *   ],
+ *   "groups": [
+ *     { "id": "g1", "name": "Hexagon rosette" }
+ *   ],
+ *   "shapes": [                          // custom shapes drawn in the shape editor
+ *     {
+ *       "id": "custom-k3x9",             // starts with "custom-", unique within the file
+ *       "name": "Arrow",
+ *       "color": "#f97316",              // swatch in the shape palette
+ *       "vertices": [                    // outline around the tile center, at least 3 corners,
+ *         { "x": 0, "y": -30 }, ...      // sides must not cross
+ *       ]
+ *     }
+ *   ],
+ *   "tiles": [                           // drawn in this order within each layer
+ *     {
+ *       "id": "abc123",                  // unique within the file
+ *       "shape": "hexagon",              // one of SHAPE_TYPES, e.g. 'rhombus-72', or a custom shape id
+ *       "x": 300, "y": 300,              // center in canvas units
+ *       "rotation": 0,                   // degrees, clockwise
+ *       "flipX": false,                  // optional, mirrored across its own vertical axis before rotating
+ *       "color": "#10b981",
+ *       "layerId": "layer-1",            // optional, defaults to the bottom layer; mirrors use their original's
+ *       "groupId": "g1",                 // optional, id of the group the tile belongs to
+ *       "style": {                       // optional, a plain fill with the default outline when left out
+ *         "fill": "linear",              // one of TILE_FILLS: 'solid', 'linear', 'radial', 'hatch', 'dots'
+ *         "accent": "#ffffff",           // gradient end, line or dot color; the tile's color is the other
+ *         "angle": 45,                   // degrees, turns linear gradients and patterns
+ *         "stroke": "#ffffff",           // outline color, or null for the default outline
+ *         "strokeWidth": 2,              // 0 to 20 canvas units
+ *         "opacity": 1                   // 0 to 1
+ *       },
+ *       "mirrorOf": "def456",            // optional, id of the tile this one mirrors
+ *       "mirrorTransform": {             // required with mirrorOf: how the mirror is derived
+ *         "rotation": 180,               // degrees about the center
+ *         "reflect": true,               // reflect across the vertical line through the center first
+ *         "center": { "x": 300, "y": 300 }
+ *       }
+ *     }
+ *   ]
+ * }
+ *
+ * Every section except "format" and "version" may be omitted and falls back
+ * to the editor defaults. Unknown fields are reported as warnings and ignored.
+ *
+ * Version 1 files have no "mirrorTransform"; it is recovered from the
+ * positions of each mirror and its original. Versions 1 and 2 have no
+ * "flipX", so every tile in them is unflipped. Versions 1 to 3 have no
+ * symmetry order or center: everything is centered on the canvas, and their
+ * 'radial' mode is read as dihedral order 2. Versions 1 to 5 have no layers
+ * or groups, so all their tiles share one layer. Versions 1 to 6 have no
+ * custom shapes, and versions 1 to 7 only the plain square grid. Versions
+ * 1 to 8 have no palette name, and versions 1 to 9 no tile styles.
+ * Wallpaper repeats are derived from the tiles and never written to the file.
+ */
+
+export const DOCUMENT_FORMAT = 'tessellation-app';
+export const DOCUMENT_VERSION = 10;
+
+export interface TessellationDocument {
+  name?: string;
+  canvas: {
+    width: number;
+    height: number;
+    showGrid: boolean;
+    grid: GridSettings;
+  };
+  symmetry: SymmetrySettings;
+  palette: Palette & {
+    selectedColor: string;
+  };
+  layers: Layer[];
+  groups: TileGroup[];
+  customShapes: CustomShape[];
+  tiles: Tile[];
+}
+
+export interface DocumentIssue {
+  path: string; // e.g. "tiles[3].shape"
+  message: string;
+}
+
+export type ParseResult =
+  | { ok: true; document: TessellationDocument; warnings: DocumentIssue[] }
+  | { ok: false; errors: DocumentIssue[]; warnings: DocumentIssue[] };
+
+export const CANVAS_SIZE = 600;
+
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+type RawRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const describe = (value: unknown): string => {
+  if (value === undefined) return 'no value';
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return `"${value.length > 40 ? `${value.slice(0, 40)}…` : value}"`;
+  if (typeof value === 'object') return 'an object';
+  return String(value);
+};
+
+// Build a document from the editor state
+export const createDocument = (snapshot: DesignSnapshot, name?: string): TessellationDocument => ({
+  ...(name ? { name } : {}),
+  canvas: { width: CANVAS_SIZE, height: CANVAS_SIZE, showGrid: snapshot.showGrid, grid: snapshot.grid },
+  symmetry: snapshot.symmetry,
+  palette: { ...snapshot.palette, selectedColor: snapshot.selectedColor },
+  layers: snapshot.layers,
+  groups: snapshot.groups,
+  customShapes: snapshot.customShapes,
+  tiles: snapshot.tiles
+});
+
+export const serializeDocument = (document: TessellationDocument): string => {
+  const tiles = document.tiles.map(tile => ({
+    id: tile.id,
+    shape: tile.shape,
+    x: tile.x,
+    y: tile.y,
+    rotation: tile.rotation,
+    ...(tile.flipX ? { flipX: true } : {}),
+    color: tile.color,
+    ...(tile.layerId && !tile.isSymmetryMirror ? { layerId: tile.layerId } : {}),
+    ...(tile.groupId ? { groupId: tile.groupId } : {}),
+    ...(tile.style ? { style: tile.style } : {}),
+    ...(tile.isSymmetryMirror && tile.originalId && tile.mirrorTransform
+      ? { mirrorOf: tile.originalId, mirrorTransform: tile.mirrorTransform }
+      : {})
+  }));
+
+  return JSON.stringify({
+    format: DOCUMENT_FORMAT,
+    version: DOCUMENT_VERSION,
+    ...(document.name ? { name: document.name } : {}),
+    canvas: document.canvas,
+    symmetry: document.symmetry,
+    palette: document.palette,
+    layers: document.layers,
+    groups: document.groups,
+    ...(document.customShapes.length > 0 ? { shapes: document.customShapes } : {}),
+    tiles
+  }, null, 2);
+};
+
+// Parse and validate a document file. Never throws: every problem is
+// returned with the path of the offending field.
+export const parseDocument = (text: string, defaults: DesignSnapshot): ParseResult => {
+  const errors: DocumentIssue[] = [];
+  const warnings: DocumentIssue[] = [];
+
+  const warnUnknown = (record: RawRecord, known: readonly string[], path: string) => {
+    Object.keys(record).forEach(key => {
+      if (!known.includes(key)) {
+        warnings.push({ path: path ? `${path}.${key}` : key, message: 'Unknown field, ignored' });
+      }
+    });
+  };
+
+  const readPoint = (value: unknown, path: string): Point | null => {
+    if (!isRecord(value) || !isFiniteNumber(value.x) || !isFiniteNumber(value.y)) {
+      errors.push({ path, message: `Expected { "x": number, "y": number } but found ${describe(value)}` });
+      return null;
+    }
+    warnUnknown(value, ['x', 'y'], path);
+    return { x: value.x, y: value.y };
+  };
+
+  const section = (root: RawRecord, key: string): RawRecord | null => {
+    const value = root[key];
+    if (value === undefined) return null;
+    if (!isRecord(value)) {
+      errors.push({ path: key, message: `Expected an object but found ${describe(value)}` });
+      return null;
+    }
+    return value;
+  };
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'invalid JSON';
+    return { ok: false, errors: [{ path: '', message: `File is not valid JSON: ${reason}` }], warnings };
+  }
+
+  if (!isRecord(raw)) {
+    return { ok: false, errors: [{ path: '', message: `Expected a JSON object but found ${describe(raw)}` }], warnings };
+  }
+
+  if (raw.format !== DOCUMENT_FORMAT) {
+    return {
+      ok: false,
+      errors: [{ path: 'format', message: `Not a tessellation document (expected "${DOCUMENT_FORMAT}", found ${describe(raw.format)})` }],
+      warnings
+    };
+  }
+
+  if (!Number.isInteger(raw.version) || (raw.version as number) < 1) {
+    errors.push({ path: 'version', message: `Expected a positive whole number but found ${describe(raw.version)}` });
+  } else if ((raw.version as number) > DOCUMENT_VERSION) {
+    errors.push({
+      path: 'version',
+      message: `File was written by a newer version of the app (format ${raw.version}, this app reads up to ${DOCUMENT_VERSION})`
+    });
+  }
+
+  const fileVersion = raw.version as number;
+
+  warnUnknown(raw, ['format', 'version', 'name', 'canvas', 'symmetry', 'palette', 'layers', 'groups', 'shapes', 'tiles'], '');
+
+  if (raw.name !== undefined && typeof raw.name !== 'string') {
+    errors.push({ path: 'name', message: `Expected text but found ${describe(raw.name)}` });
+  }
+
+  // Canvas
+  const canvas = { width: CANVAS_SIZE, height: CANVAS_SIZE, showGrid: defaults.showGrid, grid: { ...defaults.grid } };
+  const rawCanvas = section(raw, 'canvas');
+  if (rawCanvas) {
+    warnUnknown(rawCanvas, ['width', 'height', 'showGrid', 'grid'], 'canvas');
+    (['width', 'height'] as const).forEach(key => {
+      const value = rawCanvas[key];
+      if (value === undefined) return;
+      if (!isFiniteNumber(value) || value <= 0) {
+        errors.push({ path: `canvas.${key}`, message: `Expected a positive number but found ${describe(value)}` });
+      } else {
+        canvas[key] = value;
+      }
+    });
+    if (rawCanvas.showGrid !== undefined) {
+      if (typeof rawCanvas.showGrid !== 'boolean') {
+        errors.push({ path: 'canvas.showGrid', message: `Expected true or false but found ${describe(rawCanvas.showGrid)}` });
+      } else {
+        canvas.showGrid = rawCanvas.showGrid;
+      }
+    }
+
+    const rawGrid = rawCanvas.grid;
+    if (rawGrid !== undefined && !isRecord(rawGrid)) {
+      errors.push({ path: 'canvas.grid', message: `Expected an object but found ${describe(rawGrid)}` });
+    } else if (rawGrid) {
+      const grid = canvas.grid;
+      warnUnknown(rawGrid, ['type', 'spacing', 'origin', 'divisions', 'snap'], 'canvas.grid');
+      if (rawGrid.type !== undefined) {
+        if (!GRID_TYPES.includes(rawGrid.type as GridType)) {
+          errors.push({
+            path: 'canvas.grid.type',
+            message: `Unknown grid type ${describe(rawGrid.type)} (expected one of ${GRID_TYPES.join(', ')})`
+          });
+        } else {
+          grid.type = rawGrid.type as GridType;
+        }
+      }
+      ([
+        ['spacing', MIN_GRID_SPACING, MAX_GRID_SPACING],
+        ['divisions', MIN_GRID_DIVISIONS, MAX_GRID_DIVISIONS]
+      ] as const).forEach(([key, min, max]) => {
+        const value = rawGrid[key];
+        if (value === undefined) return;
+        if (!isFiniteNumber(value) || value < min || value > max || (key === 'divisions' && !Number.isInteger(value))) {
+          errors.push({
+            path: `canvas.grid.${key}`,
+            message: `Expected ${key === 'divisions' ? 'a whole number' : 'a number'} from ${min} to ${max} but found ${describe(value)}`
+          });
+        } else {
+          grid[key] = value;
+        }
+      });
+      if (rawGrid.origin !== undefined) {
+        grid.origin = readPoint(rawGrid.origin, 'canvas.grid.origin') ?? grid.origin;
+      }
+      if (rawGrid.snap !== undefined) {
+        if (typeof rawGrid.snap !== 'boolean') {
+          errors.push({ path: 'canvas.grid.snap', message: `Expected true or false but found ${describe(rawGrid.snap)}` });
+        } else {
+          grid.snap = rawGrid.snap;
+        }
+      }
+    }
+  }
+
+  // Symmetry
+  const symmetry: SymmetrySettings = { ...defaults.symmetry };
+  const rawSymmetry = section(raw, 'symmetry');
+  if (rawSymmetry) {
+    warnUnknown(rawSymmetry, ['mode', 'order', 'center', 'wallpaper'], 'symmetry');
+    if (rawSymmetry.mode === 'radial' && fileVersion < 4) {
+      // The old four-way mode about the canvas center
+      symmetry.mode = 'dihedral';
+      symmetry.order = 2;
+    } else if (rawSymmetry.mode !== undefined) {
+      if (!SYMMETRY_MODES.includes(rawSymmetry.mode as SymmetryMode)) {
+        errors.push({
+          path: 'symmetry.mode',
+          message: `Unknown symmetry mode ${describe(rawSymmetry.mode)} (expected one of ${SYMMETRY_MODES.join(', ')})`
+        });
+      } else {
+        symmetry.mode = rawSymmetry.mode as SymmetryMode;
+      }
+    }
+    if (rawSymmetry.order !== undefined) {
+      const order = rawSymmetry.order;
+      if (!Number.isInteger(order) || (order as number) < MIN_SYMMETRY_ORDER || (order as number) > MAX_SYMMETRY_ORDER) {
+        errors.push({
+          path: 'symmetry.order',
+          message: `Expected a whole number from ${MIN_SYMMETRY_ORDER} to ${MAX_SYMMETRY_ORDER} but found ${describe(order)}`
+        });
+      } else {
+        symmetry.order = order as number;
+      }
+    }
+    if (rawSymmetry.center !== undefined) {
+      symmetry.center = readPoint(rawSymmetry.center, 'symmetry.center') ?? symmetry.center;
+    }
+
+    const rawWallpaper = rawSymmetry.wallpaper;
+    if (rawWallpaper !== undefined && !isRecord(rawWallpaper)) {
+      errors.push({ path: 'symmetry.wallpaper', message: `Expected an object but found ${describe(rawWallpaper)}` });
+    } else if (rawWallpaper) {
+      const wallpaper = { ...symmetry.wallpaper };
+      warnUnknown(rawWallpaper, ['group', 'width', 'height', 'angle'], 'symmetry.wallpaper');
+      if (rawWallpaper.group !== undefined) {
+        if (!WALLPAPER_GROUPS.includes(rawWallpaper.group as WallpaperGroup)) {
+          errors.push({
+            path: 'symmetry.wallpaper.group',
+            message: `Unknown wallpaper group ${describe(rawWallpaper.group)} (expected one of ${WALLPAPER_GROUPS.join(', ')})`
+          });
+        } else {
+          wallpaper.group = rawWallpaper.group as WallpaperGroup;
+        }
+      }
+      ([
+        ['width', MIN_CELL_SIZE, MAX_CELL_SIZE],
+        ['height', MIN_CELL_SIZE, MAX_CELL_SIZE],
+        ['angle', MIN_LATTICE_ANGLE, MAX_LATTICE_ANGLE]
+      ] as const).forEach(([key, min, max]) => {
+        const value = rawWallpaper[key];
+        if (value === undefined) return;
+        if (!isFiniteNumber(value) || value < min || value > max) {
+          errors.push({ path: `symmetry.wallpaper.${key}`, message: `Expected a number from ${min} to ${max} but found ${describe(value)}` });
+        } else {
+          wallpaper[key] = value;
+        }
+      });
+      symmetry.wallpaper = wallpaper;
+    }
+  }
+
+  // Palette
+  const palette: Palette = { ...defaults.palette };
+  let selectedColor = defaults.selectedColor;
+  const rawPalette = section(raw, 'palette');
+  if (rawPalette) {
+    warnUnknown(rawPalette, ['name', 'colors', 'selectedColor'], 'palette');
+    if (rawPalette.name !== undefined) {
+      if (typeof rawPalette.name !== 'string') {
+        errors.push({ path: 'palette.name', message: `Expected text but found ${describe(rawPalette.name)}` });
+      } else {
+        palette.name = rawPalette.name;
+      }
+    }
+    if (rawPalette.colors !== undefined) {
+      if (!Array.isArray(rawPalette.colors)) {
+        errors.push({ path: 'palette.colors', message: `Expected a list of colors but found ${describe(rawPalette.colors)}` });
+      } else if (rawPalette.colors.length === 0) {
+        errors.push({ path: 'palette.colors', message: 'Expected at least one color' });
+      } else {
+        // Colors are kept as lowercase #rrggbb, so "#FFF" repeats "#ffffff"
+        const validColors: string[] = [];
+        rawPalette.colors.forEach((color, index) => {
+          const hex = typeof color === 'string' && HEX_COLOR.test(color) ? normalizeHex(color) : null;
+          if (!hex) {
+            errors.push({ path: `palette.colors[${index}]`, message: `Expected a hex color like #3b82f6 but found ${describe(color)}` });
+          } else if (validColors.includes(hex)) {
+            warnings.push({ path: `palette.colors[${index}]`, message: 'Repeats an earlier color, ignored' });
+          } else if (validColors.length === MAX_PALETTE_COLORS) {
+            warnings.push({ path: `palette.colors[${index}]`, message: `A palette holds at most ${MAX_PALETTE_COLORS} colors, ignored` });
+          } else {
+            validColors.push(hex);
+          }
+        });
+        palette.colors = validColors;
+      }
+    }
+    if (rawPalette.selectedColor !== undefined) {
+      // Normalized like the swatches, so it matches the one it names
+      const hex = typeof rawPalette.selectedColor === 'string' ? normalizeHex(rawPalette.selectedColor) : null;
+      if (!hex) {
+        errors.push({ path: 'palette.selectedColor', message: `Expected a hex color like #3b82f6 but found ${describe(rawPalette.selectedColor)}` });
+      } else {
+        selectedColor = hex;
+      }
+    }
+  }
+
+  // Layers and groups
+  const readNamedList = (key: 'layers' | 'groups', known: readonly string[]): { record: RawRecord; id: string; name: string; path: string }[] => {
+    const value = raw[key];
+    if (value === undefined) return [];
+    if (!Array.isArray(value)) {
+      errors.push({ path: key, message: `Expected a list but found ${describe(value)}` });
+      return [];
+    }
+
+    const items: { record: RawRecord; id: string; name: string; path: string }[] = [];
+    value.forEach((item, index) => {
+      const path = `${key}[${index}]`;
+      if (!isRecord(item)) {
+        errors.push({ path, message: `Expected an object but found ${describe(item)}` });
+        return;
+      }
+      warnUnknown(item, known, path);
+      if (typeof item.id !== 'string' || item.id === '') {
+        errors.push({ path: `${path}.id`, message: `Expected a non-empty id but found ${describe(item.id)}` });
+      } else if (items.some(other => other.id === item.id)) {
+        errors.push({ path: `${path}.id`, message: `Duplicate id "${item.id}"` });
+      } else if (typeof item.name !== 'string') {
+        errors.push({ path: `${path}.name`, message: `Expected text but found ${describe(item.name)}` });
+      } else {
+        items.push({ record: item, id: item.id, name: item.name, path });
+      }
+    });
+    return items;
+  };
+
+  const layers: Layer[] = readNamedList('layers', ['id', 'name', 'visible', 'locked']).map(({ record, id, name, path }) => {
+    (['visible', 'locked'] as const).forEach(key => {
+      if (record[key] !== undefined && typeof record[key] !== 'boolean') {
+        errors.push({ path: `${path}.${key}`, message: `Expected true or false but found ${describe(record[key])}` });
+      }
+    });
+    return { id, name, visible: record.visible !== false, locked: record.locked === true };
+  });
+  if (Array.isArray(raw.layers) && raw.layers.length === 0) {
+    errors.push({ path: 'layers', message: 'Expected at least one layer' });
+  }
+  if (layers.length === 0) {
+    layers.push(DEFAULT_LAYER);
+  }
+
+  const groups: TileGroup[] = readNamedList('groups', ['id', 'name']).map(({ id, name }) => ({ id, name }));
+
+  // Custom shapes
+  const customShapes: CustomShape[] = [];
+  if (raw.shapes !== undefined && !Array.isArray(raw.shapes)) {
+    errors.push({ path: 'shapes', message: `Expected a list of shapes but found ${describe(raw.shapes)}` });
+  } else if (Array.isArray(raw.shapes)) {
+    raw.shapes.forEach((rawShape, index) => {
+      const path = `shapes[${index}]`;
+      if (!isRecord(rawShape)) {
+        errors.push({ path, message: `Expected a shape object but found ${describe(rawShape)}` });
+        return;
+      }
+      warnUnknown(rawShape, ['id', 'name', 'color', 'vertices'], path);
+
+      const errorCount = errors.length;
+
+      if (typeof rawShape.id !== 'string' || !isCustomShapeId(rawShape.id)) {
+        errors.push({ path: `${path}.id`, message: `Expected an id starting with "custom-" but found ${describe(rawShape.id)}` });
+      } else if (customShapes.some(shape => shape.id === rawShape.id)) {
+        errors.push({ path: `${path}.id`, message: `Duplicate shape id "${rawShape.id}"` });
+      }
+      if (typeof rawShape.name !== 'string') {
+        errors.push({ path: `${path}.name`, message: `Expected text but found ${describe(rawShape.name)}` });
+      }
+      if (typeof rawShape.color !== 'string' || !HEX_COLOR.test(rawShape.color)) {
+        errors.push({ path: `${path}.color`, message: `Expected a hex color like #3b82f6 but found ${describe(rawShape.color)}` });
+      }
+
+      const vertices: Point[] = [];
+      if (!Array.isArray(rawShape.vertices)) {
+        errors.push({ path: `${path}.vertices`, message: `Expected a list of points but found ${describe(rawShape.vertices)}` });
+      } else {
+        rawShape.vertices.forEach((rawVertex, vertexIndex) => {
+          const vertex = readPoint(rawVertex, `${path}.vertices[${vertexIndex}]`);
+          if (vertex) vertices.push(vertex);
+        });
+        if (vertices.length === rawShape.vertices.length && !isSimpleOutline(vertices)) {
+          errors.push({ path: `${path}.vertices`, message: 'Expected at least 3 corners of an outline whose sides don\'t cross' });
+        }
+      }
+
+      if (errors.length > errorCount) return;
+
+      customShapes.push({
+        id: rawShape.id as CustomShapeId,
+        name: rawShape.name as string,
+        color: rawShape.color as string,
+        vertices
+      });
+    });
+  }
+
+  // Tiles
+  const tiles: Tile[] = [];
+  if (raw.tiles !== undefined && !Array.isArray(raw.tiles)) {
+    errors.push({ path: 'tiles', message: `Expected a list of tiles but found ${describe(raw.tiles)}` });
+  } else if (Array.isArray(raw.tiles)) {
+    const seenIds = new Set<string>();
+    const sourceIndexes: number[] = [];
+
+    raw.tiles.forEach((rawTile, index) => {
+      const path = `tiles[${index}]`;
+      if (!isRecord(rawTile)) {
+        errors.push({ path, message: `Expected a tile object but found ${describe(rawTile)}` });
+        return;
+      }
+      warnUnknown(rawTile, ['id', 'shape', 'x', 'y', 'rotation', 'flipX', 'color', 'layerId', 'groupId', 'style', 'mirrorOf', 'mirrorTransform'], path);
+
+      const errorCount = errors.length;
+
+      if (typeof rawTile.id !== 'string' || rawTile.id === '') {
+        errors.push({ path: `${path}.id`, message: `Expected a non-empty id but found ${describe(rawTile.id)}` });
+      } else if (seenIds.has(rawTile.id)) {
+        errors.push({ path: `${path}.id`, message: `Duplicate tile id "${rawTile.id}"` });
+      }
+      if (!SHAPE_TYPES.includes(rawTile.shape as ShapeType) && !customShapes.some(shape => shape.id === rawTile.shape)) {
+        errors.push({
+          path: `${path}.shape`,
+          message: `Unknown shape ${describe(rawTile.shape)} (expected one of ${SHAPE_TYPES.join(', ')} or the id of a shape in this file)`
+        });
+      }
+      (['x', 'y'] as const).forEach(key => {
+        if (!isFiniteNumber(rawTile[key])) {
+          errors.push({ path: `${path}.${key}`, message: `Expected a number but found ${describe(rawTile[key])}` });
+        }
+      });
+      if (rawTile.rotation !== undefined && !isFiniteNumber(rawTile.rotation)) {
+        errors.push({ path: `${path}.rotation`, message: `Expected a number of degrees but found ${describe(rawTile.rotation)}` });
+      }
+      if (rawTile.flipX !== undefined && typeof rawTile.flipX !== 'boolean') {
+        errors.push({ path: `${path}.flipX`, message: `Expected true or false but found ${describe(rawTile.flipX)}` });
+      }
+      if (typeof rawTile.color !== 'string' || !HEX_COLOR.test(rawTile.color)) {
+        errors.push({ path: `${path}.color`, message: `Expected a hex color like #3b82f6 but found ${describe(rawTile.color)}` });
+      }
+      if (rawTile.layerId !== undefined && !layers.some(layer => layer.id === rawTile.layerId)) {
+        errors.push({ path: `${path}.layerId`, message: `No layer with id ${describe(rawTile.layerId)} in this file` });
+      }
+      if (rawTile.groupId !== undefined && !groups.some(group => group.id === rawTile.groupId)) {
+        errors.push({ path: `${path}.groupId`, message: `No group with id ${describe(rawTile.groupId)} in this file` });
+      }
+      if (rawTile.mirrorOf !== undefined && typeof rawTile.mirrorOf !== 'string') {
+        errors.push({ path: `${path}.mirrorOf`, message: `Expected a tile id but found ${describe(rawTile.mirrorOf)}` });
+      }
+
+      // Style properties left out take their defaults
+      let style: TileStyle | undefined;
+      const rawStyle = rawTile.style;
+      if (rawStyle !== undefined && !isRecord(rawStyle)) {
+        errors.push({ path: `${path}.style`, message: `Expected an object but found ${describe(rawStyle)}` });
+      } else if (rawStyle) {
+        const stylePath = `${path}.style`;
+        const styleErrorCount = errors.length;
+        warnUnknown(rawStyle, ['fill', 'accent', 'angle', 'stroke', 'strokeWidth', 'opacity'], stylePath);
+        if (rawStyle.fill !== undefined && !TILE_FILLS.includes(rawStyle.fill as TileFill)) {
+          errors.push({
+            path: `${stylePath}.fill`,
+            message: `Unknown fill ${describe(rawStyle.fill)} (expected one of ${TILE_FILLS.join(', ')})`
+          });
+        }
+        const accent = rawStyle.accent === undefined ? DEFAULT_TILE_STYLE.accent : typeof rawStyle.accent === 'string' ? normalizeHex(rawStyle.accent) : null;
+        if (!accent) {
+          errors.push({ path: `${stylePath}.accent`, message: `Expected a hex color like #ffffff but found ${describe(rawStyle.accent)}` });
+        }
+        const stroke = typeof rawStyle.stroke === 'string' ? normalizeHex(rawStyle.stroke) : null;
+        if (rawStyle.stroke !== undefined && rawStyle.stroke !== null && !stroke) {
+          errors.push({ path: `${stylePath}.stroke`, message: `Expected a hex color or null but found ${describe(rawStyle.stroke)}` });
+        }
+        if (rawStyle.angle !== undefined && !isFiniteNumber(rawStyle.angle)) {
+          errors.push({ path: `${stylePath}.angle`, message: `Expected a number of degrees but found ${describe(rawStyle.angle)}` });
+        }
+        ([
+          ['strokeWidth', MAX_STROKE_WIDTH],
+          ['opacity', 1]
+        ] as const).forEach(([key, max]) => {
+          const value = rawStyle[key];
+          if (value !== undefined && (!isFiniteNumber(value) || value < 0 || value > max)) {
+            errors.push({ path: `${stylePath}.${key}`, message: `Expected a number from 0 to ${max} but found ${describe(value)}` });
+          }
+        });
+
+        if (errors.length === styleErrorCount) {
+          style = {
+            fill: rawStyle.fill === undefined ? DEFAULT_TILE_STYLE.fill : rawStyle.fill as TileFill,
+            accent: accent as string,
+            angle: isFiniteNumber(rawStyle.angle) ? rawStyle.angle : DEFAULT_TILE_STYLE.angle,
+            stroke,
+            strokeWidth: isFiniteNumber(rawStyle.strokeWidth) ? rawStyle.strokeWidth : DEFAULT_TILE_STYLE.strokeWidth,
+            opacity: isFiniteNumber(rawStyle.opacity) ? rawStyle.opacity : DEFAULT_TILE_STYLE.opacity
+          };
+        }
+      }
+
+      let mirrorTransform: MirrorTransform | undefined;
+      const rawTransform = rawTile.mirrorTransform;
+      if (rawTransform !== undefined) {
+        if (!isRecord(rawTransform) || !isFiniteNumber(rawTransform.rotation) || typeof rawTransform.reflect !== 'boolean') {
+          errors.push({
+            path: `${path}.mirrorTransform`,
+            message: `Expected { "rotation": number, "reflect": true | false } but found ${describe(rawTransform)}`
+          });
+        } else {
+          warnUnknown(rawTransform, ['rotation', 'reflect', 'center'], `${path}.mirrorTransform`);
+          // Before version 4 every mirror was placed around the canvas center
+          const center = rawTransform.center === undefined
+            ? DEFAULT_SYMMETRY_CENTER
+            : readPoint(rawTransform.center, `${path}.mirrorTransform.center`);
+          if (center) {
+            mirrorTransform = { rotation: rawTransform.rotation, reflect: rawTransform.reflect, center };
+          }
+        }
+        if (rawTile.mirrorOf === undefined) {
+          warnings.push({ path: `${path}.mirrorTransform`, message: 'Ignored because the tile has no mirrorOf' });
+        }
+      } else if (typeof rawTile.mirrorOf === 'string' && fileVersion >= 2) {
+        errors.push({ path: `${path}.mirrorTransform`, message: 'Required for mirror tiles' });
+      }
+
+      if (errors.length > errorCount) return;
+
+      const id = rawTile.id as string;
+      seenIds.add(id);
+      sourceIndexes.push(index);
+      tiles.push({
+        id,
+        shape: rawTile.shape as ShapeId,
+        x: rawTile.x as number,
+        y: rawTile.y as number,
+        rotation: isFiniteNumber(rawTile.rotation) ? rawTile.rotation : 0,
+        ...(rawTile.flipX === true ? { flipX: true } : {}),
+        color: rawTile.color as string,
+        ...(typeof rawTile.layerId === 'string' ? { layerId: rawTile.layerId } : {}),
+        ...(typeof rawTile.groupId === 'string' ? { groupId: rawTile.groupId } : {}),
+        ...(style ? { style } : {}),
+        ...(typeof rawTile.mirrorOf === 'string'
+          ? { isSymmetryMirror: true, originalId: rawTile.mirrorOf, ...(mirrorTransform ? { mirrorTransform } : {}) }
+          : {})
+      });
+    });
+
+    // Mirror links must point at an original tile in the same file
+    tiles.forEach((tile, index) => {
+      if (!tile.originalId) return;
+      const original = tiles.find(t => t.id === tile.originalId);
+      const path = `tiles[${sourceIndexes[index]}].mirrorOf`;
+      if (!original) {
+        errors.push({ path, message: `No tile with id "${tile.originalId}" in this file` });
+      } else if (original.isSymmetryMirror) {
+        errors.push({ path, message: `Tile "${tile.originalId}" is itself a mirror` });
+      } else if (!tile.mirrorTransform) {
+        // Version 1 file: recover the transform from the positions
+        tiles[index] = { ...tile, mirrorTransform: inferMirrorTransform(original, tile) };
+      }
+    });
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors, warnings };
+  }
+
+  return {
+    ok: true,
+    document: {
+      ...(typeof raw.name === 'string' && raw.name ? { name: raw.name } : {}),
+      canvas,
+      symmetry,
+      palette: { ...palette, selectedColor },
+      layers,
+      groups,
+      customShapes,
+      tiles
+    },
+    warnings
+  };
+};
@@ -0,0 +1,194 @@
+import type { Rect } from './selection';
+import { getShapeVertices } from './shapes';
+import type { GridSettings, GridType, Point, Tile } from './types';
+
+export const MIN_GRID_SPACING = 5;
+export const MAX_GRID_SPACING = 200;
+export const MIN_GRID_DIVISIONS = 4;
+export const MAX_GRID_DIVISIONS = 72;
+
+export const GRID_TYPE_LABELS: Record<GridType, string> = {
+  square: 'Square',
+  triangular: 'Triangular (isometric)',
+  hexagonal: 'Hexagonal',
+  polar: 'Polar'
+};
+
+export const DEFAULT_GRID: GridSettings = {
+  type: 'square',
+  spacing: 20,
+  origin: { x: 0, y: 0 },
+  divisions: 12,
+  snap: false
+};
+
+// Lines closer than this on screen are thinned out, or not drawn at all
+// where thinning would change the grid's shape
+const MIN_LINE_GAP = 6;
+
+const SQRT3 = Math.sqrt(3);
+
+// Triangular and hexagonal grids share their nodes: a triangular lattice
+// with one side along x. Hexagon centers are the nodes whose (u - v) is a
+// multiple of 3; the rest are hexagon corners.
+const toLattice = ({ x, y }: Point, spacing: number): [number, number] => {
+  const v = y / (spacing * SQRT3 / 2);
+  return [x / spacing - v / 2, v];
+};
+
+const fromLattice = (u: number, v: number, spacing: number): Point => ({
+  x: (u + v / 2) * spacing,
+  y: v * spacing * SQRT3 / 2
+});
+
+const mod3 = (value: number): number => ((value % 3) + 3) % 3;
+
+const rectCorners = ({ x, y, width, height }: Rect): Point[] => [
+  { x, y },
+  { x: x + width, y },
+  { x, y: y + height },
+  { x: x + width, y: y + height }
+];
+
+// Spacing that keeps lines at least MIN_LINE_GAP pixels apart, doubling the
+// grid's own so the drawn lines stay a subset of it
+const thinnedSpacing = (spacing: number, zoom: number): number => {
+  let step = spacing;
+  while (step * zoom < MIN_LINE_GAP) step *= 2;
+  return step;
+};
+
+// The grid node nearest to a point
+export const snapToGrid = (point: Point, grid: GridSettings): Point => {
+  const { origin, spacing } = grid;
+  const local = { x: point.x - origin.x, y: point.y - origin.y };
+
+  switch (grid.type) {
+    case 'square':
+      return {
+        x: origin.x + Math.round(local.x / spacing) * spacing,
+        y: origin.y + Math.round(local.y / spacing) * spacing
+      };
+    case 'triangular':
+    case 'hexagonal': {
+      // The nearest node is a corner of the lattice cell around the point
+      const [u, v] = toLattice(local, spacing);
+      let best = fromLattice(Math.round(u), Math.round(v), spacing);
+      [Math.floor(u), Math.ceil(u)].forEach(cu => [Math.floor(v), Math.ceil(v)].forEach(cv => {
+        const node = fromLattice(cu, cv, spacing);
+        if (Math.hypot(node.x - local.x, node.y - local.y) < Math.hypot(best.x - local.x, best.y - local.y)) best = node;
+      }));
+      return { x: origin.x + best.x, y: origin.y + best.y };
+    }
+    case 'polar': {
+      const radius = Math.round(Math.hypot(local.x, local.y) / spacing) * spacing;
+      if (radius === 0) return { ...origin };
+
+      const sector = 360 / grid.divisions;
+      const angle = Math.round(Math.atan2(local.y, local.x) * 180 / Math.PI / sector) * sector * Math.PI / 180;
+      return { x: origin.x + radius * Math.cos(angle), y: origin.y + radius * Math.sin(angle) };
+    }
+  }
+};
+
+// The move that puts the tile's center or one of its corners on a grid
+// node, whichever is the shorter move
+export const getGridSnapOffset = (tile: Tile, grid: GridSettings): Point => {
+  let best = { x: 0, y: 0 };
+  let bestDistance = Infinity;
+
+  [{ x: tile.x, y: tile.y }, ...getShapeVertices(tile)].forEach(point => {
+    const node = snapToGrid(point, grid);
+    const distance = Math.hypot(node.x - point.x, node.y - point.y);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = { x: node.x - point.x, y: node.y - point.y };
+    }
+  });
+
+  return best;
+};
+
+// SVG path of the grid lines crossing the region, at the given zoom
+export const getGridPath = (grid: GridSettings, region: Rect, zoom: number): string => {
+  const { origin } = grid;
+  const right = region.x + region.width;
+  const bottom = region.y + region.height;
+  const segments: string[] = [];
+  const line = (from: Point, to: Point) => {
+    segments.push(`M${from.x + origin.x} ${from.y + origin.y}L${to.x + origin.x} ${to.y + origin.y}`);
+  };
+
+  if (grid.type === 'square') {
+    const step = thinnedSpacing(grid.spacing, zoom);
+    for (let k = Math.ceil((region.x - origin.x) / step); k * step + origin.x <= right; k++) {
+      segments.push(`M${origin.x + k * step} ${region.y}V${bottom}`);
+    }
+    for (let k = Math.ceil((region.y - origin.y) / step); k * step + origin.y <= bottom; k++) {
+      segments.push(`M${region.x} ${origin.y + k * step}H${right}`);
+    }
+    return segments.join('');
+  }
+
+  if (grid.type === 'polar') {
+    const step = thinnedSpacing(grid.spacing, zoom);
+    const corners = rectCorners(region).map(({ x, y }) => Math.hypot(x - origin.x, y - origin.y));
+    const inside = origin.x >= region.x && origin.x <= right && origin.y >= region.y && origin.y <= bottom;
+    const nearest = inside ? 0 : Math.hypot(
+      Math.max(region.x - origin.x, 0, origin.x - right),
+      Math.max(region.y - origin.y, 0, origin.y - bottom)
+    );
+    const farthest = Math.max(...corners);
+
+    for (let k = Math.max(Math.ceil(nearest / step), 1); k * step <= farthest; k++) {
+      const radius = k * step;
+      segments.push(`M${origin.x + radius} ${origin.y}A${radius} ${radius} 0 1 0 ${origin.x - radius} ${origin.y}A${radius} ${radius} 0 1 0 ${origin.x + radius} ${origin.y}`);
+    }
+    for (let i = 0; i < grid.divisions; i++) {
+      const angle = i * 2 * Math.PI / grid.divisions;
+      line({ x: 0, y: 0 }, { x: farthest * Math.cos(angle), y: farthest * Math.sin(angle) });
+    }
+    return segments.join('');
+  }
+
+  // Lattice coordinate ranges covering the region
+  const coords = rectCorners(region).map(corner => toLattice({ x: corner.x - origin.x, y: corner.y - origin.y }, grid.spacing));
+  const minU = Math.floor(Math.min(...coords.map(c => c[0])));
+  const maxU = Math.ceil(Math.max(...coords.map(c => c[0])));
+  const minV = Math.floor(Math.min(...coords.map(c => c[1])));
+  const maxV = Math.ceil(Math.max(...coords.map(c => c[1])));
+
+  if (grid.type === 'triangular') {
+    const step = thinnedSpacing(grid.spacing, zoom) / grid.spacing;
+    const first = (min: number) => Math.floor(min / step) * step;
+    // Rows along a, then the lines along b and along b - a
+    for (let v = first(minV); v <= maxV; v += step) {
+      line(fromLattice(minU - (maxV - minV), v, grid.spacing), fromLattice(maxU + (maxV - minV), v, grid.spacing));
+    }
+    for (let u = first(minU); u <= maxU; u += step) {
+      line(fromLattice(u, minV, grid.spacing), fromLattice(u, maxV, grid.spacing));
+    }
+    for (let sum = first(minU + minV); sum <= maxU + maxV; sum += step) {
+      line(fromLattice(sum - minV, minV, grid.spacing), fromLattice(sum - maxV, maxV, grid.spacing));
+    }
+    return segments.join('');
+  }
+
+  // Hexagon edges join neighbouring corner nodes. Thinning would not keep
+  // the honeycomb, so a grid too fine to see is left out.
+  if (grid.spacing * zoom < MIN_LINE_GAP) return '';
+
+  for (let u = minU - 1; u <= maxU + 1; u++) {
+    for (let v = minV - 1; v <= maxV + 1; v++) {
+      const residue = mod3(u - v);
+      if (residue === 0) continue;
+
+      const node = fromLattice(u, v, grid.spacing);
+      if (node.x + origin.x < region.x - grid.spacing || node.x + origin.x > right + grid.spacing) continue;
+
+      const neighbours: [number, number][] = residue === 1 ? [[u + 1, v], [u - 1, v + 1]] : [[u, v + 1]];
+      neighbours.forEach(([nu, nv]) => line(node, fromLattice(nu, nv, grid.spacing)));
+    }
+  }
+  return segments.join('');
+};
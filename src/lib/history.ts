@@ -0,0 +1,159 @@
+import { useCallback, useReducer } from 'react';
+
+// Maximum number of undo steps kept in memory
+export const HISTORY_LIMIT = 100;
+
+// A recorded command: the label describes what was done, the state is the
+// document as it was on the other side of the command
+export interface HistoryEntry<T> {
+  label: string;
+  state: T;
+}
+
+interface HistoryState<T> {
+  past: HistoryEntry<T>[];
+  present: T;
+  future: HistoryEntry<T>[];
+  // Snapshot taken when a coalesced command (e.g. a drag) started
+  checkpoint: T | null;
+}
+
+type HistoryAction<T> =
+  | { type: 'commit'; label: string; update: (prev: T) => T }
+  | { type: 'replace'; update: (prev: T) => T }
+  | { type: 'begin' }
+  | { type: 'end'; label: string }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'reset'; present: T };
+
+const pushBounded = <T>(stack: HistoryEntry<T>[], entry: HistoryEntry<T>): HistoryEntry<T>[] => {
+  const next = [...stack, entry];
+  return next.length > HISTORY_LIMIT ? next.slice(next.length - HISTORY_LIMIT) : next;
+};
+
+const historyReducer = <T>(state: HistoryState<T>, action: HistoryAction<T>): HistoryState<T> => {
+  switch (action.type) {
+    case 'commit': {
+      const next = action.update(state.present);
+      if (next === state.present) return state;
+      // While a coalesced command is open, fold commits into it
+      if (state.checkpoint !== null) {
+        return { ...state, present: next };
+      }
+      return {
+        past: pushBounded(state.past, { label: action.label, state: state.present }),
+        present: next,
+        future: [],
+        checkpoint: null
+      };
+    }
+
+    case 'replace': {
+      const next = action.update(state.present);
+      return next === state.present ? state : { ...state, present: next };
+    }
+
+    case 'begin':
+      return state.checkpoint !== null ? state : { ...state, checkpoint: state.present };
+
+    case 'end': {
+      if (state.checkpoint === null) return state;
+      // Nothing changed between begin and end (e.g. a click without a drag)
+      if (state.checkpoint === state.present) {
+        return { ...state, checkpoint: null };
+      }
+      return {
+        past: pushBounded(state.past, { label: action.label, state: state.checkpoint }),
+        present: state.present,
+        future: [],
+        checkpoint: null
+      };
+    }
+
+    case 'undo': {
+      const entry = state.past[state.past.length - 1];
+      if (!entry) return state;
+      return {
+        past: state.past.slice(0, -1),
+        present: entry.state,
+        future: [...state.future, { label: entry.label, state: state.present }],
+        checkpoint: null
+      };
+    }
+
+    case 'redo': {
+      const entry = state.future[state.future.length - 1];
+      if (!entry) return state;
+      return {
+        past: pushBounded(state.past, { label: entry.label, state: state.present }),
+        present: entry.state,
+        future: state.future.slice(0, -1),
+        checkpoint: null
+      };
+    }
+
+    case 'reset':
+      return { past: [], present: action.present, future: [], checkpoint: null };
+  }
+};
+
+// Command-based undo/redo history for an immutable document value.
+// `commit` records one undoable step, `begin`/`end` coalesce every
+// `replace` in between (drags) into a single step.
+export const useHistory = <T>(initial: T) => {
+  const [state, dispatch] = useReducer(
+    historyReducer as (state: HistoryState<T>, action: HistoryAction<T>) => HistoryState<T>,
+    { past: [], present: initial, future: [], checkpoint: null }
+  );
+
+  const commit = useCallback((label: string, update: (prev: T) => T): void => {
+    dispatch({ type: 'commit', label, update });
+  }, []);
+
+  const replace = useCallback((update: (prev: T) => T): void => {
+    dispatch({ type: 'replace', update });
+  }, []);
+
+  const begin = useCallback((): void => {
+    dispatch({ type: 'begin' });
+  }, []);
+
+  const end = useCallback((label: string): void => {
+    dispatch({ type: 'end', label });
+  }, []);
+
+  const reset = useCallback((present: T): void => {
+    dispatch({ type: 'reset', present });
+  }, []);
+
+  // Undo and redo return the entry they applied so callers can announce it
+  const undo = useCallback((): HistoryEntry<T> | null => {
+    const entry = state.past[state.past.length - 1];
+    if (!entry) return null;
+    dispatch({ type: 'undo' });
+    return entry;
+  }, [state.past]);
+
+  const redo = useCallback((): HistoryEntry<T> | null => {
+    const entry = state.future[state.future.length - 1];
+    if (!entry) return null;
+    dispatch({ type: 'redo' });
+    return entry;
+  }, [state.future]);
+
+  return {
+    present: state.present,
+    commit,
+    replace,
+    begin,
+    end,
+    reset,
+    undo,
+    redo,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+    undoLabel: state.past[state.past.length - 1]?.label ?? null,
+    redoLabel: state.future[state.future.length - 1]?.label ?? null
+  };
+};
@@ -0,0 +1,148 @@
+import type { Layer, Scene, Tile, TileGroup } from './types';
+
+export const DEFAULT_LAYER: Layer = { id: 'layer-1', name: 'Layer 1', visible: true, locked: false };
+
+export const DEFAULT_SCENE: Scene = { tiles: [], layers: [DEFAULT_LAYER], groups: [], customShapes: [] };
+
+// First "<prefix> n" not already taken
+export const nextName = (prefix: string, names: string[]): string => {
+  let n = 1;
+  while (names.includes(`${prefix} ${n}`)) n++;
+  return `${prefix} ${n}`;
+};
+
+// Tiles without a known layer belong to the bottom layer
+export const getTileLayer = (tile: Tile, layers: Layer[]): Layer =>
+  layers.find(layer => layer.id === tile.layerId) ?? layers[0];
+
+export const isTileEditable = (tile: Tile, layers: Layer[]): boolean => {
+  const layer = getTileLayer(tile, layers);
+  return layer.visible && !layer.locked;
+};
+
+// Visible tiles in paint order: layers bottom to top, array order within a layer
+export const getDrawOrder = (tiles: Tile[], layers: Layer[]): Tile[] => {
+  const rank = new Map(layers.map((layer, index) => [layer.id, index]));
+
+  return tiles
+    .map((tile, index) => ({ tile, index, layer: getTileLayer(tile, layers) }))
+    .filter(entry => entry.layer.visible)
+    .sort((a, b) => (rank.get(a.layer.id) ?? 0) - (rank.get(b.layer.id) ?? 0) || a.index - b.index)
+    .map(entry => entry.tile);
+};
+
+// Selecting any member of a group selects the whole group
+export const expandToGroups = (tiles: Tile[], ids: readonly string[]): string[] => {
+  const groupIds = new Set(tiles.flatMap(tile => ids.includes(tile.id) && tile.groupId ? [tile.groupId] : []));
+  if (groupIds.size === 0) return [...ids];
+
+  const members = tiles.filter(tile => tile.groupId && groupIds.has(tile.groupId)).map(tile => tile.id);
+  return Array.from(new Set([...ids, ...members]));
+};
+
+// Move the tiles one step up (1) or down (-1) past their unselected
+// neighbours, each within its own layer
+export const restackTiles = (scene: Scene, ids: readonly string[], direction: 1 | -1): Scene => {
+  const { tiles, layers } = scene;
+  const next = [...tiles];
+  let changed = false;
+
+  layers.forEach(layer => {
+    const slots = tiles.flatMap((tile, index) => getTileLayer(tile, layers).id === layer.id ? [index] : []);
+    const stack = slots.map(index => tiles[index]);
+    const isMoving = (index: number) => ids.includes(stack[index].id);
+
+    if (direction === 1) {
+      for (let i = stack.length - 2; i >= 0; i--) {
+        if (isMoving(i) && !isMoving(i + 1)) {
+          [stack[i], stack[i + 1]] = [stack[i + 1], stack[i]];
+          changed = true;
+        }
+      }
+    } else {
+      for (let i = 1; i < stack.length; i++) {
+        if (isMoving(i) && !isMoving(i - 1)) {
+          [stack[i], stack[i - 1]] = [stack[i - 1], stack[i]];
+          changed = true;
+        }
+      }
+    }
+
+    slots.forEach((slot, index) => {
+      next[slot] = stack[index];
+    });
+  });
+
+  return changed ? { ...scene, tiles: next } : scene;
+};
+
+// Put the tiles into a new group on the layer of the first of them
+export const groupTiles = (scene: Scene, ids: readonly string[], group: TileGroup): Scene => {
+  const first = scene.tiles.find(tile => ids.includes(tile.id));
+  if (!first) return scene;
+
+  const layerId = getTileLayer(first, scene.layers).id;
+  return {
+    ...scene,
+    tiles: scene.tiles.map(tile => ids.includes(tile.id) ? { ...tile, layerId, groupId: group.id } : tile),
+    groups: [...scene.groups, group]
+  };
+};
+
+// Dissolve every group the tiles belong to
+export const ungroupTiles = (scene: Scene, ids: readonly string[]): Scene => {
+  const groupIds = new Set(scene.tiles.flatMap(tile => ids.includes(tile.id) && tile.groupId ? [tile.groupId] : []));
+  if (groupIds.size === 0) return scene;
+
+  return {
+    ...scene,
+    tiles: scene.tiles.map(tile => tile.groupId && groupIds.has(tile.groupId) ? { ...tile, groupId: undefined } : tile),
+    groups: scene.groups.filter(group => !groupIds.has(group.id))
+  };
+};
+
+// Move the tiles (and the rest of their groups) to another layer
+export const moveTilesToLayer = (scene: Scene, ids: readonly string[], layerId: string): Scene => {
+  const moving = expandToGroups(scene.tiles, ids);
+  return {
+    ...scene,
+    tiles: scene.tiles.map(tile => moving.includes(tile.id) && tile.layerId !== layerId ? { ...tile, layerId } : tile)
+  };
+};
+
+export const updateLayer = (scene: Scene, layerId: string, changes: Partial<Omit<Layer, 'id'>>): Scene => ({
+  ...scene,
+  layers: scene.layers.map(layer => layer.id === layerId ? { ...layer, ...changes } : layer)
+});
+
+// Swap a layer with the one above (1) or below (-1)
+export const moveLayer = (scene: Scene, layerId: string, direction: 1 | -1): Scene => {
+  const index = scene.layers.findIndex(layer => layer.id === layerId);
+  const target = index + direction;
+  if (index < 0 || target < 0 || target >= scene.layers.length) return scene;
+
+  const layers = [...scene.layers];
+  [layers[index], layers[target]] = [layers[target], layers[index]];
+  return { ...scene, layers };
+};
+
+// Delete a layer with its tiles. The last layer always stays.
+export const removeLayer = (scene: Scene, layerId: string): Scene => {
+  if (scene.layers.length <= 1) return scene;
+
+  const layers = scene.layers.filter(layer => layer.id !== layerId);
+  if (layers.length === scene.layers.length) return scene;
+
+  return {
+    ...scene,
+    layers,
+    tiles: scene.tiles.filter(tile => getTileLayer(tile, scene.layers).id !== layerId)
+  };
+};
+
+// Drop groups left without members, e.g. after their tiles were deleted.
+// Returns the same scene when nothing changed.
+export const pruneGroups = (scene: Scene): Scene => {
+  const groups = scene.groups.filter(group => scene.tiles.some(tile => tile.groupId === group.id));
+  return groups.length === scene.groups.length ? scene : { ...scene, groups };
+};
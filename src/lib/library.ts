@@ -0,0 +1,134 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { loadLibrary, loadPalettes, saveLibrary, savePalettes } from './storage';
+import type { SavedDesign, SavedPalette } from './storage';
+import type { DesignSnapshot, Palette } from './types';
+
+const generateDesignId = (): string => `design-${Math.random().toString(36).substring(2, 11)}`;
+const generatePaletteId = (): string => `palette-${Math.random().toString(36).substring(2, 11)}`;
+
+// Named designs kept in browser storage ("My Designs")
+export const useDesignLibrary = () => {
+  const [designs, setDesigns] = useState<SavedDesign[]>([]);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [loaded, setLoaded] = useState<boolean>(false);
+  const unreadableRef = useRef<unknown[]>([]);
+  // Storage is only written once the user changes something
+  const changedRef = useRef<boolean>(false);
+
+  // Storage is only available in the browser, so load after mount
+  useEffect(() => {
+    const { entries, unreadable } = loadLibrary();
+    unreadableRef.current = unreadable;
+    setDesigns(entries);
+    setLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (!loaded || !changedRef.current) return;
+    setStorageError(saveLibrary({ entries: designs, unreadable: unreadableRef.current })
+      ? null
+      : 'Could not write to browser storage. It may be full or disabled.');
+  }, [designs, loaded]);
+
+  const changeDesigns = useCallback((update: (prev: SavedDesign[]) => SavedDesign[]): void => {
+    changedRef.current = true;
+    setDesigns(update);
+  }, []);
+
+  // Create a new design, or overwrite an existing one when an id is given
+  const saveDesign = useCallback((
+    name: string,
+    snapshot: DesignSnapshot,
+    thumbnail: string,
+    id?: string
+  ): string => {
+    const now = Date.now();
+    const designId = id ?? generateDesignId();
+
+    changeDesigns(prev => {
+      const existing = prev.find(d => d.id === designId);
+      if (existing) {
+        return prev.map(d => d.id === designId
+          ? { ...d, name, snapshot, thumbnail, updatedAt: now }
+          : d
+        );
+      }
+      return [...prev, { id: designId, name, snapshot, thumbnail, createdAt: now, updatedAt: now }];
+    });
+
+    return designId;
+  }, [changeDesigns]);
+
+  const renameDesign = useCallback((id: string, name: string): void => {
+    changeDesigns(prev => prev.map(d => d.id === id ? { ...d, name, updatedAt: Date.now() } : d));
+  }, [changeDesigns]);
+
+  const duplicateDesign = useCallback((id: string): void => {
+    changeDesigns(prev => {
+      const original = prev.find(d => d.id === id);
+      if (!original) return prev;
+
+      const now = Date.now();
+      return [...prev, {
+        ...original,
+        id: generateDesignId(),
+        name: `${original.name} copy`,
+        createdAt: now,
+        updatedAt: now
+      }];
+    });
+  }, [changeDesigns]);
+
+  const deleteDesign = useCallback((id: string): void => {
+    changeDesigns(prev => prev.filter(d => d.id !== id));
+  }, [changeDesigns]);
+
+  return { designs, storageError, saveDesign, renameDesign, duplicateDesign, deleteDesign };
+};
+
+// Named palettes kept in browser storage, shared by all designs
+export const usePaletteLibrary = () => {
+  const [palettes, setPalettes] = useState<SavedPalette[]>([]);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [loaded, setLoaded] = useState<boolean>(false);
+  const unreadableRef = useRef<unknown[]>([]);
+  const changedRef = useRef<boolean>(false);
+
+  useEffect(() => {
+    const { entries, unreadable } = loadPalettes();
+    unreadableRef.current = unreadable;
+    setPalettes(entries);
+    setLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (!loaded || !changedRef.current) return;
+    setStorageError(savePalettes({ entries: palettes, unreadable: unreadableRef.current })
+      ? null
+      : 'Could not write to browser storage. It may be full or disabled.');
+  }, [palettes, loaded]);
+
+  const changePalettes = useCallback((update: (prev: SavedPalette[]) => SavedPalette[]): void => {
+    changedRef.current = true;
+    setPalettes(update);
+  }, []);
+
+  // Saving under a name that is already taken replaces that palette
+  const savePalette = useCallback(({ name, colors }: Palette): void => {
+    const now = Date.now();
+
+    changePalettes(prev => {
+      const existing = prev.find(p => p.name === name);
+      if (existing) {
+        return prev.map(p => p.id === existing.id ? { ...p, colors, updatedAt: now } : p);
+      }
+      return [...prev, { id: generatePaletteId(), name, colors, updatedAt: now }];
+    });
+  }, [changePalettes]);
+
+  const deletePalette = useCallback((id: string): void => {
+    changePalettes(prev => prev.filter(p => p.id !== id));
+  }, [changePalettes]);
+
+  return { palettes, storageError, savePalette, deletePalette };
+};
@@ -0,0 +1,312 @@
+import { hexToRgb, normalizeHex, rgbToHex } from './color';
+import { SHAPES } from './shapes';
+import { SHAPE_TYPES } from './types';
+import type { Palette } from './types';
+
+export type PaletteFormat = 'gpl' | 'ase' | 'json';
+
+export type PaletteImport =
+  | { ok: true; palette: Palette; skipped: number }
+  | { ok: false; error: string };
+
+export const MAX_PALETTE_COLORS = 64;
+
+export const DEFAULT_PALETTE: Palette = {
+  name: 'Default',
+  colors: [
+    '#3b82f6', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6',
+    '#ec4899', '#06b6d4', '#84cc16', '#f97316', '#6366f1'
+  ]
+};
+
+// Built-in starting points: the default swatches and the colors the shape
+// library and the tiling generator give each shape
+export const PRESET_PALETTES: readonly Palette[] = [
+  DEFAULT_PALETTE,
+  {
+    name: 'Shape colors',
+    colors: [...new Set(SHAPE_TYPES.map(shape => SHAPES[shape].color))]
+  }
+];
+
+export const PALETTE_FORMATS: readonly PaletteFormat[] = ['gpl', 'ase', 'json'];
+
+export const PALETTE_FORMAT_LABELS: Record<PaletteFormat, string> = {
+  gpl: 'GIMP palette (.gpl)',
+  ase: 'Adobe Swatch Exchange (.ase)',
+  json: 'JSON (.json)'
+};
+
+const PALETTE_FILE_FORMAT = 'tessellation-palette';
+const PALETTE_FILE_VERSION = 1;
+
+const GPL_HEADER = 'GIMP Palette';
+const GPL_COLUMNS = 5;
+
+const ASE_SIGNATURE = 'ASEF';
+const ASE_GROUP_START = 0xc001;
+const ASE_GROUP_END = 0xc002;
+const ASE_COLOR = 0x0001;
+const ASE_GLOBAL_COLOR = 0;
+
+const MIME_TYPES: Record<PaletteFormat, string> = {
+  gpl: 'text/plain',
+  ase: 'application/octet-stream',
+  json: 'application/json'
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const baseName = (fileName: string): string => fileName.replace(/\.[^.]*$/, '') || 'Imported palette';
+
+// Drop duplicates and anything past the size limit, counting what was left out
+const finishImport = (name: string, colors: string[], invalid: number): PaletteImport => {
+  const unique = colors.filter((color, index) => colors.indexOf(color) === index);
+  if (unique.length === 0) return { ok: false, error: 'The file contains no colors' };
+
+  return {
+    ok: true,
+    palette: { name, colors: unique.slice(0, MAX_PALETTE_COLORS) },
+    skipped: invalid + Math.max(0, unique.length - MAX_PALETTE_COLORS)
+  };
+};
+
+// GIMP palettes are text: a header, optional Name and Columns lines, then
+// one "R G B name" line per color. Lines starting with # are comments.
+const parseGpl = (text: string, fallbackName: string): PaletteImport => {
+  const lines = text.split(/\r?\n/);
+  let name = fallbackName;
+  const colors: string[] = [];
+  let invalid = 0;
+
+  lines.slice(1).forEach(line => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) return;
+
+    const header = /^(Name|Columns):\s*(.*)$/i.exec(trimmed);
+    if (header) {
+      if (header[1].toLowerCase() === 'name' && header[2]) name = header[2];
+      return;
+    }
+
+    const channels = /^(\d+)\s+(\d+)\s+(\d+)/.exec(trimmed);
+    const [r, g, b] = channels ? channels.slice(1).map(Number) : [];
+    if (channels && [r, g, b].every(channel => channel <= 255)) {
+      colors.push(rgbToHex({ r, g, b }));
+    } else {
+      invalid++;
+    }
+  });
+
+  return finishImport(name, colors, invalid);
+};
+
+const serializeGpl = (palette: Palette): string => [
+  GPL_HEADER,
+  `Name: ${palette.name}`,
+  `Columns: ${GPL_COLUMNS}`,
+  '#',
+  ...palette.colors.map(color => {
+    const { r, g, b } = hexToRgb(color);
+    return `${[r, g, b].map(channel => String(channel).padStart(3, ' ')).join(' ')}\t${color}`;
+  })
+].join('\n') + '\n';
+
+// CIE L*a*b* (D50, as Adobe stores it) to sRGB
+const labToRgb = (l: number, a: number, b: number): [number, number, number] => {
+  const fy = (l + 16) / 116;
+  const fx = fy + a / 500;
+  const fz = fy - b / 200;
+  const inverse = (t: number) => t ** 3 > 0.008856 ? t ** 3 : (t - 16 / 116) / 7.787;
+  const [x, y, z] = [inverse(fx) * 0.9642, inverse(fy), inverse(fz) * 0.8249];
+
+  const linear = [
+    3.1338561 * x - 1.6168667 * y - 0.4906146 * z,
+    -0.9787684 * x + 1.9161415 * y + 0.0334540 * z,
+    0.0719453 * x - 0.2289914 * y + 1.4052427 * z
+  ];
+  const [red, green, blue] = linear.map(channel => {
+    const value = Math.max(0, Math.min(1, channel));
+    return value <= 0.0031308 ? value * 12.92 : 1.055 * value ** (1 / 2.4) - 0.055;
+  });
+  return [red, green, blue];
+};
+
+// Adobe Swatch Exchange: a big-endian block list of color entries, optionally
+// inside named groups. The first group's name becomes the palette name.
+const parseAse = (view: DataView, fallbackName: string): PaletteImport => {
+  let name: string | null = null;
+  const colors: string[] = [];
+  let invalid = 0;
+  let offset = 12;
+
+  const readName = (): string => {
+    const length = view.getUint16(offset);
+    offset += 2;
+    let text = '';
+    for (let i = 0; i < length; i++) {
+      const code = view.getUint16(offset + i * 2);
+      if (code !== 0) text += String.fromCharCode(code);
+    }
+    offset += length * 2;
+    return text;
+  };
+
+  try {
+    const blockCount = view.getUint32(8);
+    for (let block = 0; block < blockCount; block++) {
+      const type = view.getUint16(offset);
+      const length = view.getUint32(offset + 2);
+      const end = offset + 6 + length;
+      offset += 6;
+
+      if (type === ASE_GROUP_START) {
+        const groupName = readName();
+        if (name === null && groupName) name = groupName;
+      } else if (type === ASE_COLOR) {
+        readName();
+        const model = String.fromCharCode(...[0, 1, 2, 3].map(i => view.getUint8(offset + i))).trim();
+        const value = (index: number) => view.getFloat32(offset + 4 + index * 4);
+
+        let rgb: [number, number, number] | null = null;
+        if (model === 'RGB') {
+          rgb = [value(0), value(1), value(2)];
+        } else if (model === 'CMYK') {
+          const k = value(3);
+          rgb = [0, 1, 2].map(index => (1 - value(index)) * (1 - k)) as [number, number, number];
+        } else if (model === 'Gray') {
+          rgb = [value(0), value(0), value(0)];
+        } else if (model === 'LAB') {
+          rgb = labToRgb(value(0) * 100, value(1), value(2));
+        }
+
+        if (rgb) {
+          colors.push(rgbToHex({ r: rgb[0] * 255, g: rgb[1] * 255, b: rgb[2] * 255 }));
+        } else {
+          invalid++;
+        }
+      } else if (type !== ASE_GROUP_END) {
+        invalid++;
+      }
+
+      offset = end;
+    }
+  } catch {
+    // DataView throws on reads past the end of a truncated file
+    if (colors.length === 0) return { ok: false, error: 'The swatch file is damaged or incomplete' };
+  }
+
+  return finishImport(name ?? fallbackName, colors, invalid);
+};
+
+const serializeAse = (palette: Palette): ArrayBuffer => {
+  const nameBytes = (text: string) => 2 + (text.length + 1) * 2;
+  const colorBlock = (color: string) => nameBytes(color) + 4 + 3 * 4 + 2;
+
+  const size = 12
+    + 6 + nameBytes(palette.name)
+    + palette.colors.reduce((total, color) => total + 6 + colorBlock(color), 0)
+    + 6;
+  const view = new DataView(new ArrayBuffer(size));
+  let offset = 0;
+
+  const writeName = (text: string) => {
+    view.setUint16(offset, text.length + 1);
+    offset += 2;
+    for (let i = 0; i < text.length; i++) {
+      view.setUint16(offset, text.charCodeAt(i));
+      offset += 2;
+    }
+    offset += 2; // zero terminator
+  };
+  const writeBlockHeader = (type: number, length: number) => {
+    view.setUint16(offset, type);
+    view.setUint32(offset + 2, length);
+    offset += 6;
+  };
+
+  ASE_SIGNATURE.split('').forEach((char, index) => view.setUint8(index, char.charCodeAt(0)));
+  view.setUint16(4, 1);
+  view.setUint16(6, 0);
+  view.setUint32(8, palette.colors.length + 2);
+  offset = 12;
+
+  writeBlockHeader(ASE_GROUP_START, nameBytes(palette.name));
+  writeName(palette.name);
+
+  palette.colors.forEach(color => {
+    writeBlockHeader(ASE_COLOR, colorBlock(color));
+    writeName(color);
+    'RGB '.split('').forEach((char, index) => view.setUint8(offset + index, char.charCodeAt(0)));
+    offset += 4;
+    const { r, g, b } = hexToRgb(color);
+    [r, g, b].forEach(channel => {
+      view.setFloat32(offset, channel / 255);
+      offset += 4;
+    });
+    view.setUint16(offset, ASE_GLOBAL_COLOR);
+    offset += 2;
+  });
+
+  writeBlockHeader(ASE_GROUP_END, 0);
+  return view.buffer as ArrayBuffer;
+};
+
+// { "format": "tessellation-palette", "version": 1, "name": "...", "colors": ["#3b82f6", ...] }
+const parseJson = (text: string, fallbackName: string): PaletteImport => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { ok: false, error: 'The file is not a GIMP, Adobe swatch or JSON palette' };
+  }
+
+  if (!isRecord(raw) || raw.format !== PALETTE_FILE_FORMAT) {
+    return { ok: false, error: `Expected a JSON palette with "format": "${PALETTE_FILE_FORMAT}"` };
+  }
+  if (typeof raw.version === 'number' && raw.version > PALETTE_FILE_VERSION) {
+    return { ok: false, error: `The palette was saved by a newer version (format version ${raw.version})` };
+  }
+  if (!Array.isArray(raw.colors)) return { ok: false, error: 'Expected a list of colors' };
+
+  const colors = raw.colors.map(color => typeof color === 'string' ? normalizeHex(color) : null);
+  return finishImport(
+    typeof raw.name === 'string' && raw.name ? raw.name : fallbackName,
+    colors.filter((color): color is string => color !== null),
+    colors.filter(color => color === null).length
+  );
+};
+
+// Read a palette file, telling the formats apart by their content
+export const parsePaletteFile = (fileName: string, data: ArrayBuffer): PaletteImport => {
+  const fallbackName = baseName(fileName);
+  const view = new DataView(data);
+
+  if (data.byteLength >= 12 && String.fromCharCode(...[0, 1, 2, 3].map(i => view.getUint8(i))) === ASE_SIGNATURE) {
+    return parseAse(view, fallbackName);
+  }
+
+  const text = new TextDecoder().decode(data).replace(/^\uFEFF/, '');
+  if (text.startsWith(GPL_HEADER)) return parseGpl(text, fallbackName);
+  return parseJson(text, fallbackName);
+};
+
+export const serializePalette = (palette: Palette, format: PaletteFormat): Blob => {
+  switch (format) {
+    case 'gpl':
+      return new Blob([serializeGpl(palette)], { type: MIME_TYPES.gpl });
+    case 'ase':
+      return new Blob([serializeAse(palette)], { type: MIME_TYPES.ase });
+    case 'json':
+      return new Blob([JSON.stringify({
+        format: PALETTE_FILE_FORMAT,
+        version: PALETTE_FILE_VERSION,
+        name: palette.name,
+        colors: palette.colors
+      }, null, 2)], { type: MIME_TYPES.json });
+  }
+};
+
+export const getPaletteFileName = (palette: Palette, format: PaletteFormat): string =>
+  `${palette.name.trim().replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '') || 'palette'}.${format}`;
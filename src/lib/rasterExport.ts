@@ -0,0 +1,156 @@
+export type RasterFormat = 'png' | 'jpeg';
+
+export interface RasterExportOptions {
+  format: RasterFormat;
+  scale: number; // output pixels per SVG unit
+  dpi: number; // resolution written into the file metadata
+  includeGrid: boolean;
+  background: string | null; // null keeps the background transparent (PNG only)
+  quality: number; // JPEG quality, 0-1
+}
+
+// Browsers refuse to allocate canvases much larger than this
+export const MAX_RASTER_SIDE = 8192;
+
+// CSS pixels per inch: one SVG unit at scale 1 prints at this resolution
+export const BASE_DPI = 96;
+
+const MIME_TYPES: Record<RasterFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg'
+};
+
+// Elements tagged with data-export are editor layers that can be left out.
+// Selection outlines and mirror markers are overlays; drag dimming is a CSS
+// class, and the page's stylesheet never reaches the exported image.
+const GRID_SELECTOR = '[data-export="grid"]';
+const OVERLAY_SELECTOR = '[data-export="overlay"]';
+
+export const getRasterSize = (svg: SVGSVGElement, scale: number): { width: number; height: number } => {
+  const viewBox = svg.viewBox.baseVal;
+  return {
+    width: Math.round(viewBox.width * scale),
+    height: Math.round(viewBox.height * scale)
+  };
+};
+
+// CRC-32 as used by PNG chunks
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Insert a pHYs chunk right after IHDR so print software picks up the DPI
+const setPngDpi = (bytes: Uint8Array, dpi: number): Uint8Array => {
+  const pixelsPerMeter = Math.round(dpi / 0.0254);
+  const chunk = new Uint8Array(21);
+  const view = new DataView(chunk.buffer);
+
+  view.setUint32(0, 9);
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+  view.setUint32(8, pixelsPerMeter);
+  view.setUint32(12, pixelsPerMeter);
+  chunk[16] = 1; // unit: meter
+  view.setUint32(17, crc32(chunk.subarray(4, 17)));
+
+  // 8-byte signature + IHDR (4 length + 4 type + 13 data + 4 crc)
+  const insertAt = 33;
+  const result = new Uint8Array(bytes.length + chunk.length);
+  result.set(bytes.subarray(0, insertAt), 0);
+  result.set(chunk, insertAt);
+  result.set(bytes.subarray(insertAt), insertAt + chunk.length);
+  return result;
+};
+
+// Rewrite the density fields of the JFIF APP0 header
+const setJpegDpi = (bytes: Uint8Array, dpi: number): Uint8Array => {
+  const isJfif = bytes[2] === 0xff && bytes[3] === 0xe0 &&
+    bytes[6] === 0x4a && bytes[7] === 0x46 && bytes[8] === 0x49 && bytes[9] === 0x46;
+  if (!isJfif) return bytes;
+
+  const result = bytes.slice();
+  const view = new DataView(result.buffer);
+  result[13] = 1; // unit: dots per inch
+  view.setUint16(14, Math.round(dpi));
+  view.setUint16(16, Math.round(dpi));
+  return result;
+};
+
+const loadImage = (url: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('The canvas could not be rendered as an image'));
+    image.src = url;
+  });
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => blob ? resolve(blob) : reject(new Error('The browser could not encode the image')),
+      type,
+      quality
+    );
+  });
+
+// Render the live canvas SVG to a bitmap. The SVG is cloned so the output
+// uses exactly the same tile markup as the screen.
+export const renderRaster = async (svg: SVGSVGElement, options: RasterExportOptions): Promise<Blob> => {
+  const { width, height } = getRasterSize(svg, options.scale);
+  if (width > MAX_RASTER_SIDE || height > MAX_RASTER_SIDE) {
+    throw new Error(`Image would be ${width}×${height}px; the largest supported side is ${MAX_RASTER_SIDE}px`);
+  }
+
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+  clone.querySelectorAll(OVERLAY_SELECTOR).forEach(node => node.remove());
+  if (!options.includeGrid) {
+    clone.querySelectorAll(GRID_SELECTOR).forEach(node => node.remove());
+  }
+
+  const svgData = new XMLSerializer().serializeToString(clone);
+  const url = URL.createObjectURL(new Blob([svgData], { type: 'image/svg+xml' }));
+
+  try {
+    const image = await loadImage(url);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('The browser could not create a drawing canvas');
+
+    // JPEG has no alpha channel, so it always gets a solid background
+    const background = options.background ?? (options.format === 'jpeg' ? '#ffffff' : null);
+    if (background) {
+      context.fillStyle = background;
+      context.fillRect(0, 0, width, height);
+    }
+    context.drawImage(image, 0, 0, width, height);
+
+    const blob = await canvasToBlob(canvas, MIME_TYPES[options.format], options.quality);
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const withDpi = options.format === 'png' ? setPngDpi(bytes, options.dpi) : setJpegDpi(bytes, options.dpi);
+
+    return new Blob([withDpi], { type: MIME_TYPES[options.format] });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
@@ -0,0 +1,28 @@
+// Step sizes offered for keyboard and button rotation. 30 and 60 suit
+// triangles and hexagons, 45 and 90 suit squares and diamonds, 36 suits
+// pentagons, kites and darts.
+export const ROTATION_STEPS: readonly number[] = [15, 30, 36, 45, 60, 90];
+export const DEFAULT_ROTATION_STEP = 45;
+
+// Float noise from repeated steps shouldn't leave angles like 59.99999.
+// Only noise is cleared: an angle that is truly off the thousandths, like a
+// heptagon's multiples of 360/7, is kept exact so snapped edges stay parallel.
+const NOISE = 1e-9;
+const round = (angle: number): number => {
+  const rounded = Math.round(angle * 1000) / 1000;
+  return Math.abs(rounded - angle) < NOISE ? rounded : angle;
+};
+
+// Rounded before wrapping, so float noise just below 0 doesn't become 360
+export const normalizeAngle = (angle: number): number => ((round(angle) % 360) + 360) % 360;
+
+export const snapAngle = (angle: number, step: number): number => normalizeAngle(Math.round(angle / step) * step);
+
+// Next multiple of the step in the given direction, so a tile at a free
+// angle lands back on the step grid instead of keeping its offset
+export const stepRotation = (angle: number, step: number, direction: 1 | -1): number => {
+  const index = angle / step;
+  const nearest = Math.round(index);
+  const current = Math.abs(index - nearest) < 1e-6 ? nearest : direction > 0 ? Math.floor(index) : Math.ceil(index);
+  return normalizeAngle((current + direction) * step);
+};
@@ -0,0 +1,67 @@
+import { normalizeAngle } from './rotation';
+import { queryRect } from './spatialIndex';
+import type { SpatialIndex } from './spatialIndex';
+import type { Point, Tile } from './types';
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Rectangle spanned by two corners, in any drag direction
+export const rectFromPoints = (start: Point, end: Point): Rect => ({
+  x: Math.min(start.x, end.x),
+  y: Math.min(start.y, end.y),
+  width: Math.abs(end.x - start.x),
+  height: Math.abs(end.y - start.y)
+});
+
+// Shared centroid of the tile centers, the pivot for group rotation and flips
+export const getCentroid = (tiles: Tile[]): Point => ({
+  x: tiles.reduce((sum, tile) => sum + tile.x, 0) / tiles.length,
+  y: tiles.reduce((sum, tile) => sum + tile.y, 0) / tiles.length
+});
+
+// Ids of the indexed tiles a marquee touches that pass the filter. Mirrors
+// resolve to their originals, since only originals can be edited.
+export const getTilesInRect = (index: SpatialIndex, rect: Rect, include: (tile: Tile) => boolean = () => true): string[] => {
+  const ids = new Set<string>();
+
+  queryRect(index, rect).forEach(({ tile }) => {
+    if (include(tile)) ids.add(tile.isSymmetryMirror && tile.originalId ? tile.originalId : tile.id);
+  });
+
+  return Array.from(ids);
+};
+
+export const translateTiles = (tiles: Tile[], ids: readonly string[], dx: number, dy: number): Tile[] =>
+  dx === 0 && dy === 0
+    ? tiles
+    : tiles.map(tile => ids.includes(tile.id) ? { ...tile, x: tile.x + dx, y: tile.y + dy } : tile);
+
+// Turn the tiles as one rigid body about a pivot
+export const rotateTilesAbout = (tiles: Tile[], ids: readonly string[], angle: number, pivot: Point): Tile[] => {
+  const cos = Math.cos(angle * Math.PI / 180);
+  const sin = Math.sin(angle * Math.PI / 180);
+
+  return tiles.map(tile => {
+    if (!ids.includes(tile.id)) return tile;
+
+    const dx = tile.x - pivot.x;
+    const dy = tile.y - pivot.y;
+    return {
+      ...tile,
+      x: pivot.x + dx * cos - dy * sin,
+      y: pivot.y + dx * sin + dy * cos,
+      rotation: normalizeAngle(tile.rotation + angle)
+    };
+  });
+};
+
+// Mirror the tiles across the vertical line through a pivot
+export const flipTilesAbout = (tiles: Tile[], ids: readonly string[], pivot: Point): Tile[] =>
+  tiles.map(tile => ids.includes(tile.id)
+    ? { ...tile, x: 2 * pivot.x - tile.x, rotation: normalizeAngle(-tile.rotation), flipX: !tile.flipX }
+    : tile);
@@ -0,0 +1,315 @@
+import { normalizeAngle } from './rotation';
+import { SHAPE_TYPES } from './types';
+import type { CustomShape, CustomShapeId, Edge, Point, ShapeId, ShapeType, Tile } from './types';
+
+// Side length shared by the regular polygons, so any two fit edge to edge
+export const EDGE_LENGTH = 50;
+
+// Golden ratio, the long to short side of the Penrose kite and dart
+const PHI = (1 + Math.sqrt(5)) / 2;
+
+// Corners of a regular polygon around the origin, clockwise on screen and
+// starting with the flat bottom edge
+const regularPolygon = (sides: number): Point[] => {
+  const radius = EDGE_LENGTH / (2 * Math.sin(Math.PI / sides));
+  return Array.from({ length: sides }, (_, i) => {
+    const angle = (90 - 180 / sides + i * 360 / sides) * Math.PI / 180;
+    return { x: radius * Math.cos(angle), y: radius * Math.sin(angle) };
+  });
+};
+
+// Move an outline so its centroid is at the origin
+export const centerOutline = (outline: Point[]): Point[] => {
+  let area = 0;
+  let cx = 0;
+  let cy = 0;
+  outline.forEach((point, i) => {
+    const next = outline[(i + 1) % outline.length];
+    const cross = point.x * next.y - next.x * point.y;
+    area += cross / 2;
+    cx += (point.x + next.x) * cross / 6;
+    cy += (point.y + next.y) * cross / 6;
+  });
+  return outline.map(({ x, y }) => ({ x: x - cx / area, y: y - cy / area }));
+};
+
+// Whether an outline can be a tile: at least 3 corners, some area, and no
+// side crossing or touching another except its neighbours at shared corners
+export const isSimpleOutline = (outline: Point[]): boolean => {
+  if (outline.length < 3) return false;
+
+  const area = outline.reduce((sum, point, i) => {
+    const next = outline[(i + 1) % outline.length];
+    return sum + point.x * next.y - next.x * point.y;
+  }, 0) / 2;
+  if (Math.abs(area) < 1) return false;
+
+  const cross = (a: Point, b: Point, c: Point) => (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+  const onSegment = (a: Point, b: Point, p: Point) =>
+    Math.min(a.x, b.x) <= p.x && p.x <= Math.max(a.x, b.x) && Math.min(a.y, b.y) <= p.y && p.y <= Math.max(a.y, b.y);
+  const touches = (a: Point, b: Point, c: Point, d: Point) => {
+    const [d1, d2, d3, d4] = [cross(c, d, a), cross(c, d, b), cross(a, b, c), cross(a, b, d)];
+    if (((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0))) return true;
+    return (d1 === 0 && onSegment(c, d, a)) || (d2 === 0 && onSegment(c, d, b)) ||
+      (d3 === 0 && onSegment(a, b, c)) || (d4 === 0 && onSegment(a, b, d));
+  };
+
+  const n = outline.length;
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      // Neighbouring sides share a corner by design
+      if (j === i + 1 || (i === 0 && j === n - 1)) continue;
+      if (touches(outline[i], outline[(i + 1) % n], outline[j], outline[(j + 1) % n])) return false;
+    }
+  }
+  return true;
+};
+
+// Corners of the polygon traced side by side, clockwise on screen: each
+// side is followed by the interior angle, in degrees, at its far corner.
+// The first side runs right to left along the bottom, and the outline is
+// centered on its centroid so tiles turn about their middle.
+const tracePolygon = (sides: [length: number, angle: number][]): Point[] => {
+  let heading = 180;
+  const corners = sides.reduce<Point[]>((points, [length, angle]) => {
+    const last = points[points.length - 1];
+    const radians = heading * Math.PI / 180;
+    heading += 180 - angle;
+    return [...points, { x: last.x + length * Math.cos(radians), y: last.y + length * Math.sin(radians) }];
+  }, [{ x: 0, y: 0 }]).slice(0, -1);
+  return centerOutline(corners);
+};
+
+// Rhombus with the given acute angle at its bottom left corner
+const rhombus = (angle: number): Point[] =>
+  tracePolygon([[EDGE_LENGTH, angle], [EDGE_LENGTH, 180 - angle], [EDGE_LENGTH, angle], [EDGE_LENGTH, 180 - angle]]);
+
+export type ShapeCategory = 'regular' | 'rhombus' | 'kite' | 'trapezoid' | 'pentagon' | 'custom';
+
+export const SHAPE_CATEGORIES: Record<ShapeCategory, string> = {
+  regular: 'Regular polygons',
+  rhombus: 'Rhombi',
+  kite: 'Kites & darts',
+  trapezoid: 'Trapezoids',
+  pentagon: 'Tiling pentagons',
+  custom: 'Custom shapes'
+};
+
+interface ShapeDefinition {
+  name: string;
+  category: ShapeCategory;
+  color: string;
+  vertices: Point[]; // outline around the center; the first edge is the base
+  suggest?: boolean; // offered by smart fill
+}
+
+// Every shape is defined here once; its path, edges, bounds and suggestions
+// all come from the vertices. Sides are EDGE_LENGTH unless noted, and at
+// rotation 0 every shape but the diamond rests on its base.
+const SHAPE_LIBRARY: Record<ShapeType, ShapeDefinition> = {
+  triangle: { name: 'Triangle', category: 'regular', color: '#3b82f6', vertices: regularPolygon(3), suggest: true },
+  square: { name: 'Square', category: 'regular', color: '#ef4444', vertices: regularPolygon(4), suggest: true },
+  pentagon: { name: 'Pentagon', category: 'regular', color: '#f97316', vertices: regularPolygon(5) },
+  hexagon: { name: 'Hexagon', category: 'regular', color: '#10b981', vertices: regularPolygon(6), suggest: true },
+  heptagon: { name: 'Heptagon', category: 'regular', color: '#84cc16', vertices: regularPolygon(7) },
+  octagon: { name: 'Octagon', category: 'regular', color: '#8b5cf6', vertices: regularPolygon(8) },
+  nonagon: { name: 'Nonagon', category: 'regular', color: '#06b6d4', vertices: regularPolygon(9) },
+  decagon: { name: 'Decagon', category: 'regular', color: '#6366f1', vertices: regularPolygon(10) },
+  hendecagon: { name: 'Hendecagon', category: 'regular', color: '#14b8a6', vertices: regularPolygon(11) },
+  dodecagon: { name: 'Dodecagon', category: 'regular', color: '#ec4899', vertices: regularPolygon(12) },
+  // A square standing on a corner
+  diamond: {
+    name: 'Diamond',
+    category: 'rhombus',
+    color: '#f59e0b',
+    vertices: regularPolygon(4).map(({ x, y }) => ({ x: (x - y) / Math.SQRT2, y: (x + y) / Math.SQRT2 }))
+  },
+  'rhombus-30': { name: '30° Rhombus', category: 'rhombus', color: '#fbbf24', vertices: rhombus(30) },
+  'rhombus-45': { name: '45° Rhombus', category: 'rhombus', color: '#facc15', vertices: rhombus(45) },
+  'rhombus-60': { name: '60° Rhombus', category: 'rhombus', color: '#eab308', vertices: rhombus(60) },
+  'rhombus-72': { name: '72° Rhombus', category: 'rhombus', color: '#d97706', vertices: rhombus(72) },
+  // Penrose kite and dart: long sides of EDGE_LENGTH, short sides shorter by
+  // the golden ratio
+  kite: {
+    name: 'Kite',
+    category: 'kite',
+    color: '#0ea5e9',
+    vertices: tracePolygon([[EDGE_LENGTH, 72], [EDGE_LENGTH / PHI, 144], [EDGE_LENGTH / PHI, 72], [EDGE_LENGTH, 72]])
+  },
+  dart: {
+    name: 'Dart',
+    category: 'kite',
+    color: '#0284c7',
+    vertices: tracePolygon([[EDGE_LENGTH, 36], [EDGE_LENGTH / PHI, 216], [EDGE_LENGTH / PHI, 36], [EDGE_LENGTH, 72]])
+  },
+  // Half a hexagon. The long base is split in two, so it meets two
+  // triangles or hexagons corner to corner.
+  'trapezoid-60': {
+    name: '60° Trapezoid',
+    category: 'trapezoid',
+    color: '#22c55e',
+    vertices: tracePolygon([[EDGE_LENGTH, 180], [EDGE_LENGTH, 60], [EDGE_LENGTH, 120], [EDGE_LENGTH, 120], [EDGE_LENGTH, 60]])
+  },
+  // A regular pentagon less the triangle cut off by one diagonal; the base
+  // is that diagonal
+  'trapezoid-72': {
+    name: '72° Trapezoid',
+    category: 'trapezoid',
+    color: '#16a34a',
+    vertices: tracePolygon([[EDGE_LENGTH * PHI, 72], [EDGE_LENGTH, 108], [EDGE_LENGTH, 108], [EDGE_LENGTH, 72]])
+  },
+  // Square with a triangle roof (type 1)
+  'house-pentagon': {
+    name: 'House Pentagon',
+    category: 'pentagon',
+    color: '#a855f7',
+    vertices: tracePolygon([[EDGE_LENGTH, 90], [EDGE_LENGTH, 150], [EDGE_LENGTH, 60], [EDGE_LENGTH, 150], [EDGE_LENGTH, 90]])
+  },
+  // Face of the Cairo tiling (type 4), with a short base between its two
+  // 120° corners
+  'cairo-pentagon': {
+    name: 'Cairo Pentagon',
+    category: 'pentagon',
+    color: '#c026d3',
+    vertices: tracePolygon([[EDGE_LENGTH * (Math.sqrt(3) - 1), 120], [EDGE_LENGTH, 90], [EDGE_LENGTH, 120], [EDGE_LENGTH, 90], [EDGE_LENGTH, 120]])
+  }
+};
+
+const toPath = (vertices: Point[]): string =>
+  `M ${vertices.map(({ x, y }) => `${Math.round(x * 1000) / 1000} ${Math.round(y * 1000) / 1000}`).join(' L ')} Z`;
+
+export interface ShapeInfo {
+  name: string;
+  category: ShapeCategory;
+  color: string;
+  path: string;
+}
+
+export const SHAPES = Object.fromEntries(SHAPE_TYPES.map(shape => {
+  const { name, category, color, vertices } = SHAPE_LIBRARY[shape];
+  return [shape, { name, category, color, path: toPath(vertices) }];
+})) as Record<ShapeType, ShapeInfo>;
+
+// Custom shapes of the open design, registered by the editor's handlers
+// (draw, edit, open, restore, undo and redo) before the scene holding them
+// renders. Entries are replaced but never dropped, since undo can bring back
+// tiles of a shape that was deleted.
+const customShapes = new Map<CustomShapeId, ShapeInfo & { vertices: Point[] }>();
+
+export const registerCustomShapes = (shapes: CustomShape[]): void => {
+  shapes.forEach(({ id, name, color, vertices }) => {
+    customShapes.set(id, { name, category: 'custom', color, path: toPath(vertices), vertices });
+  });
+};
+
+export const isCustomShapeId = (value: string): value is CustomShapeId => value.startsWith('custom-');
+
+// A custom shape that was never registered draws as a square rather than
+// breaking the canvas
+const getDefinition = (shape: ShapeId): { vertices: Point[] } =>
+  isCustomShapeId(shape) ? customShapes.get(shape) ?? SHAPE_LIBRARY.square : SHAPE_LIBRARY[shape];
+
+// Name, color and path of a built-in or registered custom shape
+export const getShape = (shape: ShapeId): ShapeInfo =>
+  isCustomShapeId(shape) ? customShapes.get(shape) ?? SHAPES.square : SHAPES[shape];
+
+// Outline of a shape around its center, e.g. to start a custom shape from
+export const getShapeOutline = (shape: ShapeId): Point[] =>
+  getDefinition(shape).vertices.map(({ x, y }) => ({ x, y }));
+
+// Shapes smart fill places against open edges
+export const SUGGESTED_SHAPES: readonly ShapeType[] = SHAPE_TYPES.filter(shape => SHAPE_LIBRARY[shape].suggest);
+
+// Distance from a shape's center to its furthest corner, e.g. to size a preview
+export const getShapeRadius = (shape: ShapeId): number =>
+  Math.max(...getDefinition(shape).vertices.map(({ x, y }) => Math.hypot(x, y)));
+
+// Length of the edge a shape rests on
+export const getShapeBaseLength = (shape: ShapeType): number => {
+  const [start, end] = SHAPE_LIBRARY[shape].vertices;
+  return Math.hypot(end.x - start.x, end.y - start.y);
+};
+
+// Placement that sets a shape's base flush against an edge, on the side its
+// normal points to
+export const placeOnEdge = (shape: ShapeType, edge: Edge): Pick<Tile, 'x' | 'y' | 'rotation'> => {
+  const [start, end] = SHAPE_LIBRARY[shape].vertices;
+  // The outline runs clockwise on screen, so the base faces (dy, -dx)
+  const baseFacing = Math.atan2(-(end.x - start.x), end.y - start.y) * 180 / Math.PI;
+  const facing = Math.atan2(-edge.normal.y, -edge.normal.x) * 180 / Math.PI;
+  const rotation = normalizeAngle(facing - baseFacing);
+
+  const radians = rotation * Math.PI / 180;
+  const midX = (start.x + end.x) / 2;
+  const midY = (start.y + end.y) / 2;
+  return {
+    x: edge.midpoint.x - (midX * Math.cos(radians) - midY * Math.sin(radians)),
+    y: edge.midpoint.y - (midX * Math.sin(radians) + midY * Math.cos(radians)),
+    rotation
+  };
+};
+
+// SVG transform that places a shape's local path on the canvas
+export const getTileTransform = (tile: Pick<Tile, 'x' | 'y' | 'rotation' | 'flipX'>): string =>
+  `translate(${tile.x}, ${tile.y}) rotate(${tile.rotation})${tile.flipX ? ' scale(-1, 1)' : ''}`;
+
+// Vertices are welded to the nearest thousandth, so tiles that share a
+// corner report exactly the same coordinates for it despite float noise
+export const weldCoordinate = (value: number): number => Math.round(value * 1000) / 1000;
+
+// Corners of a tile on the canvas, in outline order and before welding
+export const getShapeVertices = (tile: Tile): Point[] => {
+  const cos = Math.cos(tile.rotation * Math.PI / 180);
+  const sin = Math.sin(tile.rotation * Math.PI / 180);
+  
+  const flip = tile.flipX ? -1 : 1;
+  
+  // Transform a local point to world coordinates (flip, then rotate, then translate)
+  const transform = (localX: number, localY: number): Point => ({
+    x: tile.x + (localX * flip * cos - localY * sin),
+    y: tile.y + (localX * flip * sin + localY * cos)
+  });
+  
+  return getDefinition(tile.shape).vertices.map(({ x, y }) => transform(x, y));
+};
+
+// Universal edge calculation for any shape at any rotation
+export const getShapeEdges = (tile: Tile): Edge[] => {
+  const vertices = getShapeVertices(tile).map(({ x, y }) => ({ x: weldCoordinate(x), y: weldCoordinate(y) }));
+
+  const winding = Math.sign(vertices.reduce((sum, point, i) => {
+    const next = vertices[(i + 1) % vertices.length];
+    return sum + point.x * next.y - next.x * point.y;
+  }, 0));
+
+  // Create edges from consecutive vertices
+  const edges: Edge[] = [];
+  for (let i = 0; i < vertices.length; i++) {
+    const start = vertices[i];
+    const end = vertices[(i + 1) % vertices.length];
+    
+    const dx = end.x - start.x;
+    const dy = end.y - start.y;
+    const length = Math.sqrt(dx * dx + dy * dy);
+    
+    const midpoint = {
+      x: (start.x + end.x) / 2,
+      y: (start.y + end.y) / 2
+    };
+    
+    // Outward normal, from the winding rather than the center so it also
+    // holds for concave shapes; flipping a tile reverses its winding
+    const normal = {
+      x: winding * dy / length,
+      y: -winding * dx / length
+    };
+    
+    edges.push({ start, end, length, midpoint, normal });
+  }
+  
+  return edges;
+};
+
+// Distance from the tile center to its furthest vertex
+export const getTileRadius = (tile: Tile): number =>
+  Math.max(...getShapeEdges(tile).map(({ start }) => Math.hypot(start.x - tile.x, start.y - tile.y)));
@@ -0,0 +1,156 @@
+import { normalizeAngle } from './rotation';
+import { rotateTilesAbout, translateTiles } from './selection';
+import { getShapeEdges, getShapeVertices } from './shapes';
+import { expandRect, getTileGeometry, queryRect } from './spatialIndex';
+import type { SpatialIndex } from './spatialIndex';
+import type { Edge, Point, Tile } from './types';
+
+// Largest turn a snap may apply to line up a nearly aligned edge pair
+export const MAX_SNAP_ROTATION = 30;
+
+// Furthest apart two edge midpoints can be and still snap
+export const SNAP_DISTANCE = 40;
+
+// Edges must be this close in length to share their full length
+export const EDGE_LENGTH_TOLERANCE = 0.5;
+
+// A way to snap: turning the moving tiles by rotation about pivot, then
+// translating them by offset, lays movingEdge against targetEdge with the
+// vertices of both edges meeting
+export interface SnapMatch {
+  rotation: number;
+  pivot: Point;
+  offset: Point;
+  movingEdge: Edge; // edge of the moving tile, before the snap is applied
+  targetEdge: Edge;
+  distance: number; // distance between the edge midpoints
+}
+
+const angleOf = (v: Point): number => Math.atan2(v.y, v.x) * 180 / Math.PI;
+
+// Angle as a signed turn in (-180, 180], rounded like tile rotations
+const toTurn = (angle: number): number => {
+  const turn = normalizeAngle(angle);
+  return turn > 180 ? turn - 360 : turn;
+};
+
+// Signed turn that brings the moving edge's outward normal to face the
+// target edge's
+const getAlignment = (moving: Edge, target: Edge): number =>
+  toTurn(angleOf({ x: -target.normal.x, y: -target.normal.y }) - angleOf(moving.normal));
+
+// Direction of a tile's edge from its unwelded corners. Welding noise in the
+// edge would otherwise tilt every snapped tile a little further.
+const getEdgeAngle = (tile: Tile, index: number): number => {
+  const vertices = getShapeVertices(tile);
+  const start = vertices[index];
+  const end = vertices[(index + 1) % vertices.length];
+  return angleOf({ x: end.x - start.x, y: end.y - start.y });
+};
+
+// Check if two edges are compatible for snapping
+const areEdgesCompatible = (edge1: Edge, edge2: Edge): boolean => {
+  const lengthDiff = Math.abs(edge1.length - edge2.length);
+  if (lengthDiff > EDGE_LENGTH_TOLERANCE) return false; // Must have matching edge lengths
+
+  // Check if edges are close enough
+  const distance = Math.sqrt(
+    Math.pow(edge1.midpoint.x - edge2.midpoint.x, 2) +
+    Math.pow(edge1.midpoint.y - edge2.midpoint.y, 2)
+  );
+
+  if (distance > SNAP_DISTANCE) return false; // Edges must be reasonably close
+
+  // Edges must be close to facing each other; the snap turns away the rest
+  return Math.abs(getAlignment(edge1, edge2)) <= MAX_SNAP_ROTATION;
+};
+
+// Universal snapping function: the best edge match between two tiles
+export const canTilesSnap = (tile1: Tile, tile2: Tile): SnapMatch | null => {
+  const { edges: edges1 } = getTileGeometry(tile1);
+  const { edges: edges2 } = getTileGeometry(tile2);
+
+  let bestSnap: { index: number; targetIndex: number; distance: number } | null = null;
+
+  // Find the best compatible edge pair
+  for (let index = 0; index < edges1.length; index++) {
+    const edge1 = edges1[index];
+    for (let targetIndex = 0; targetIndex < edges2.length; targetIndex++) {
+      const edge2 = edges2[targetIndex];
+      if (areEdgesCompatible(edge1, edge2)) {
+        const distance = Math.sqrt(
+          Math.pow(edge1.midpoint.x - edge2.midpoint.x, 2) +
+          Math.pow(edge1.midpoint.y - edge2.midpoint.y, 2)
+        );
+
+        if (!bestSnap || distance < bestSnap.distance) {
+          bestSnap = { index, targetIndex, distance };
+        }
+      }
+    }
+  }
+
+  if (!bestSnap) return null;
+  const { index, targetIndex, distance } = bestSnap;
+  const edge2 = edges2[targetIndex];
+
+  // The edges end up parallel, running the same way or opposite ways
+  // depending on the tiles' windings; take whichever the normals call for.
+  // Rounded the way tile rotations are, so the edge worked out here is the
+  // one the rotated tile really has.
+  const parallel = toTurn(getEdgeAngle(tile2, targetIndex) - getEdgeAngle(tile1, index));
+  const rotation = Math.abs(toTurn(parallel - getAlignment(edges1[index], edge2))) < 90 ? parallel : toTurn(parallel + 180);
+  const turnedTile = { ...tile1, rotation: normalizeAngle(tile1.rotation + rotation) };
+  const turned = getShapeEdges(turnedTile)[index];
+
+  // The edges now lie parallel. Join the start of the moving edge to
+  // whichever end of the target edge it runs towards, so both pairs of
+  // vertices meet and the tiles share the edge exactly, with no gap. The
+  // tile stroke covers the seam.
+  const sameWay =
+    (turned.end.x - turned.start.x) * (edge2.end.x - edge2.start.x) +
+    (turned.end.y - turned.start.y) * (edge2.end.y - edge2.start.y) > 0;
+  // Both corners are taken before welding: placed on the target's true
+  // corner, the moved tile's corners weld to exactly the target's, and
+  // rounding never feeds into the next snap of a chain
+  const targetVertices = getShapeVertices(tile2);
+  const anchor = targetVertices[sameWay ? targetIndex : (targetIndex + 1) % targetVertices.length];
+  const corner = getShapeVertices(turnedTile)[index];
+  const offset = {
+    x: anchor.x - corner.x,
+    y: anchor.y - corner.y
+  };
+
+  return {
+    rotation,
+    pivot: { x: tile1.x, y: tile1.y },
+    offset,
+    movingEdge: edges1[index],
+    targetEdge: edge2,
+    distance
+  };
+};
+
+// Closest snap of any moving tile onto any indexed target. Only targets
+// within snapping range of a moving tile are compared. The moving tiles snap
+// as one rigid body, turning about the matched tile's center.
+export const findSnap = (moving: Tile[], targets: SpatialIndex): SnapMatch | null => {
+  let best: SnapMatch | null = null;
+
+  for (const tile of moving) {
+    for (const { tile: target } of queryRect(targets, expandRect(getTileGeometry(tile).bounds, SNAP_DISTANCE))) {
+      const match = canTilesSnap(tile, target);
+      if (match && (!best || match.distance < best.distance)) {
+        best = match;
+      }
+    }
+  }
+
+  return best;
+};
+
+// Apply a snap to the tiles with the given ids
+export const applySnap = (tiles: Tile[], ids: readonly string[], match: SnapMatch): Tile[] => {
+  const turned = match.rotation === 0 ? tiles : rotateTilesAbout(tiles, ids, match.rotation, match.pivot);
+  return translateTiles(turned, ids, match.offset.x, match.offset.y);
+};
@@ -0,0 +1,105 @@
+import type { Rect } from './selection';
+import { getShapeEdges } from './shapes';
+import type { Edge, Tile } from './types';
+
+// Grid cell size in canvas units, about one tile across
+export const INDEX_CELL_SIZE = 100;
+
+export interface TileGeometry {
+  edges: Edge[];
+  bounds: Rect;
+}
+
+export interface IndexedTile extends TileGeometry {
+  tile: Tile;
+  order: number; // position in the list the index was built from
+}
+
+// Uniform grid: each cell lists the tiles whose bounds reach into it
+export interface SpatialIndex {
+  cellSize: number;
+  cells: Map<string, IndexedTile[]>;
+}
+
+// Tiles are replaced rather than mutated, so geometry is cached per tile
+// object and only worked out again for tiles that changed
+const geometryCache = new WeakMap<Tile, TileGeometry>();
+
+export const getTileGeometry = (tile: Tile): TileGeometry => {
+  const cached = geometryCache.get(tile);
+  if (cached) return cached;
+
+  const edges = getShapeEdges(tile);
+  const xs = edges.map(edge => edge.start.x);
+  const ys = edges.map(edge => edge.start.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  const geometry = { edges, bounds: { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y } };
+
+  geometryCache.set(tile, geometry);
+  return geometry;
+};
+
+export const rectsOverlap = (a: Rect, b: Rect): boolean =>
+  a.x <= b.x + b.width && a.x + a.width >= b.x && a.y <= b.y + b.height && a.y + a.height >= b.y;
+
+const cellRange = (rect: Rect, cellSize: number) => ({
+  minCol: Math.floor(rect.x / cellSize),
+  maxCol: Math.floor((rect.x + rect.width) / cellSize),
+  minRow: Math.floor(rect.y / cellSize),
+  maxRow: Math.floor((rect.y + rect.height) / cellSize)
+});
+
+export const buildSpatialIndex = (tiles: Tile[], cellSize: number = INDEX_CELL_SIZE): SpatialIndex => {
+  const cells = new Map<string, IndexedTile[]>();
+
+  tiles.forEach((tile, order) => {
+    const entry: IndexedTile = { tile, order, ...getTileGeometry(tile) };
+    const { minCol, maxCol, minRow, maxRow } = cellRange(entry.bounds, cellSize);
+
+    for (let col = minCol; col <= maxCol; col++) {
+      for (let row = minRow; row <= maxRow; row++) {
+        const key = `${col},${row}`;
+        const cell = cells.get(key);
+        if (cell) {
+          cell.push(entry);
+        } else {
+          cells.set(key, [entry]);
+        }
+      }
+    }
+  });
+
+  return { cellSize, cells };
+};
+
+// Indexed tiles whose bounds overlap the rectangle, in their original order
+export const queryRect = (index: SpatialIndex, rect: Rect): IndexedTile[] => {
+  const found = new Set<IndexedTile>();
+  const { minCol, maxCol, minRow, maxRow } = cellRange(rect, index.cellSize);
+  const collect = (cell: IndexedTile[] | undefined) => cell?.forEach(entry => {
+    if (rectsOverlap(entry.bounds, rect)) found.add(entry);
+  });
+
+  // A rectangle spanning more cells than are filled is cheaper to answer by
+  // walking the filled ones
+  if ((maxCol - minCol + 1) * (maxRow - minRow + 1) > index.cells.size) {
+    index.cells.forEach(collect);
+  } else {
+    for (let col = minCol; col <= maxCol; col++) {
+      for (let row = minRow; row <= maxRow; row++) {
+        collect(index.cells.get(`${col},${row}`));
+      }
+    }
+  }
+
+  return Array.from(found).sort((a, b) => a.order - b.order);
+};
+
+// Bounds grown by a margin on every side
+export const expandRect = (rect: Rect, margin: number): Rect => ({
+  x: rect.x - margin,
+  y: rect.y - margin,
+  width: rect.width + margin * 2,
+  height: rect.height + margin * 2
+});
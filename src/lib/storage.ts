@@ -0,0 +1,439 @@
+import { DEFAULT_GRID, MAX_GRID_DIVISIONS, MAX_GRID_SPACING, MIN_GRID_DIVISIONS, MIN_GRID_SPACING } from './grid';
+import { normalizeHex } from './color';
+import { DEFAULT_LAYER } from './layers';
+import { DEFAULT_PALETTE, MAX_PALETTE_COLORS } from './palettes';
+import { isCustomShapeId } from './shapes';
+import { DEFAULT_SYMMETRY, DEFAULT_SYMMETRY_CENTER, DEFAULT_WALLPAPER, clampSymmetryOrder, inferMirrorTransform } from './symmetry';
+import { DEFAULT_TILE_STYLE, clampOpacity, clampStrokeWidth } from './tileStyle';
+import { GRID_TYPES, SHAPE_TYPES, SYMMETRY_MODES, TILE_FILLS, WALLPAPER_GROUPS } from './types';
+import type {
+  CustomShape,
+  DesignSnapshot,
+  GridSettings,
+  GridType,
+  Layer,
+  MirrorTransform,
+  Palette,
+  Point,
+  ShapeId,
+  ShapeType,
+  SymmetryMode,
+  SymmetrySettings,
+  Tile,
+  TileFill,
+  TileGroup,
+  TileStyle,
+  WallpaperGroup,
+  WallpaperSettings
+} from './types';
+
+// Bump whenever the stored shape of a snapshot changes and add a migration below
+export const STORAGE_VERSION = 10;
+
+const AUTOSAVE_KEY = 'tessellation-app:autosave';
+const LIBRARY_KEY = 'tessellation-app:designs';
+const PALETTES_KEY = 'tessellation-app:palettes';
+
+const DEFAULT_COLOR = '#3b82f6';
+
+export interface SavedDesign {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  thumbnail: string; // SVG data URL
+  snapshot: DesignSnapshot;
+}
+
+export interface SavedPalette extends Palette {
+  id: string;
+  updatedAt: number;
+}
+
+// Entries this build can't read, e.g. saved by a newer version, are kept as
+// stored and written back alongside the rest so they are never lost
+export interface StoredList<T> {
+  entries: T[];
+  unreadable: unknown[];
+}
+
+export interface Autosave {
+  designId: string | null;
+  snapshot: DesignSnapshot;
+}
+
+type RawRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+// Each migration upgrades a raw snapshot from version N to version N + 1.
+// Never edit an existing entry: saves written by that version depend on it.
+const MIGRATIONS: Record<number, (snapshot: RawRecord) => RawRecord> = {
+  // v1 -> v2: mirrors record the symmetry transform that derives them
+  1: snapshot => {
+    if (!Array.isArray(snapshot.tiles)) return snapshot;
+    const tiles = snapshot.tiles as unknown[];
+
+    return {
+      ...snapshot,
+      tiles: tiles.map(raw => {
+        if (!isRecord(raw) || raw.isSymmetryMirror !== true) return raw;
+
+        const original = tiles.find(t => isRecord(t) && t.id === raw.originalId);
+        if (!isRecord(original) || !isFiniteNumber(original.x) || !isFiniteNumber(original.y)) return raw;
+        if (!isFiniteNumber(raw.x) || !isFiniteNumber(raw.y)) return raw;
+
+        return {
+          ...raw,
+          mirrorTransform: inferMirrorTransform(
+            { x: original.x, y: original.y, rotation: isFiniteNumber(original.rotation) ? original.rotation : 0 },
+            { x: raw.x, y: raw.y }
+          )
+        };
+      })
+    };
+  },
+  // v2 -> v3: tiles gained an optional flipX that defaults to unflipped
+  2: snapshot => snapshot,
+  // v3 -> v4: symmetry became { mode, order, center } and mirrors record
+  // their center. The old 'radial' mode was the four-way D2 about the canvas center.
+  3: snapshot => {
+    const { symmetryMode, ...rest } = snapshot;
+    const tiles = Array.isArray(snapshot.tiles) ? snapshot.tiles as unknown[] : [];
+
+    return {
+      ...rest,
+      symmetry: symmetryMode === 'radial'
+        ? { mode: 'dihedral', order: 2, center: DEFAULT_SYMMETRY_CENTER }
+        : { mode: symmetryMode, order: DEFAULT_SYMMETRY.order, center: DEFAULT_SYMMETRY_CENTER },
+      tiles: tiles.map(raw => isRecord(raw) && isRecord(raw.mirrorTransform)
+        ? { ...raw, mirrorTransform: { center: DEFAULT_SYMMETRY_CENTER, ...raw.mirrorTransform } }
+        : raw)
+    };
+  },
+  // v4 -> v5: symmetry gained wallpaper settings that default to p4m
+  4: snapshot => snapshot,
+  // v5 -> v6: layers and groups; older saves put every tile on one layer
+  5: snapshot => snapshot,
+  // v6 -> v7: custom shapes drawn in the shape editor; older saves have none
+  6: snapshot => snapshot,
+  // v7 -> v8: grid type, spacing and snapping; older saves use the square grid
+  7: snapshot => snapshot,
+  // v8 -> v9: each design keeps its own palette; older saves use the default one
+  8: snapshot => snapshot,
+  // v9 -> v10: tiles gained an optional style; older tiles are plain fills
+  9: snapshot => snapshot
+};
+
+const normalizePoint = (raw: unknown): Point | null =>
+  isRecord(raw) && isFiniteNumber(raw.x) && isFiniteNumber(raw.y) ? { x: raw.x, y: raw.y } : null;
+
+const normalizeWallpaper = (raw: unknown): WallpaperSettings => {
+  if (!isRecord(raw)) return DEFAULT_WALLPAPER;
+
+  return {
+    group: WALLPAPER_GROUPS.includes(raw.group as WallpaperGroup) ? raw.group as WallpaperGroup : DEFAULT_WALLPAPER.group,
+    width: isFiniteNumber(raw.width) ? raw.width : DEFAULT_WALLPAPER.width,
+    height: isFiniteNumber(raw.height) ? raw.height : DEFAULT_WALLPAPER.height,
+    angle: isFiniteNumber(raw.angle) ? raw.angle : DEFAULT_WALLPAPER.angle
+  };
+};
+
+const normalizeGrid = (raw: unknown): GridSettings => {
+  if (!isRecord(raw)) return DEFAULT_GRID;
+
+  return {
+    type: GRID_TYPES.includes(raw.type as GridType) ? raw.type as GridType : DEFAULT_GRID.type,
+    spacing: isFiniteNumber(raw.spacing)
+      ? Math.max(MIN_GRID_SPACING, Math.min(MAX_GRID_SPACING, raw.spacing))
+      : DEFAULT_GRID.spacing,
+    origin: normalizePoint(raw.origin) ?? DEFAULT_GRID.origin,
+    divisions: isFiniteNumber(raw.divisions)
+      ? Math.max(MIN_GRID_DIVISIONS, Math.min(MAX_GRID_DIVISIONS, Math.round(raw.divisions)))
+      : DEFAULT_GRID.divisions,
+    snap: raw.snap === true
+  };
+};
+
+// Valid colors without repeats, up to the palette limit
+const normalizeColors = (raw: unknown[]): string[] => {
+  const colors: string[] = [];
+  raw.forEach(color => {
+    const hex = typeof color === 'string' ? normalizeHex(color) : null;
+    if (hex && !colors.includes(hex) && colors.length < MAX_PALETTE_COLORS) colors.push(hex);
+  });
+  return colors;
+};
+
+// A palette left with no colors falls back to the default one
+const normalizePalette = (raw: unknown): Palette => {
+  if (!isRecord(raw) || !Array.isArray(raw.colors)) return DEFAULT_PALETTE;
+
+  const colors = normalizeColors(raw.colors);
+  if (colors.length === 0) return DEFAULT_PALETTE;
+
+  return { name: typeof raw.name === 'string' ? raw.name : DEFAULT_PALETTE.name, colors };
+};
+
+const normalizeSymmetry = (raw: unknown): SymmetrySettings => {
+  if (!isRecord(raw)) return DEFAULT_SYMMETRY;
+
+  return {
+    mode: SYMMETRY_MODES.includes(raw.mode as SymmetryMode) ? raw.mode as SymmetryMode : DEFAULT_SYMMETRY.mode,
+    order: isFiniteNumber(raw.order) ? clampSymmetryOrder(raw.order) : DEFAULT_SYMMETRY.order,
+    center: normalizePoint(raw.center) ?? DEFAULT_SYMMETRY.center,
+    wallpaper: normalizeWallpaper(raw.wallpaper)
+  };
+};
+
+const normalizeMirrorTransform = (raw: unknown): MirrorTransform | null => {
+  if (!isRecord(raw) || !isFiniteNumber(raw.rotation) || typeof raw.reflect !== 'boolean') return null;
+  return { rotation: raw.rotation, reflect: raw.reflect, center: normalizePoint(raw.center) ?? DEFAULT_SYMMETRY_CENTER };
+};
+
+// Anything missing or out of range takes the default for that property
+const normalizeStyle = (raw: unknown): TileStyle | null => {
+  if (!isRecord(raw)) return null;
+
+  return {
+    fill: TILE_FILLS.includes(raw.fill as TileFill) ? raw.fill as TileFill : DEFAULT_TILE_STYLE.fill,
+    accent: (typeof raw.accent === 'string' ? normalizeHex(raw.accent) : null) ?? DEFAULT_TILE_STYLE.accent,
+    angle: isFiniteNumber(raw.angle) ? raw.angle : DEFAULT_TILE_STYLE.angle,
+    stroke: typeof raw.stroke === 'string' ? normalizeHex(raw.stroke) : null,
+    strokeWidth: isFiniteNumber(raw.strokeWidth) ? clampStrokeWidth(raw.strokeWidth) : DEFAULT_TILE_STYLE.strokeWidth,
+    opacity: isFiniteNumber(raw.opacity) ? clampOpacity(raw.opacity) : DEFAULT_TILE_STYLE.opacity
+  };
+};
+
+const normalizeLayers = (raw: unknown): Layer[] => {
+  const layers: Layer[] = [];
+  if (Array.isArray(raw)) {
+    raw.forEach(layer => {
+      if (!isRecord(layer) || typeof layer.id !== 'string' || layers.some(l => l.id === layer.id)) return;
+      layers.push({
+        id: layer.id,
+        name: typeof layer.name === 'string' ? layer.name : `Layer ${layers.length + 1}`,
+        visible: layer.visible !== false,
+        locked: layer.locked === true
+      });
+    });
+  }
+  return layers.length > 0 ? layers : [DEFAULT_LAYER];
+};
+
+const normalizeGroups = (raw: unknown): TileGroup[] => {
+  if (!Array.isArray(raw)) return [];
+
+  return raw.flatMap((group): TileGroup[] => isRecord(group) && typeof group.id === 'string'
+    ? [{ id: group.id, name: typeof group.name === 'string' ? group.name : 'Group' }]
+    : []);
+};
+
+// Custom shapes need an id and at least three corners
+const normalizeCustomShapes = (raw: unknown): CustomShape[] => {
+  if (!Array.isArray(raw)) return [];
+
+  return raw.flatMap((shape): CustomShape[] => {
+    if (!isRecord(shape) || typeof shape.id !== 'string' || !isCustomShapeId(shape.id) || !Array.isArray(shape.vertices)) return [];
+
+    const vertices = shape.vertices.map(normalizePoint);
+    if (vertices.length < 3 || vertices.some(vertex => vertex === null)) return [];
+
+    return [{
+      id: shape.id,
+      name: typeof shape.name === 'string' ? shape.name : 'Custom shape',
+      color: typeof shape.color === 'string' ? shape.color : DEFAULT_COLOR,
+      vertices: vertices as Point[]
+    }];
+  });
+};
+
+const migrateSnapshot = (snapshot: RawRecord, fromVersion: number): RawRecord => {
+  let current = snapshot;
+  for (let version = fromVersion; version < STORAGE_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (migrate) current = migrate(current);
+  }
+  return current;
+};
+
+// Turn a stored tile back into a Tile, filling in anything an older save
+// lacks. Tiles of a custom shape the snapshot doesn't define are dropped.
+const normalizeTile = (raw: unknown, customShapes: CustomShape[]): Tile | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string') return null;
+  if (!SHAPE_TYPES.includes(raw.shape as ShapeType) && !customShapes.some(shape => shape.id === raw.shape)) return null;
+  if (!isFiniteNumber(raw.x) || !isFiniteNumber(raw.y)) return null;
+
+  const tile: Tile = {
+    id: raw.id,
+    shape: raw.shape as ShapeId,
+    x: raw.x,
+    y: raw.y,
+    rotation: isFiniteNumber(raw.rotation) ? raw.rotation : 0,
+    color: typeof raw.color === 'string' ? raw.color : DEFAULT_COLOR
+  };
+
+  if (raw.flipX === true) {
+    tile.flipX = true;
+  }
+
+  if (typeof raw.layerId === 'string') {
+    tile.layerId = raw.layerId;
+  }
+
+  if (typeof raw.groupId === 'string') {
+    tile.groupId = raw.groupId;
+  }
+
+  const style = normalizeStyle(raw.style);
+  if (style) {
+    tile.style = style;
+  }
+
+  // A mirror that can't be derived from its original is kept as a plain tile
+  const mirrorTransform = normalizeMirrorTransform(raw.mirrorTransform);
+  if (raw.isSymmetryMirror === true && typeof raw.originalId === 'string' && mirrorTransform) {
+    tile.isSymmetryMirror = true;
+    tile.originalId = raw.originalId;
+    tile.mirrorTransform = mirrorTransform;
+  }
+
+  return tile;
+};
+
+const normalizeSnapshot = (raw: unknown, version: number): DesignSnapshot | null => {
+  if (!isRecord(raw) || version > STORAGE_VERSION) return null;
+
+  const snapshot = migrateSnapshot(raw, version);
+  const customShapes = normalizeCustomShapes(snapshot.customShapes);
+  const tiles = Array.isArray(snapshot.tiles)
+    ? snapshot.tiles.map(tile => normalizeTile(tile, customShapes)).filter((tile): tile is Tile => tile !== null)
+    : [];
+
+  return {
+    tiles,
+    layers: normalizeLayers(snapshot.layers),
+    groups: normalizeGroups(snapshot.groups),
+    customShapes,
+    symmetry: normalizeSymmetry(snapshot.symmetry),
+    palette: normalizePalette(snapshot.palette),
+    selectedColor: typeof snapshot.selectedColor === 'string' ? snapshot.selectedColor : DEFAULT_COLOR,
+    showGrid: typeof snapshot.showGrid === 'boolean' ? snapshot.showGrid : true,
+    grid: normalizeGrid(snapshot.grid)
+  };
+};
+
+const readJson = (key: string): unknown => {
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    // Corrupt JSON or storage disabled (private mode, blocked cookies)
+    return null;
+  }
+};
+
+const writeJson = (key: string, value: unknown): boolean => {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+    return true;
+  } catch {
+    // Quota exceeded or storage disabled
+    return false;
+  }
+};
+
+const readVersion = (stored: RawRecord): number =>
+  isFiniteNumber(stored.version) ? stored.version : 0;
+
+export const loadAutosave = (): Autosave | null => {
+  const stored = readJson(AUTOSAVE_KEY);
+  if (!isRecord(stored)) return null;
+
+  const snapshot = normalizeSnapshot(stored.snapshot, readVersion(stored));
+  if (!snapshot) return null;
+
+  return {
+    designId: typeof stored.designId === 'string' ? stored.designId : null,
+    snapshot
+  };
+};
+
+// Whether anything is stored as the autosave, even one loadAutosave can't read
+export const hasStoredAutosave = (): boolean => {
+  try {
+    return window.localStorage.getItem(AUTOSAVE_KEY) !== null;
+  } catch {
+    return false;
+  }
+};
+
+export const saveAutosave = (autosave: Autosave): boolean =>
+  writeJson(AUTOSAVE_KEY, { version: STORAGE_VERSION, ...autosave });
+
+export const loadLibrary = (): StoredList<SavedDesign> => {
+  const stored = readJson(LIBRARY_KEY);
+  if (!isRecord(stored) || !Array.isArray(stored.designs)) return { entries: [], unreadable: [] };
+
+  const version = readVersion(stored);
+  const designs: SavedDesign[] = [];
+  const unreadable: unknown[] = [];
+
+  stored.designs.forEach(raw => {
+    // An entry kept from an earlier load carries the version it was saved with
+    const snapshot = isRecord(raw) && typeof raw.id === 'string'
+      ? normalizeSnapshot(raw.snapshot, isFiniteNumber(raw.version) ? raw.version : version)
+      : null;
+    if (!isRecord(raw) || typeof raw.id !== 'string' || !snapshot) {
+      unreadable.push(isRecord(raw) && !isFiniteNumber(raw.version) ? { ...raw, version } : raw);
+      return;
+    }
+
+    designs.push({
+      id: raw.id,
+      name: typeof raw.name === 'string' ? raw.name : 'Untitled',
+      createdAt: isFiniteNumber(raw.createdAt) ? raw.createdAt : 0,
+      updatedAt: isFiniteNumber(raw.updatedAt) ? raw.updatedAt : 0,
+      thumbnail: typeof raw.thumbnail === 'string' ? raw.thumbnail : '',
+      snapshot
+    });
+  });
+
+  return { entries: designs, unreadable };
+};
+
+export const saveLibrary = ({ entries, unreadable }: StoredList<SavedDesign>): boolean =>
+  writeJson(LIBRARY_KEY, { version: STORAGE_VERSION, designs: [...entries, ...unreadable] });
+
+// Named palettes are shared by every design, so they live apart from them
+export const loadPalettes = (): StoredList<SavedPalette> => {
+  const stored = readJson(PALETTES_KEY);
+  if (!isRecord(stored) || !Array.isArray(stored.palettes)) return { entries: [], unreadable: [] };
+
+  const palettes: SavedPalette[] = [];
+  const unreadable: unknown[] = [];
+
+  stored.palettes.forEach(raw => {
+    const colors = isRecord(raw) && typeof raw.id === 'string' && Array.isArray(raw.colors) ? normalizeColors(raw.colors) : [];
+    if (!isRecord(raw) || typeof raw.id !== 'string' || colors.length === 0) {
+      unreadable.push(raw);
+      return;
+    }
+
+    palettes.push({
+      id: raw.id,
+      name: typeof raw.name === 'string' ? raw.name : 'Untitled',
+      colors,
+      updatedAt: isFiniteNumber(raw.updatedAt) ? raw.updatedAt : 0
+    });
+  });
+
+  return { entries: palettes, unreadable };
+};
+
+export const savePalettes = ({ entries, unreadable }: StoredList<SavedPalette>): boolean =>
+  writeJson(PALETTES_KEY, { version: STORAGE_VERSION, palettes: [...entries, ...unreadable] });
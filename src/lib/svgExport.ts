@@ -0,0 +1,228 @@
+import { getShape, getShapeEdges } from './shapes';
+import type { Rect } from './selection';
+import { describeSymmetry } from './symmetry';
+import { DOT_RADIUS, HATCH_WIDTH, PATTERN_SIZE, getTileFill, getTilePaints } from './tileStyle';
+import type { TilePaint } from './tileStyle';
+import type { ShapeId, SymmetrySettings, Tile } from './types';
+import type { WallpaperUnit } from './wallpaper';
+
+export interface SvgExportOptions {
+  viewBox: 'tight' | 'canvas'; // fit the tiles, or keep the area the editor shows
+  padding: number; // extra space around a tight viewBox
+  stroke: { color: string; width: number } | null;
+  background: string | null;
+  repeat: 'tiles' | 'pattern'; // wallpaper designs only: every copy as a tile, or one <pattern> fill
+  metadata: {
+    title: string;
+    description?: string;
+    symmetry?: SymmetrySettings;
+  };
+}
+
+// What the export dialog asks for; metadata is filled in from the design
+export type SvgExportSettings = Omit<SvgExportOptions, 'metadata'> & { title: string; description: string };
+
+export const DEFAULT_SVG_EXPORT_OPTIONS: SvgExportOptions = {
+  viewBox: 'tight',
+  padding: 10,
+  stroke: { color: '#ffffff', width: 1 },
+  background: null,
+  repeat: 'tiles',
+  metadata: { title: 'Tessellation' }
+};
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const XLINK_NS = 'http://www.w3.org/1999/xlink';
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+// Trim float noise so the file stays small and diffable
+const formatNumber = (value: number): string => String(Math.round(value * 1000) / 1000);
+
+const shapeDefId = (shape: ShapeId): string => `shape-${shape}`;
+
+// Bounding box of the actual tile outlines, not just their centers
+export const getTilesBounds = (tiles: Tile[]): { minX: number; minY: number; maxX: number; maxY: number } | null => {
+  if (tiles.length === 0) return null;
+
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+
+  tiles.forEach(tile => {
+    getShapeEdges(tile).forEach(({ start }) => {
+      minX = Math.min(minX, start.x);
+      minY = Math.min(minY, start.y);
+      maxX = Math.max(maxX, start.x);
+      maxY = Math.max(maxY, start.y);
+    });
+  });
+
+  return { minX, minY, maxX, maxY };
+};
+
+// A tile's own outline and opacity override the export-wide stroke
+const tileUse = (tile: Tile, indent: string): string => {
+  const href = `#${shapeDefId(tile.shape)}`;
+  const rotation = tile.rotation ? ` rotate(${formatNumber(tile.rotation)})` : '';
+  const flip = tile.flipX ? ' scale(-1 1)' : '';
+  const stroke = tile.style?.stroke
+    ? tile.style.strokeWidth > 0
+      ? ` stroke="${escapeXml(tile.style.stroke)}" stroke-width="${formatNumber(tile.style.strokeWidth)}"`
+      : ' stroke="none"'
+    : '';
+  const opacity = tile.style && tile.style.opacity < 1 ? ` opacity="${formatNumber(tile.style.opacity)}"` : '';
+  return `${indent}<use href="${href}" xlink:href="${href}" ` +
+    `transform="translate(${formatNumber(tile.x)} ${formatNumber(tile.y)})${rotation}${flip}" fill="${escapeXml(getTileFill(tile))}"${stroke}${opacity}/>`;
+};
+
+// Gradients span the shape's bounding box; patterns repeat in the tile's
+// own units, so both turn and flip with the tile
+const buildPaint = (paint: TilePaint): string[] => {
+  const color = escapeXml(paint.color);
+  const accent = escapeXml(paint.accent);
+  const angle = formatNumber(paint.angle);
+  const half = formatNumber(PATTERN_SIZE / 2);
+
+  switch (paint.fill) {
+    case 'linear':
+      return [
+        `    <linearGradient id="${paint.id}" x1="0" y1="0.5" x2="1" y2="0.5" gradientTransform="rotate(${angle} 0.5 0.5)">`,
+        `      <stop offset="0" stop-color="${color}"/>`,
+        `      <stop offset="1" stop-color="${accent}"/>`,
+        '    </linearGradient>'
+      ];
+    case 'radial':
+      return [
+        `    <radialGradient id="${paint.id}" cx="0.5" cy="0.5" r="0.5">`,
+        `      <stop offset="0" stop-color="${color}"/>`,
+        `      <stop offset="1" stop-color="${accent}"/>`,
+        '    </radialGradient>'
+      ];
+    case 'hatch':
+    case 'dots':
+      return [
+        `    <pattern id="${paint.id}" patternUnits="userSpaceOnUse" width="${PATTERN_SIZE}" height="${PATTERN_SIZE}" patternTransform="rotate(${angle})">`,
+        `      <rect width="${PATTERN_SIZE}" height="${PATTERN_SIZE}" fill="${color}"/>`,
+        paint.fill === 'hatch'
+          ? `      <path d="M0 ${half}H${PATTERN_SIZE}" stroke="${accent}" stroke-width="${HATCH_WIDTH}"/>`
+          : `      <circle cx="${half}" cy="${half}" r="${DOT_RADIUS}" fill="${accent}"/>`,
+        '    </pattern>'
+      ];
+  }
+};
+
+// The pattern tile is the unit square of lattice space; its content is
+// mapped back to canvas units so strokes keep their width
+const buildPattern = (unit: WallpaperUnit, strokeAttrs: string): string[] => {
+  const { origin, lattice: { a, b } } = unit;
+  const det = a.x * b.y - a.y * b.x;
+  const inverse = [b.y / det, -a.y / det, -b.x / det, a.x / det];
+  const inverseOffset = [
+    -(inverse[0] * origin.x + inverse[2] * origin.y),
+    -(inverse[1] * origin.x + inverse[3] * origin.y)
+  ];
+
+  return [
+    `    <pattern id="wallpaper" patternUnits="userSpaceOnUse" width="1" height="1" ` +
+      `patternTransform="matrix(${[a.x, a.y, b.x, b.y, origin.x, origin.y].map(formatNumber).join(' ')})">`,
+    `      <g transform="matrix(${[...inverse, ...inverseOffset].map(value => String(value)).join(' ')})"${strokeAttrs}>`,
+    ...unit.tiles.map(tile => tileUse(tile, '        ')),
+    '      </g>',
+    '    </pattern>'
+  ];
+};
+
+// Build a standalone SVG document containing only the tiles. Each shape is
+// defined once in <defs> and placed with <use>, which Inkscape and
+// Illustrator both keep as linked clones; so is each gradient and pattern
+// fill the tiles use. With a wallpaper unit and the
+// 'pattern' repeat, the tiles are written once into a <pattern> that fills
+// the drawing instead.
+export const buildSvg = (
+  tiles: Tile[],
+  canvas: Rect,
+  options: SvgExportOptions,
+  unit?: WallpaperUnit
+): string => {
+  const pattern = options.repeat === 'pattern' && unit ? unit : null;
+  const strokeWidth = options.stroke?.width ?? 0;
+  const bounds = options.viewBox === 'tight' ? getTilesBounds(tiles) : null;
+  const margin = options.padding + strokeWidth / 2;
+
+  const viewBox = bounds
+    ? {
+        x: bounds.minX - margin,
+        y: bounds.minY - margin,
+        width: bounds.maxX - bounds.minX + margin * 2,
+        height: bounds.maxY - bounds.minY + margin * 2
+      }
+    : canvas;
+
+  const viewBoxAttr = [viewBox.x, viewBox.y, viewBox.width, viewBox.height].map(formatNumber).join(' ');
+  const usedShapes = Array.from(new Set((pattern ? pattern.tiles : tiles).map(tile => tile.shape)));
+  const { metadata } = options;
+  const date = new Date().toISOString();
+
+  const description = [
+    metadata.description,
+    `${tiles.length} tile${tiles.length === 1 ? '' : 's'}`,
+    metadata.symmetry && metadata.symmetry.mode !== 'none' ? `${describeSymmetry(metadata.symmetry)} symmetry` : null
+  ].filter(Boolean).join(' · ');
+
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+    `<svg xmlns="${SVG_NS}" xmlns:xlink="${XLINK_NS}" version="1.1" ` +
+      `width="${formatNumber(viewBox.width)}" height="${formatNumber(viewBox.height)}" viewBox="${viewBoxAttr}">`,
+    `  <title>${escapeXml(metadata.title)}</title>`,
+    `  <desc>${escapeXml(description)}</desc>`,
+    '  <metadata>',
+    '    <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#" ' +
+      'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:cc="http://creativecommons.org/ns#">',
+    '      <cc:Work rdf:about="">',
+    '        <dc:format>image/svg+xml</dc:format>',
+    `        <dc:title>${escapeXml(metadata.title)}</dc:title>`,
+    `        <dc:description>${escapeXml(description)}</dc:description>`,
+    `        <dc:date>${date}</dc:date>`,
+    '        <dc:creator><cc:Agent><dc:title>Tessellation Creator</dc:title></cc:Agent></dc:creator>',
+    '      </cc:Work>',
+    '    </rdf:RDF>',
+    '  </metadata>',
+    '  <defs>',
+    ...usedShapes.map(shape => `    <path id="${shapeDefId(shape)}" d="${getShape(shape).path}"/>`),
+    ...getTilePaints(pattern ? pattern.tiles : tiles).flatMap(buildPaint)
+  ];
+
+  const strokeAttrs = options.stroke
+    ? ` stroke="${escapeXml(options.stroke.color)}" stroke-width="${formatNumber(options.stroke.width)}" stroke-linejoin="round"`
+    : ' stroke="none"';
+
+  if (pattern) lines.push(...buildPattern(pattern, strokeAttrs));
+  lines.push('  </defs>');
+
+  if (options.background) {
+    lines.push(
+      `  <rect id="background" x="${formatNumber(viewBox.x)}" y="${formatNumber(viewBox.y)}" ` +
+        `width="${formatNumber(viewBox.width)}" height="${formatNumber(viewBox.height)}" fill="${escapeXml(options.background)}"/>`
+    );
+  }
+
+  if (pattern) {
+    lines.push(
+      `  <rect id="tiles" x="${formatNumber(viewBox.x)}" y="${formatNumber(viewBox.y)}" ` +
+        `width="${formatNumber(viewBox.width)}" height="${formatNumber(viewBox.height)}" fill="url(#wallpaper)"/>`
+    );
+  } else {
+    lines.push(`  <g id="tiles"${strokeAttrs}>`, ...tiles.map(tile => tileUse(tile, '    ')), '  </g>');
+  }
+
+  lines.push('</svg>', '');
+  return lines.join('\n');
+};
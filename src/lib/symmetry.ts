@@ -0,0 +1,214 @@
+import { normalizeAngle } from './rotation';
+import type { MirrorTransform, Point, SymmetrySettings, Tile, WallpaperSettings } from './types';
+
+// Canvas center, where the symmetry center starts out
+export const DEFAULT_SYMMETRY_CENTER: Point = { x: 300, y: 300 };
+
+// Orders offered for the rotational (Cn) and dihedral (Dn) modes
+export const MIN_SYMMETRY_ORDER = 2;
+export const MAX_SYMMETRY_ORDER = 24;
+export const SYMMETRY_ORDER_PRESETS: readonly number[] = [3, 4, 6, 8];
+
+export const DEFAULT_WALLPAPER: WallpaperSettings = {
+  group: 'p4m',
+  width: 150,
+  height: 150,
+  angle: 90
+};
+
+export const DEFAULT_SYMMETRY: SymmetrySettings = {
+  mode: 'none',
+  order: 4,
+  center: DEFAULT_SYMMETRY_CENTER,
+  wallpaper: DEFAULT_WALLPAPER
+};
+
+export const clampSymmetryOrder = (order: number): number =>
+  Math.max(MIN_SYMMETRY_ORDER, Math.min(MAX_SYMMETRY_ORDER, Math.round(order)));
+
+// Short name for menus and export metadata, e.g. "C6", "D4" or "p6m"
+export const describeSymmetry = ({ mode, order, wallpaper }: Pick<SymmetrySettings, 'mode' | 'order' | 'wallpaper'>): string => {
+  switch (mode) {
+    case 'rotational':
+      return `C${order}`;
+    case 'dihedral':
+      return `D${order}`;
+    case 'wallpaper':
+      return wallpaper.group;
+    default:
+      return mode;
+  }
+};
+
+// The copies each mode adds next to the original
+export const getMirrorTransforms = (symmetry: SymmetrySettings): MirrorTransform[] => {
+  const { center } = symmetry;
+  const order = clampSymmetryOrder(symmetry.order);
+  const step = 360 / order;
+
+  switch (symmetry.mode) {
+    case 'horizontal':
+      return [{ rotation: 0, reflect: true, center }];
+    case 'vertical':
+      return [{ rotation: 180, reflect: true, center }];
+    case 'rotational':
+      // Cn: every other turn of 360/n about the center
+      return Array.from({ length: order - 1 }, (_, i) => ({ rotation: (i + 1) * step, reflect: false, center }));
+    case 'dihedral':
+      // Dn: the Cn turns plus n reflections, whose axes sit 180/n apart
+      return [
+        ...Array.from({ length: order - 1 }, (_, i) => ({ rotation: (i + 1) * step, reflect: false, center })),
+        ...Array.from({ length: order }, (_, i) => ({ rotation: i * step, reflect: true, center }))
+      ];
+    case 'wallpaper':
+      // Repeats are derived on the fly (see wallpaper.ts) rather than stored
+    case 'none':
+      return [];
+  }
+};
+
+// Guide lines and the fundamental region for the canvas, as angles in
+// degrees (clockwise from +x, like SVG). Every tile placed inside the wedge
+// gets one copy in each of the other regions.
+export const getSymmetryGuides = (symmetry: SymmetrySettings): { rays: number[]; wedge: [number, number] | null } => {
+  const order = clampSymmetryOrder(symmetry.order);
+
+  switch (symmetry.mode) {
+    case 'horizontal':
+      return { rays: [-90, 90], wedge: [-90, 90] };
+    case 'vertical':
+      return { rays: [180, 0], wedge: [180, 360] };
+    case 'rotational':
+      return {
+        rays: Array.from({ length: order }, (_, i) => -90 + i * 360 / order),
+        wedge: [-90, -90 + 360 / order]
+      };
+    case 'dihedral':
+      return {
+        rays: Array.from({ length: order * 2 }, (_, i) => -90 + i * 180 / order),
+        wedge: [-90, -90 + 180 / order]
+      };
+    case 'wallpaper':
+      // Drawn as a lattice instead
+    case 'none':
+      return { rays: [], wedge: null };
+  }
+};
+
+// Place a copy of the original under a symmetry transform. Reflection is
+// across the vertical axis through the center, applied before rotating.
+export const applyMirrorTransform = (
+  original: Tile,
+  transform: MirrorTransform
+): Pick<Tile, 'x' | 'y' | 'rotation' | 'flipX'> => {
+  const angle = transform.rotation * Math.PI / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+
+  const { center } = transform;
+
+  const dx = (original.x - center.x) * (transform.reflect ? -1 : 1);
+  const dy = original.y - center.y;
+
+  return {
+    x: center.x + dx * cos - dy * sin,
+    y: center.y + dx * sin + dy * cos,
+    // Reflecting a rotated tile reverses its rotation and flips its geometry
+    rotation: normalizeAngle(transform.reflect
+      ? transform.rotation - original.rotation
+      : transform.rotation + original.rotation),
+    flipX: transform.reflect ? !original.flipX : Boolean(original.flipX)
+  };
+};
+
+// Build the mirror tile for one transform of the original
+const deriveMirror = (original: Tile, mirror: Pick<Tile, 'id'>, transform: MirrorTransform): Tile => ({
+  id: mirror.id,
+  shape: original.shape,
+  color: original.color,
+  ...(original.style ? { style: original.style } : {}),
+  ...applyMirrorTransform(original, transform),
+  ...(original.layerId ? { layerId: original.layerId } : {}),
+  isSymmetryMirror: true,
+  originalId: original.id,
+  mirrorTransform: transform
+});
+
+export const createSymmetryMirrors = (
+  original: Tile,
+  symmetry: SymmetrySettings,
+  generateId: () => string
+): Tile[] =>
+  getMirrorTransforms(symmetry).map(transform => deriveMirror(original, { id: generateId() }, transform));
+
+// Recompute every mirror from its original and drop mirrors whose original
+// is gone. Returns the same array when nothing changed so no-op edits stay
+// out of the undo history.
+export const syncMirrors = (tiles: Tile[]): Tile[] => {
+  const originals = new Map<string, Tile>();
+  tiles.forEach(tile => {
+    if (!tile.isSymmetryMirror) originals.set(tile.id, tile);
+  });
+
+  let changed = false;
+  const next: Tile[] = [];
+
+  tiles.forEach(tile => {
+    if (!tile.isSymmetryMirror || !tile.originalId || !tile.mirrorTransform) {
+      next.push(tile);
+      return;
+    }
+
+    const original = originals.get(tile.originalId);
+    if (!original) {
+      changed = true;
+      return;
+    }
+
+    const derived = deriveMirror(original, tile, tile.mirrorTransform);
+    const isSame = derived.x === tile.x && derived.y === tile.y && derived.rotation === tile.rotation &&
+      derived.color === tile.color && derived.style === tile.style && derived.shape === tile.shape && derived.flipX === Boolean(tile.flipX) &&
+      derived.layerId === tile.layerId;
+
+    if (isSame) {
+      next.push(tile);
+    } else {
+      changed = true;
+      next.push(derived);
+    }
+  });
+
+  return changed ? next : tiles;
+};
+
+// Move every mirror onto a new symmetry center; syncMirrors then re-places
+// them. Returns the same array when no mirror moves.
+export const moveSymmetryCenter = (tiles: Tile[], center: Point): Tile[] => {
+  const isMoved = (tile: Tile): boolean =>
+    !!tile.mirrorTransform && (tile.mirrorTransform.center.x !== center.x || tile.mirrorTransform.center.y !== center.y);
+
+  if (!tiles.some(isMoved)) return tiles;
+  return tiles.map(tile => tile.mirrorTransform && isMoved(tile)
+    ? { ...tile, mirrorTransform: { ...tile.mirrorTransform, center } }
+    : tile);
+};
+
+// Older saves only linked mirrors by id. Recover the transform by finding
+// which one maps the original closest onto the mirror's position.
+export const inferMirrorTransform = (original: Pick<Tile, 'x' | 'y' | 'rotation'>, mirror: Point): MirrorTransform => {
+  // Those saves only had the canvas-centered four-way mode, which is D2
+  const candidates = getMirrorTransforms({ ...DEFAULT_SYMMETRY, mode: 'dihedral', order: 2 });
+  let best = candidates[0];
+  let bestDistance = Infinity;
+
+  candidates.forEach(transform => {
+    const placed = applyMirrorTransform({ ...original, id: '', shape: 'square', color: '' }, transform);
+    const distance = Math.hypot(placed.x - mirror.x, placed.y - mirror.y);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = transform;
+    }
+  });
+
+  return best;
+};
@@ -0,0 +1,74 @@
+import type { Tile, TileFill, TileStyle } from './types';
+
+export const MAX_STROKE_WIDTH = 20;
+
+export const DEFAULT_TILE_STYLE: TileStyle = {
+  fill: 'solid',
+  accent: '#ffffff',
+  angle: 45,
+  stroke: null,
+  strokeWidth: 2,
+  opacity: 1
+};
+
+export const TILE_FILL_LABELS: Record<TileFill, string> = {
+  solid: 'Solid',
+  linear: 'Linear gradient',
+  radial: 'Radial gradient',
+  hatch: 'Hatching',
+  dots: 'Dots'
+};
+
+// Pattern cell, line and dot sizes in canvas units
+export const PATTERN_SIZE = 8;
+export const HATCH_WIDTH = 2;
+export const DOT_RADIUS = 2;
+
+// A gradient or pattern in <defs>. Tiles with the same colors and fill
+// share one, so a large tiling adds only a handful of definitions.
+export interface TilePaint {
+  id: string;
+  fill: Exclude<TileFill, 'solid'>;
+  color: string;
+  accent: string;
+  angle: number;
+}
+
+const idPart = (value: string): string => value.replace(/[^0-9a-z]/gi, '').toLowerCase();
+
+export const getTileStyle = (tile: Tile): TileStyle => tile.style ?? DEFAULT_TILE_STYLE;
+
+export const getTilePaint = (tile: Tile): TilePaint | null => {
+  const { fill, accent, angle } = getTileStyle(tile);
+  if (fill === 'solid') return null;
+
+  // Radial gradients have no direction, so the angle doesn't split them
+  const turn = fill === 'radial' ? 0 : Math.round(angle * 10) / 10;
+  return {
+    id: `tile-${fill}-${idPart(tile.color)}-${idPart(accent)}-${String(turn).replace('.', '_').replace('-', 'm')}`,
+    fill,
+    color: tile.color,
+    accent,
+    angle: turn
+  };
+};
+
+// Every distinct paint the tiles use, in first-use order
+export const getTilePaints = (tiles: Tile[]): TilePaint[] => {
+  const paints = new Map<string, TilePaint>();
+  tiles.forEach(tile => {
+    const paint = getTilePaint(tile);
+    if (paint && !paints.has(paint.id)) paints.set(paint.id, paint);
+  });
+  return [...paints.values()];
+};
+
+// Value for the tile's fill attribute
+export const getTileFill = (tile: Tile): string => {
+  const paint = getTilePaint(tile);
+  return paint ? `url(#${paint.id})` : tile.color;
+};
+
+export const clampStrokeWidth = (width: number): number => Math.max(0, Math.min(MAX_STROKE_WIDTH, width));
+
+export const clampOpacity = (opacity: number): number => Math.max(0, Math.min(1, opacity));
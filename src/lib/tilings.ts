@@ -0,0 +1,209 @@
+import { EDGE_LENGTH } from './shapes';
+import type { Rect } from './selection';
+import type { Point, ShapeType, Tile } from './types';
+
+export type TilingPlacement = Pick<Tile, 'x' | 'y' | 'rotation'> & { shape: ShapeType };
+
+// A periodic tiling: the motif tiles of one lattice cell, repeated by a and b.
+// Lengths are in edges and scaled to EDGE_LENGTH when generating.
+export interface TilingDefinition {
+  configuration: string; // vertex configuration, e.g. '4.8.8'
+  name: string;
+  a: Point;
+  b: Point;
+  motif: TilingPlacement[];
+}
+
+const SQRT3 = Math.sqrt(3);
+
+const place = (shape: ShapeType, x: number, y: number, rotation = 0): TilingPlacement => ({ shape, x, y, rotation });
+
+// Lattice with a at 0° and b at 60°, both of the given length
+const hexLattice = (length: number) => ({
+  a: { x: length, y: 0 },
+  b: { x: length / 2, y: length * SQRT3 / 2 }
+});
+
+// Points a third and two thirds along the long diagonal of a hex lattice
+// cell: the centers of its two lattice triangles
+const thirds = ({ a, b }: { a: Point; b: Point }): [Point, Point] => [
+  { x: (a.x + b.x) / 3, y: (a.y + b.y) / 3 },
+  { x: (a.x + b.x) * 2 / 3, y: (a.y + b.y) * 2 / 3 }
+];
+
+// Squares halfway along the three lattice edges of a hex lattice cell,
+// turned to face along them
+const edgeSquares = ({ a, b }: { a: Point; b: Point }): TilingPlacement[] => [
+  place('square', a.x / 2, a.y / 2),
+  place('square', b.x / 2, b.y / 2, 60),
+  place('square', (a.x + b.x) / 2, (a.y + b.y) / 2, 30)
+];
+
+const trihexagonal = hexLattice(2);
+const truncatedHexagonal = hexLattice(2 + SQRT3);
+const [truncatedHexagonalUp, truncatedHexagonalDown] = thirds(truncatedHexagonal);
+const truncatedTrihexagonal = hexLattice(3 + SQRT3);
+const [truncatedTrihexagonalFirst, truncatedTrihexagonalSecond] = thirds(truncatedTrihexagonal);
+const rhombitrihexagonal = hexLattice(1 + SQRT3);
+const [rhombitrihexagonalDown, rhombitrihexagonalUp] = thirds(rhombitrihexagonal);
+const snubHexagonal = { a: { x: 5 / 2, y: SQRT3 / 2 }, b: { x: 1 / 2, y: SQRT3 * 3 / 2 } };
+const [snubHexagonalDown, snubHexagonalUp] = thirds(snubHexagonal);
+const truncatedSquare = 1 + Math.SQRT2;
+
+// Snub square cell: squares turned 15° either way at the corner and the
+// middle, with triangles a small step off the cell's inner lines
+const snubSquare = (Math.sqrt(6) + Math.SQRT2) / 2;
+const snubHalf = snubSquare / 2;
+const snubOffset = Math.sqrt(6) / 12;
+
+// Triangles around a flat-topped hexagon at the origin, one on each edge
+const hexagonCrown: TilingPlacement[] = [30, 90, 150, 210, 270, 330].map(angle => {
+  const distance = SQRT3 * 2 / 3;
+  const radians = angle * Math.PI / 180;
+  return place('triangle', distance * Math.cos(radians), distance * Math.sin(radians), angle % 120 === 30 ? 0 : 180);
+});
+
+// The 3 regular and 8 Archimedean (semi-regular) tilings
+export const TILINGS: readonly TilingDefinition[] = [
+  {
+    configuration: '3.3.3.3.3.3',
+    name: 'Triangular',
+    a: { x: 1, y: 0 },
+    b: { x: 1 / 2, y: -SQRT3 / 2 },
+    motif: [place('triangle', 1 / 2, -SQRT3 / 6), place('triangle', 1, -SQRT3 / 3, 180)]
+  },
+  {
+    configuration: '4.4.4.4',
+    name: 'Square',
+    a: { x: 1, y: 0 },
+    b: { x: 0, y: 1 },
+    motif: [place('square', 0, 0)]
+  },
+  {
+    configuration: '6.6.6',
+    name: 'Hexagonal',
+    a: { x: 3 / 2, y: SQRT3 / 2 },
+    b: { x: 0, y: SQRT3 },
+    motif: [place('hexagon', 0, 0)]
+  },
+  {
+    configuration: '3.6.3.6',
+    name: 'Trihexagonal',
+    ...trihexagonal,
+    motif: [place('hexagon', 0, 0), place('triangle', 1, SQRT3 / 3), place('triangle', 0, SQRT3 * 2 / 3, 180)]
+  },
+  {
+    configuration: '4.8.8',
+    name: 'Truncated square',
+    a: { x: truncatedSquare, y: 0 },
+    b: { x: 0, y: truncatedSquare },
+    motif: [place('octagon', 0, 0), place('square', truncatedSquare / 2, truncatedSquare / 2, 45)]
+  },
+  {
+    configuration: '3.12.12',
+    name: 'Truncated hexagonal',
+    ...truncatedHexagonal,
+    motif: [
+      place('dodecagon', 0, 0),
+      place('triangle', truncatedHexagonalUp.x, truncatedHexagonalUp.y),
+      place('triangle', truncatedHexagonalDown.x, truncatedHexagonalDown.y, 180)
+    ]
+  },
+  {
+    configuration: '4.6.12',
+    name: 'Truncated trihexagonal',
+    ...truncatedTrihexagonal,
+    motif: [
+      place('dodecagon', 0, 0),
+      ...edgeSquares(truncatedTrihexagonal),
+      place('hexagon', truncatedTrihexagonalFirst.x, truncatedTrihexagonalFirst.y),
+      place('hexagon', truncatedTrihexagonalSecond.x, truncatedTrihexagonalSecond.y)
+    ]
+  },
+  {
+    configuration: '3.4.6.4',
+    name: 'Rhombitrihexagonal',
+    ...rhombitrihexagonal,
+    motif: [
+      place('hexagon', 0, 0, 30),
+      ...edgeSquares(rhombitrihexagonal),
+      place('triangle', rhombitrihexagonalDown.x, rhombitrihexagonalDown.y, 180),
+      place('triangle', rhombitrihexagonalUp.x, rhombitrihexagonalUp.y)
+    ]
+  },
+  {
+    configuration: '3.3.3.3.6',
+    name: 'Snub hexagonal',
+    ...snubHexagonal,
+    motif: [
+      place('hexagon', 0, 0),
+      ...hexagonCrown,
+      place('triangle', snubHexagonalDown.x, snubHexagonalDown.y, 180),
+      place('triangle', snubHexagonalUp.x, snubHexagonalUp.y)
+    ]
+  },
+  {
+    configuration: '3.3.3.4.4',
+    name: 'Elongated triangular',
+    a: { x: 1, y: 0 },
+    b: { x: 1 / 2, y: 1 + SQRT3 / 2 },
+    motif: [
+      place('square', 0, 0),
+      place('triangle', 0, 1 / 2 + SQRT3 / 6, 180),
+      place('triangle', 1 / 2, 1 / 2 + SQRT3 / 3)
+    ]
+  },
+  {
+    configuration: '3.3.4.3.4',
+    name: 'Snub square',
+    a: { x: snubSquare, y: 0 },
+    b: { x: 0, y: snubSquare },
+    motif: [
+      place('square', 0, 0, 15),
+      place('square', snubHalf, snubHalf, 345),
+      place('triangle', snubOffset, snubHalf + snubOffset, 15),
+      place('triangle', snubHalf - snubOffset, snubOffset, 105),
+      place('triangle', snubSquare - snubOffset, snubHalf - snubOffset, 75),
+      place('triangle', snubHalf + snubOffset, snubSquare - snubOffset, 45)
+    ]
+  }
+];
+
+// Every tile of the tiling whose center falls inside the region, with a
+// lattice point at the origin
+export const generateTiling = (tiling: TilingDefinition, region: Rect, origin: Point): TilingPlacement[] => {
+  const a = { x: tiling.a.x * EDGE_LENGTH, y: tiling.a.y * EDGE_LENGTH };
+  const b = { x: tiling.b.x * EDGE_LENGTH, y: tiling.b.y * EDGE_LENGTH };
+  const det = a.x * b.y - a.y * b.x;
+
+  // Cells whose lattice point could put a motif tile in the region; the
+  // motif stays within one cell of its lattice point
+  const corners = [
+    { x: region.x, y: region.y },
+    { x: region.x + region.width, y: region.y },
+    { x: region.x, y: region.y + region.height },
+    { x: region.x + region.width, y: region.y + region.height }
+  ].map(({ x, y }) => {
+    const dx = x - origin.x;
+    const dy = y - origin.y;
+    return { u: (dx * b.y - dy * b.x) / det, v: (a.x * dy - a.y * dx) / det };
+  });
+  const minU = Math.floor(Math.min(...corners.map(c => c.u))) - 1;
+  const maxU = Math.ceil(Math.max(...corners.map(c => c.u))) + 1;
+  const minV = Math.floor(Math.min(...corners.map(c => c.v))) - 1;
+  const maxV = Math.ceil(Math.max(...corners.map(c => c.v))) + 1;
+
+  const placements: TilingPlacement[] = [];
+  for (let u = minU; u <= maxU; u++) {
+    for (let v = minV; v <= maxV; v++) {
+      tiling.motif.forEach(tile => {
+        const x = origin.x + tile.x * EDGE_LENGTH + u * a.x + v * b.x;
+        const y = origin.y + tile.y * EDGE_LENGTH + u * a.y + v * b.y;
+        if (x < region.x || x > region.x + region.width || y < region.y || y > region.y + region.height) return;
+        placements.push({ ...tile, x, y });
+      });
+    }
+  }
+
+  return placements;
+};
@@ -0,0 +1,190 @@
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Tile {
+  id: string;
+  shape: ShapeId;
+  x: number;
+  y: number;
+  rotation: number;
+  color: string;
+  style?: TileStyle; // Plain fill with the default outline when left out
+  flipX?: boolean; // Mirrored across the tile's own vertical axis, before rotation
+  isSymmetryMirror?: boolean; // Track if this is a mirror tile
+  originalId?: string; // Reference to original tile for mirrors
+  mirrorTransform?: MirrorTransform; // How a mirror is derived from its original
+  layerId?: string; // Layer the tile is drawn on; mirrors share their original's
+  groupId?: string; // Named group the tile moves and selects with
+}
+
+// How a tile is painted beyond its color. Gradients run from the tile's
+// color to the accent; hatching and dots draw the accent over the color.
+// Fills are laid out in the tile's own frame, so they turn with it.
+export interface TileStyle {
+  fill: TileFill;
+  accent: string;
+  angle: number; // degrees: direction of a linear gradient, hatching or dot rows
+  stroke: string | null; // outline color, or null for the default outline
+  strokeWidth: number; // only used with a stroke color
+  opacity: number; // 0 to 1
+}
+
+// One level of the z-order. Hidden layers are not drawn or exported, locked
+// layers are drawn but their tiles can't be selected or moved.
+export interface Layer {
+  id: string;
+  name: string;
+  visible: boolean;
+  locked: boolean;
+}
+
+// Tiles join a group through their groupId
+export interface TileGroup {
+  id: string;
+  name: string;
+}
+
+// A polygon drawn in the shape editor. Tiles refer to it by id like a
+// built-in shape.
+export interface CustomShape {
+  id: CustomShapeId;
+  name: string;
+  color: string; // swatch in the shape palette
+  vertices: Point[]; // outline around the center, in canvas units
+}
+
+// The undoable part of a design: tiles in array order within each layer,
+// layers bottom to top
+export interface Scene {
+  tiles: Tile[];
+  layers: Layer[];
+  groups: TileGroup[];
+  customShapes: CustomShape[];
+}
+
+// Symmetry operation that maps an original tile onto one of its mirrors
+export interface MirrorTransform {
+  rotation: number; // degrees about the symmetry center
+  reflect: boolean; // reflect across the vertical axis through the center first
+  center: Point; // symmetry center the mirror was placed around
+}
+
+export interface Edge {
+  start: Point;
+  end: Point;
+  length: number;
+  midpoint: Point;
+  normal: Point; // perpendicular vector pointing outward
+}
+
+export type ShapeType =
+  | 'triangle'
+  | 'square'
+  | 'pentagon'
+  | 'hexagon'
+  | 'heptagon'
+  | 'octagon'
+  | 'nonagon'
+  | 'decagon'
+  | 'hendecagon'
+  | 'dodecagon'
+  | 'diamond'
+  | 'rhombus-30'
+  | 'rhombus-45'
+  | 'rhombus-60'
+  | 'rhombus-72'
+  | 'kite'
+  | 'dart'
+  | 'trapezoid-60'
+  | 'trapezoid-72'
+  | 'house-pentagon'
+  | 'cairo-pentagon';
+// The prefix keeps custom ids apart from the built-in shapes
+export type CustomShapeId = `custom-${string}`;
+export type ShapeId = ShapeType | CustomShapeId;
+export type SymmetryMode = 'none' | 'horizontal' | 'vertical' | 'rotational' | 'dihedral' | 'wallpaper';
+export type GridType = 'square' | 'triangular' | 'hexagonal' | 'polar';
+export type TileFill = 'solid' | 'linear' | 'radial' | 'hatch' | 'dots';
+
+// The 17 plane symmetry groups, in the usual crystallographic order
+export type WallpaperGroup =
+  | 'p1' | 'p2' | 'pm' | 'pg' | 'cm' | 'pmm' | 'pmg' | 'pgg' | 'cmm'
+  | 'p4' | 'p4m' | 'p4g' | 'p3' | 'p3m1' | 'p31m' | 'p6' | 'p6m';
+
+// Lattice of a wallpaper pattern. The group decides which of these are
+// free: square and hexagonal lattices ignore height, only oblique ones use angle.
+export interface WallpaperSettings {
+  group: WallpaperGroup;
+  width: number; // length of the first lattice vector
+  height: number; // length of the second lattice vector
+  angle: number; // degrees between the two lattice vectors
+}
+
+// Background grid. Spacing is the side of a square or triangle, the edge of a
+// hexagon, or the distance between the rings of a polar grid, whose spokes
+// split the turn into `divisions` equal sectors.
+export interface GridSettings {
+  type: GridType;
+  spacing: number;
+  origin: Point; // a node of the grid; the pole of a polar grid
+  divisions: number; // polar grids only
+  snap: boolean; // pull dragged, moved and new tiles onto the grid nodes
+}
+
+// Named list of swatch colors, each a lowercase #rrggbb
+export interface Palette {
+  name: string;
+  colors: string[];
+}
+
+// Symmetry applied to newly placed tiles. Order is the n of Cn/Dn and is
+// ignored by the other modes; wallpaper is only used by the wallpaper mode,
+// where the center is the lattice origin.
+export interface SymmetrySettings {
+  mode: SymmetryMode;
+  order: number;
+  center: Point;
+  wallpaper: WallpaperSettings;
+}
+
+export const SHAPE_TYPES: readonly ShapeType[] = [
+  'triangle',
+  'square',
+  'pentagon',
+  'hexagon',
+  'heptagon',
+  'octagon',
+  'nonagon',
+  'decagon',
+  'hendecagon',
+  'dodecagon',
+  'diamond',
+  'rhombus-30',
+  'rhombus-45',
+  'rhombus-60',
+  'rhombus-72',
+  'kite',
+  'dart',
+  'trapezoid-60',
+  'trapezoid-72',
+  'house-pentagon',
+  'cairo-pentagon'
+];
+export const SYMMETRY_MODES: readonly SymmetryMode[] = ['none', 'horizontal', 'vertical', 'rotational', 'dihedral', 'wallpaper'];
+export const GRID_TYPES: readonly GridType[] = ['square', 'triangular', 'hexagonal', 'polar'];
+export const TILE_FILLS: readonly TileFill[] = ['solid', 'linear', 'radial', 'hatch', 'dots'];
+export const WALLPAPER_GROUPS: readonly WallpaperGroup[] = [
+  'p1', 'p2', 'pm', 'pg', 'cm', 'pmm', 'pmg', 'pgg', 'cmm',
+  'p4', 'p4m', 'p4g', 'p3', 'p3m1', 'p31m', 'p6', 'p6m'
+];
+
+// Everything needed to bring a design back into the editor
+export interface DesignSnapshot extends Scene {
+  symmetry: SymmetrySettings;
+  palette: Palette;
+  selectedColor: string;
+  showGrid: boolean;
+  grid: GridSettings;
+}
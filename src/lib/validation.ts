@@ -0,0 +1,294 @@
+import { getShape } from './shapes';
+import { buildSpatialIndex, expandRect, getTileGeometry, queryRect } from './spatialIndex';
+import type { Edge, Point, Tile } from './types';
+
+export type TilingProblemKind = 'overlap' | 'hole' | 'junction';
+
+export interface TilingProblem {
+  kind: TilingProblemKind;
+  tileIds: string[]; // tiles involved, mirrors and repeats included
+  region: Point[]; // outline to highlight; a single point for a junction
+  center: Point;
+  message: string;
+}
+
+export interface TilingReport {
+  problems: TilingProblem[];
+  isValid: boolean; // a non-empty, gap-free, overlap-free, edge-to-edge tiling
+}
+
+// Areas below this, in square canvas units, are float noise rather than a
+// real overlap or hole
+const AREA_TOLERANCE = 0.5;
+
+// How far a corner may sit from an edge and still count as touching it
+const DISTANCE_TOLERANCE = 0.01;
+
+// Corners tiles share can still differ by a weld step or two, e.g. in older
+// saves, so corners this close are one vertex of the outline
+const MERGE_TOLERANCE = DISTANCE_TOLERANCE;
+
+const vertexKey = (point: Point): string => `${point.x},${point.y}`;
+
+// Give every corner a vertex id, the same for corners within MERGE_TOLERANCE
+// of each other: a union-find over a grid of tolerance-sized cells, so each
+// corner is only compared with those in the cells around it
+const mergeVertices = (points: Point[]): ((point: Point) => number) => {
+  const ids = new Map<string, number>();
+  const corners: Point[] = [];
+  const parent: number[] = [];
+  const cells = new Map<string, number[]>();
+
+  const find = (id: number): number => {
+    while (parent[id] !== id) {
+      parent[id] = parent[parent[id]];
+      id = parent[id];
+    }
+    return id;
+  };
+
+  points.forEach(point => {
+    const key = vertexKey(point);
+    if (ids.has(key)) return;
+
+    const id = corners.length;
+    ids.set(key, id);
+    corners.push(point);
+    parent.push(id);
+
+    const cellX = Math.floor(point.x / MERGE_TOLERANCE);
+    const cellY = Math.floor(point.y / MERGE_TOLERANCE);
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        cells.get(`${cellX + dx},${cellY + dy}`)?.forEach(other => {
+          const corner = corners[other];
+          if (Math.hypot(corner.x - point.x, corner.y - point.y) <= MERGE_TOLERANCE) parent[find(other)] = find(id);
+        });
+      }
+    }
+    const cell = `${cellX},${cellY}`;
+    cells.set(cell, [...(cells.get(cell) ?? []), id]);
+  });
+
+  return point => find(ids.get(vertexKey(point))!);
+};
+
+// Shoelace area, positive or negative depending on the winding
+const signedArea = (points: Point[]): number =>
+  points.reduce((sum, point, index) => {
+    const next = points[(index + 1) % points.length];
+    return sum + point.x * next.y - next.x * point.y;
+  }, 0) / 2;
+
+const averagePoint = (points: Point[]): Point => ({
+  x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+  y: points.reduce((sum, point) => sum + point.y, 0) / points.length
+});
+
+// z of the cross product of b - a and c - a; its sign tells which side of
+// the line through a and b the point c lies on
+const cross = (a: Point, b: Point, c: Point): number =>
+  (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+
+// Clip a polygon to the inside of a convex one (Sutherland–Hodgman)
+const clipPolygon = (subject: Point[], clip: Point[]): Point[] => {
+  const winding = Math.sign(signedArea(clip));
+
+  return clip.reduce((points, start, index) => {
+    if (points.length === 0) return points;
+
+    const end = clip[(index + 1) % clip.length];
+    const depth = (point: Point) => -winding * cross(start, end, point);
+    const result: Point[] = [];
+
+    points.forEach((current, i) => {
+      const previous = points[(i + points.length - 1) % points.length];
+      const currentDepth = depth(current);
+      const previousDepth = depth(previous);
+
+      if ((currentDepth <= 0) !== (previousDepth <= 0)) {
+        const t = previousDepth / (previousDepth - currentDepth);
+        result.push({ x: previous.x + (current.x - previous.x) * t, y: previous.y + (current.y - previous.y) * t });
+      }
+      if (currentDepth <= 0) result.push(current);
+    });
+
+    return result;
+  }, subject);
+};
+
+// Split an outline into convex pieces for clipping: convex outlines stay
+// whole, concave ones such as the dart are cut into triangles (ear clipping)
+const convexPieces = (outline: Point[]): Point[][] => {
+  const winding = Math.sign(signedArea(outline));
+  const isConvexCorner = (previous: Point, corner: Point, next: Point) => winding * cross(previous, corner, next) >= 0;
+  const corners = (points: Point[], i: number): [Point, Point, Point] =>
+    [points[(i + points.length - 1) % points.length], points[i], points[(i + 1) % points.length]];
+
+  if (outline.every((_, i) => isConvexCorner(...corners(outline, i)))) return [outline];
+
+  const pieces: Point[][] = [];
+  let remaining = outline;
+  while (remaining.length > 3) {
+    const ear = remaining.findIndex((_, i) => {
+      const [previous, corner, next] = corners(remaining, i);
+      return winding * cross(previous, corner, next) > 0 && remaining.every(point =>
+        point === previous || point === corner || point === next ||
+        winding * cross(previous, corner, point) < 0 ||
+        winding * cross(corner, next, point) < 0 ||
+        winding * cross(next, previous, point) < 0);
+    });
+    if (ear === -1) break;
+
+    pieces.push(corners(remaining, ear));
+    remaining = remaining.filter((_, i) => i !== ear);
+  }
+  return [...pieces, remaining];
+};
+
+// Where along the edge (0 to 1) a point lies, or null when it is off the edge
+// or on one of its ends
+const positionOnEdge = (point: Point, edge: Edge): number | null => {
+  const dx = edge.end.x - edge.start.x;
+  const dy = edge.end.y - edge.start.y;
+  const t = ((point.x - edge.start.x) * dx + (point.y - edge.start.y) * dy) / (edge.length * edge.length);
+  const along = t * edge.length;
+  if (along <= DISTANCE_TOLERANCE || along >= edge.length - DISTANCE_TOLERANCE) return null;
+
+  const offLine = Math.abs((point.x - edge.start.x) * dy - (point.y - edge.start.y) * dx) / edge.length;
+  return offLine <= DISTANCE_TOLERANCE ? t : null;
+};
+
+interface BoundarySegment {
+  start: Point;
+  end: Point;
+  tileId: string;
+}
+
+// Check the tiles form an edge-to-edge tiling of the region they cover:
+// no two overlap, every edge meets its neighbours corner to corner, and the
+// outline of the covered region has no holes inside it
+export const validateTiling = (tiles: Tile[]): TilingReport => {
+  const index = buildSpatialIndex(tiles);
+  const problems: TilingProblem[] = [];
+  const name = (tile: Tile) => getShape(tile.shape).name;
+
+  // Overlaps: the shared area of every pair of nearby tiles. The largest
+  // shared piece is highlighted when a concave tile splits it up.
+  tiles.forEach((tile, order) => {
+    const { edges, bounds } = getTileGeometry(tile);
+    const outline = edges.map(edge => edge.start);
+
+    queryRect(index, bounds).forEach(other => {
+      if (other.order <= order) return;
+
+      const shared = convexPieces(other.edges.map(edge => edge.start))
+        .map(piece => clipPolygon(outline, piece))
+        .filter(piece => piece.length >= 3);
+      const areas = shared.map(piece => Math.abs(signedArea(piece)));
+      const total = areas.reduce((sum, area) => sum + area, 0);
+      if (total < AREA_TOLERANCE) return;
+
+      const region = shared[areas.indexOf(Math.max(...areas))];
+      problems.push({
+        kind: 'overlap',
+        tileIds: [tile.id, other.tile.id],
+        region,
+        center: averagePoint(region),
+        message: `${name(tile)} overlaps ${name(other.tile)}`
+      });
+    });
+  });
+
+  // Junctions: corners that land part way along another tile's edge. The
+  // edge is split there so the outline below is traced corner to corner.
+  const splits = new Map<Edge, { t: number; corner: Point }[]>();
+  const junctions = new Set<number>();
+  const vertexId = mergeVertices(tiles.flatMap(tile => getTileGeometry(tile).edges.map(edge => edge.start)));
+
+  tiles.forEach(tile => {
+    getTileGeometry(tile).edges.forEach(({ start: corner }) => {
+      const near = { x: corner.x, y: corner.y, width: 0, height: 0 };
+
+      queryRect(index, expandRect(near, DISTANCE_TOLERANCE)).forEach(other => {
+        if (other.tile === tile) return;
+
+        other.edges.forEach(edge => {
+          const t = positionOnEdge(corner, edge);
+          if (t === null) return;
+
+          splits.set(edge, [...(splits.get(edge) ?? []), { t, corner }]);
+
+          const id = vertexId(corner);
+          if (junctions.has(id)) return;
+          junctions.add(id);
+          problems.push({
+            kind: 'junction',
+            tileIds: [tile.id, other.tile.id],
+            region: [corner],
+            center: corner,
+            message: `Corner of ${name(tile)} meets the middle of an edge of ${name(other.tile)}`
+          });
+        });
+      });
+    });
+  });
+
+  // Holes: edge pieces used by only one tile make up the outline of the
+  // covered region. Each piece is directed so its tile lies on the same side,
+  // which gives outer outlines a negative area and holes a positive one.
+  const pieces = new Map<string, BoundarySegment[]>();
+
+  tiles.forEach(tile => {
+    getTileGeometry(tile).edges.forEach(edge => {
+      const dx = edge.end.x - edge.start.x;
+      const dy = edge.end.y - edge.start.y;
+      const forward = dx * edge.normal.y - dy * edge.normal.x > 0;
+      // Several tiles may have a corner at the same point on the edge
+      const cuts = [...(splits.get(edge) ?? [])].sort((a, b) => a.t - b.t).map(split => split.corner);
+      const points = [edge.start, ...cuts, edge.end].filter((point, i, all) => i === 0 || vertexId(point) !== vertexId(all[i - 1]));
+
+      for (let i = 0; i < points.length - 1; i++) {
+        const [start, end] = forward ? [points[i], points[i + 1]] : [points[i + 1], points[i]];
+        const key = [vertexId(start), vertexId(end)].sort((a, b) => a - b).join('|');
+        pieces.set(key, [...(pieces.get(key) ?? []), { start, end, tileId: tile.id }]);
+      }
+    });
+  });
+
+  const outgoing = new Map<number, BoundarySegment[]>();
+  pieces.forEach(segments => {
+    if (segments.length !== 1) return;
+    const [segment] = segments;
+    const id = vertexId(segment.start);
+    outgoing.set(id, [...(outgoing.get(id) ?? []), segment]);
+  });
+
+  const used = new Set<BoundarySegment>();
+  outgoing.forEach(segments => segments.forEach(first => {
+    if (used.has(first)) return;
+
+    const loop: BoundarySegment[] = [];
+    let segment: BoundarySegment | undefined = first;
+    while (segment && !used.has(segment)) {
+      used.add(segment);
+      loop.push(segment);
+      segment = outgoing.get(vertexId(segment.end))?.find(next => !used.has(next));
+    }
+
+    const closed = vertexId(loop[loop.length - 1].end) === vertexId(first.start);
+    const outline = loop.map(piece => piece.start);
+    const area = signedArea(outline);
+    if (!closed || area < AREA_TOLERANCE) return;
+
+    problems.push({
+      kind: 'hole',
+      tileIds: Array.from(new Set(loop.map(piece => piece.tileId))),
+      region: outline,
+      center: averagePoint(outline),
+      message: `Hole of ${Math.round(area)} square units`
+    });
+  }));
+
+  return { problems, isValid: tiles.length > 0 && problems.length === 0 };
+};
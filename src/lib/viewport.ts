@@ -0,0 +1,69 @@
+import type { Rect } from './selection';
+import type { Point } from './types';
+
+// What the workspace shows: the document point at the middle of the canvas
+// and how many screen pixels one document unit takes up
+export interface Viewport {
+  center: Point;
+  zoom: number;
+}
+
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 8;
+export const ZOOM_STEP = 1.25;
+
+export const DEFAULT_VIEWPORT: Viewport = { center: { x: 300, y: 300 }, zoom: 1 };
+
+export const clampZoom = (zoom: number): number => Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom));
+
+// The document area on screen for a canvas of the given pixel size. Its
+// aspect ratio matches the canvas, so the SVG is never letterboxed.
+export const getViewRect = ({ center, zoom }: Viewport, size: { width: number; height: number }): Rect => ({
+  x: center.x - size.width / zoom / 2,
+  y: center.y - size.height / zoom / 2,
+  width: size.width / zoom,
+  height: size.height / zoom
+});
+
+// Zoom about a document point, which stays put on screen
+export const zoomAt = (viewport: Viewport, zoom: number, anchor: Point): Viewport => {
+  const next = clampZoom(zoom);
+  const ratio = viewport.zoom / next;
+  return {
+    center: {
+      x: anchor.x + (viewport.center.x - anchor.x) * ratio,
+      y: anchor.y + (viewport.center.y - anchor.y) * ratio
+    },
+    zoom: next
+  };
+};
+
+// Move the view by a distance in screen pixels, like dragging the paper
+export const panBy = ({ center, zoom }: Viewport, dx: number, dy: number): Viewport => ({
+  center: { x: center.x - dx / zoom, y: center.y - dy / zoom },
+  zoom
+});
+
+// The view that shows the whole rectangle with a margin of screen pixels
+// around it, zooming in no further than maxZoom for small content
+export const fitRect = (rect: Rect, size: { width: number; height: number }, maxZoom = 1, margin = 40): Viewport => {
+  const zoom = Math.min(
+    (size.width - margin * 2) / Math.max(rect.width, 1),
+    (size.height - margin * 2) / Math.max(rect.height, 1),
+    maxZoom
+  );
+  return {
+    center: { x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 },
+    zoom: clampZoom(zoom)
+  };
+};
+
+// Document coordinates under a screen point. The SVG's own transform is used,
+// so the mapping holds at any zoom and whatever the canvas size.
+export const clientToDocument = (svg: SVGSVGElement, clientX: number, clientY: number): Point => {
+  const matrix = svg.getScreenCTM();
+  if (!matrix) return { x: clientX, y: clientY };
+
+  const point = new DOMPoint(clientX, clientY).matrixTransform(matrix.inverse());
+  return { x: point.x, y: point.y };
+};
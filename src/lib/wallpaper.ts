@@ -0,0 +1,249 @@
+import { normalizeAngle } from './rotation';
+import { getTileRadius } from './shapes';
+import type { Rect } from './selection';
+import { applyMirrorTransform } from './symmetry';
+import type { Point, SymmetrySettings, Tile, WallpaperGroup, WallpaperSettings } from './types';
+
+export type LatticeType = 'oblique' | 'rectangular' | 'centered' | 'square' | 'hexagonal';
+
+// One symmetry operation of a group: a rotation or reflection about the
+// lattice origin (same convention as MirrorTransform), then a shift in
+// lattice units
+interface WallpaperOperation {
+  rotation: number;
+  reflect: boolean;
+  shift: [number, number];
+}
+
+// Lattice vectors; a lies along +x and b is `angle` degrees clockwise from it
+export interface Lattice {
+  a: Point;
+  b: Point;
+}
+
+export const MIN_CELL_SIZE = 40;
+export const MAX_CELL_SIZE = 600;
+export const MIN_LATTICE_ANGLE = 30;
+export const MAX_LATTICE_ANGLE = 150;
+
+// Copies further than this outside the region can't reach into view
+const VIEW_MARGIN = 100;
+
+// Hard cap so a tiny cell can't flood the canvas with thousands of paths
+export const MAX_WALLPAPER_COPIES = 3000;
+
+const turn = (rotation: number): Omit<WallpaperOperation, 'shift'> => ({ rotation, reflect: false });
+
+// Reflection across the line through the origin at `angle` degrees
+const mirror = (angle: number): Omit<WallpaperOperation, 'shift'> => ({
+  rotation: normalizeAngle(2 * angle - 180),
+  reflect: true
+});
+
+const at = (shift: [number, number], ...operations: Omit<WallpaperOperation, 'shift'>[]): WallpaperOperation[] =>
+  operations.map(operation => ({ ...operation, shift }));
+
+// Centered lattices repeat every operation from the middle of the cell
+const centered = (operations: WallpaperOperation[]): WallpaperOperation[] => [
+  ...operations,
+  ...operations.map(operation => ({ ...operation, shift: [operation.shift[0] + 0.5, operation.shift[1] + 0.5] as [number, number] }))
+];
+
+const ORIGIN: [number, number] = [0, 0];
+const HALF_A: [number, number] = [0.5, 0];
+const HALF_B: [number, number] = [0, 0.5];
+const HALF_AB: [number, number] = [0.5, 0.5];
+
+// Operations of each group in standard settings, identity first. Mirror
+// angles are measured from the lattice vector a.
+export const WALLPAPER_GROUP_INFO: Record<WallpaperGroup, { lattice: LatticeType; operations: WallpaperOperation[] }> = {
+  p1: { lattice: 'oblique', operations: at(ORIGIN, turn(0)) },
+  p2: { lattice: 'oblique', operations: at(ORIGIN, turn(0), turn(180)) },
+  pm: { lattice: 'rectangular', operations: at(ORIGIN, turn(0), mirror(90)) },
+  pg: { lattice: 'rectangular', operations: [...at(ORIGIN, turn(0)), ...at(HALF_B, mirror(90))] },
+  cm: { lattice: 'centered', operations: centered(at(ORIGIN, turn(0), mirror(90))) },
+  pmm: { lattice: 'rectangular', operations: at(ORIGIN, turn(0), turn(180), mirror(90), mirror(0)) },
+  pmg: { lattice: 'rectangular', operations: [...at(ORIGIN, turn(0), turn(180)), ...at(HALF_A, mirror(90), mirror(0))] },
+  pgg: { lattice: 'rectangular', operations: [...at(ORIGIN, turn(0), turn(180)), ...at(HALF_AB, mirror(90), mirror(0))] },
+  cmm: { lattice: 'centered', operations: centered(at(ORIGIN, turn(0), turn(180), mirror(90), mirror(0))) },
+  p4: { lattice: 'square', operations: at(ORIGIN, turn(0), turn(90), turn(180), turn(270)) },
+  p4m: {
+    lattice: 'square',
+    operations: at(ORIGIN, turn(0), turn(90), turn(180), turn(270), mirror(0), mirror(45), mirror(90), mirror(135))
+  },
+  p4g: {
+    lattice: 'square',
+    operations: [
+      ...at(ORIGIN, turn(0), turn(90), turn(180), turn(270)),
+      ...at(HALF_AB, mirror(0), mirror(45), mirror(90), mirror(135))
+    ]
+  },
+  p3: { lattice: 'hexagonal', operations: at(ORIGIN, turn(0), turn(120), turn(240)) },
+  // p3m1 mirrors are perpendicular to the lattice vectors, p31m mirrors lie along them
+  p3m1: { lattice: 'hexagonal', operations: at(ORIGIN, turn(0), turn(120), turn(240), mirror(30), mirror(90), mirror(150)) },
+  p31m: { lattice: 'hexagonal', operations: at(ORIGIN, turn(0), turn(120), turn(240), mirror(0), mirror(60), mirror(120)) },
+  p6: { lattice: 'hexagonal', operations: at(ORIGIN, turn(0), turn(60), turn(120), turn(180), turn(240), turn(300)) },
+  p6m: {
+    lattice: 'hexagonal',
+    operations: at(
+      ORIGIN,
+      turn(0), turn(60), turn(120), turn(180), turn(240), turn(300),
+      mirror(0), mirror(30), mirror(60), mirror(90), mirror(120), mirror(150)
+    )
+  }
+};
+
+const clamp = (value: number, min: number, max: number): number => Math.max(min, Math.min(max, value));
+
+// Lattice vectors for the settings, with the group's constraints applied
+export const getLattice = (settings: WallpaperSettings): Lattice => {
+  const { lattice } = WALLPAPER_GROUP_INFO[settings.group];
+  const width = clamp(settings.width, MIN_CELL_SIZE, MAX_CELL_SIZE);
+  let height = clamp(settings.height, MIN_CELL_SIZE, MAX_CELL_SIZE);
+  let angle = clamp(settings.angle, MIN_LATTICE_ANGLE, MAX_LATTICE_ANGLE);
+
+  if (lattice === 'square' || lattice === 'hexagonal') height = width;
+  if (lattice === 'hexagonal') angle = 120;
+  else if (lattice !== 'oblique') angle = 90;
+
+  const radians = angle * Math.PI / 180;
+  return {
+    a: { x: width, y: 0 },
+    b: { x: height * Math.cos(radians), y: height * Math.sin(radians) }
+  };
+};
+
+const latticePoint = ({ a, b }: Lattice, u: number, v: number): Point => ({
+  x: u * a.x + v * b.x,
+  y: u * a.y + v * b.y
+});
+
+// Lattice coordinates of an offset from the origin
+const toLatticeCoords = ({ a, b }: Lattice, offset: Point): [number, number] => {
+  const det = a.x * b.y - a.y * b.x;
+  return [
+    (offset.x * b.y - offset.y * b.x) / det,
+    (offset.y * a.x - offset.x * a.y) / det
+  ];
+};
+
+// How far a disc of the given radius reaches in lattice units along u and v
+const latticeReach = ({ a, b }: Lattice, radius: number): [number, number] => {
+  const det = Math.abs(a.x * b.y - a.y * b.x);
+  return [radius * Math.hypot(b.x, b.y) / det, radius * Math.hypot(a.x, a.y) / det];
+};
+
+// Every image of each tile under the group's operations, before any
+// lattice translation
+const getImages = (tiles: Tile[], symmetry: SymmetrySettings, lattice: Lattice) => {
+  const { operations } = WALLPAPER_GROUP_INFO[symmetry.wallpaper.group];
+
+  return tiles.flatMap(tile => operations.map((operation, index) => {
+    const placed = applyMirrorTransform(tile, { rotation: operation.rotation, reflect: operation.reflect, center: symmetry.center });
+    const shift = latticePoint(lattice, operation.shift[0], operation.shift[1]);
+    return { tile, index, placed: { ...placed, x: placed.x + shift.x, y: placed.y + shift.y } };
+  }));
+};
+
+const createCopy = (tile: Tile, placed: Pick<Tile, 'x' | 'y' | 'rotation' | 'flipX'>, id: string): Tile => ({
+  id,
+  shape: tile.shape,
+  color: tile.color,
+  ...(tile.style ? { style: tile.style } : {}),
+  ...placed,
+  isSymmetryMirror: true,
+  originalId: tile.originalId ?? tile.id
+});
+
+// Repeats of the design across the visible region. These are derived on
+// every render and never stored, so the cell stays the only thing to edit.
+export const getWallpaperCopies = (tiles: Tile[], symmetry: SymmetrySettings, region: Rect): Tile[] => {
+  if (symmetry.mode !== 'wallpaper' || tiles.length === 0) return [];
+
+  const lattice = getLattice(symmetry.wallpaper);
+  const corners: Point[] = [
+    { x: region.x - VIEW_MARGIN, y: region.y - VIEW_MARGIN },
+    { x: region.x + region.width + VIEW_MARGIN, y: region.y - VIEW_MARGIN },
+    { x: region.x - VIEW_MARGIN, y: region.y + region.height + VIEW_MARGIN },
+    { x: region.x + region.width + VIEW_MARGIN, y: region.y + region.height + VIEW_MARGIN }
+  ];
+  const copies: Tile[] = [];
+
+  for (const { tile, index, placed } of getImages(tiles, symmetry, lattice)) {
+    const coords = corners.map(corner => toLatticeCoords(lattice, { x: corner.x - placed.x, y: corner.y - placed.y }));
+    const [minU, maxU] = [Math.min(...coords.map(c => c[0])), Math.max(...coords.map(c => c[0]))];
+    const [minV, maxV] = [Math.min(...coords.map(c => c[1])), Math.max(...coords.map(c => c[1]))];
+
+    for (let u = Math.ceil(minU); u <= Math.floor(maxU); u++) {
+      for (let v = Math.ceil(minV); v <= Math.floor(maxV); v++) {
+        // The identity without translation is the tile itself
+        if (index === 0 && u === 0 && v === 0) continue;
+
+        const offset = latticePoint(lattice, u, v);
+        const x = placed.x + offset.x;
+        const y = placed.y + offset.y;
+        if (x < corners[0].x || x > corners[3].x || y < corners[0].y || y > corners[3].y) continue;
+
+        copies.push(createCopy(tile, { ...placed, x, y }, `${tile.id}~${index}~${u}~${v}`));
+        if (copies.length >= MAX_WALLPAPER_COPIES) return copies;
+      }
+    }
+  }
+
+  return copies;
+};
+
+// The repeating unit for an SVG <pattern>: every image of the design that
+// overlaps the cell spanned by a and b at the origin
+export interface WallpaperUnit {
+  origin: Point;
+  lattice: Lattice;
+  tiles: Tile[];
+}
+
+export const getWallpaperUnit = (tiles: Tile[], symmetry: SymmetrySettings): WallpaperUnit => {
+  const lattice = getLattice(symmetry.wallpaper);
+  const unitTiles: Tile[] = [];
+
+  getImages(tiles, symmetry, lattice).forEach(({ tile, index, placed }) => {
+    const [u, v] = toLatticeCoords(lattice, { x: placed.x - symmetry.center.x, y: placed.y - symmetry.center.y });
+    const [reachU, reachV] = latticeReach(lattice, getTileRadius({ ...tile, ...placed }));
+
+    // Every translate whose copy can overlap the unit square [0, 1]²
+    for (let i = Math.ceil(-u - reachU); i < 1 - u + reachU; i++) {
+      for (let j = Math.ceil(-v - reachV); j < 1 - v + reachV; j++) {
+        const offset = latticePoint(lattice, i, j);
+        unitTiles.push(createCopy(tile, { ...placed, x: placed.x + offset.x, y: placed.y + offset.y }, `${tile.id}~${index}~${i}~${j}`));
+      }
+    }
+  });
+
+  return { origin: symmetry.center, lattice, tiles: unitTiles };
+};
+
+// Lattice lines crossing the visible region, for the editor guides
+export const getLatticeLines = (symmetry: SymmetrySettings, region: Rect): [Point, Point][] => {
+  const lattice = getLattice(symmetry.wallpaper);
+  const { center } = symmetry;
+  const corners: Point[] = [
+    { x: region.x, y: region.y },
+    { x: region.x + region.width, y: region.y },
+    { x: region.x, y: region.y + region.height },
+    { x: region.x + region.width, y: region.y + region.height }
+  ];
+  const coords = corners.map(corner => toLatticeCoords(lattice, { x: corner.x - center.x, y: corner.y - center.y }));
+  const minU = Math.floor(Math.min(...coords.map(c => c[0])));
+  const maxU = Math.ceil(Math.max(...coords.map(c => c[0])));
+  const minV = Math.floor(Math.min(...coords.map(c => c[1])));
+  const maxV = Math.ceil(Math.max(...coords.map(c => c[1])));
+
+  const toCanvas = (u: number, v: number): Point => {
+    const point = latticePoint(lattice, u, v);
+    return { x: center.x + point.x, y: center.y + point.y };
+  };
+
+  const lines: [Point, Point][] = [];
+  for (let u = minU; u <= maxU; u++) lines.push([toCanvas(u, minV), toCanvas(u, maxV)]);
+  for (let v = minV; v <= maxV; v++) lines.push([toCanvas(minU, v), toCanvas(maxU, v)]);
+  return lines;
+};